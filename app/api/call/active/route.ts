@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { CALL_VIEWER_TOKEN_TTL_SECONDS, getCallViewerTokenSecret, signCallViewerToken } from '@/lib/call-access-token'
+import { listLiveCalls } from '@/lib/live-store'
+import { isTerminalStatus } from '@/lib/live-types'
+import { getTenantAccess } from '@/lib/tenant-auth'
+
+export const runtime = 'nodejs'
+
+// A call that ended this recently is still shown, so caregivers see how it went.
+const RECENT_CALL_WINDOW_MS = 30 * 60_000
+// A call still open after this long missed its final status callback.
+const MAX_LIVE_CALL_AGE_MS = CALL_VIEWER_TOKEN_TTL_SECONDS * 1000
+
+const NO_STORE = { 'Cache-Control': 'no-store' }
+
+/**
+ * The tenant's current (or just-ended) call with a viewer token for it, for
+ * caregivers who did not start the call themselves.
+ */
+export async function GET(request: NextRequest) {
+  const slug = request.nextUrl.searchParams.get('slug')
+
+  if (!slug) {
+    return NextResponse.json({ ok: false, error: 'slug is required.' }, { status: 400, headers: NO_STORE })
+  }
+
+  try {
+    const access = await getTenantAccess(slug)
+
+    if (access.status !== 'owner' && access.status !== 'viewer') {
+      return NextResponse.json(
+        { ok: false, error: access.status === 'not-found' ? 'Tenant not found.' : 'Your invite has ended.' },
+        { status: access.status === 'not-found' ? 404 : 401, headers: NO_STORE },
+      )
+    }
+
+    const secret = getCallViewerTokenSecret()
+
+    if (!secret) {
+      return NextResponse.json(
+        { ok: false, error: 'Server configuration error. Contact support.' },
+        { status: 500, headers: NO_STORE },
+      )
+    }
+
+    // A call still open wins over newer ones that already ended or failed.
+    const now = Date.now()
+    const { cases: openCalls } = await listLiveCalls({
+      slug,
+      openOnly: true,
+      from: now - MAX_LIVE_CALL_AGE_MS,
+      page: 1,
+      pageSize: 1,
+    })
+    let current = openCalls[0] ?? null
+
+    if (!current) {
+      const { cases } = await listLiveCalls({ slug, page: 1, pageSize: 1 })
+      const latest = cases[0]
+
+      if (latest && isTerminalStatus(latest.status) && (latest.endedAt ?? latest.startedAt) > now - RECENT_CALL_WINDOW_MS) {
+        current = latest
+      }
+    }
+
+    if (!current) {
+      return NextResponse.json({ ok: true, call: null }, { headers: NO_STORE })
+    }
+
+    const viewerToken = signCallViewerToken({ callSid: current.callId, slug, secret })
+
+    return NextResponse.json(
+      {
+        ok: true,
+        call: {
+          callId: current.callId,
+          status: current.status,
+          startedAt: current.startedAt,
+          viewerToken: viewerToken.token,
+          viewerTokenExpiresAt: viewerToken.expiresAt,
+        },
+      },
+      { headers: NO_STORE },
+    )
+  } catch {
+    return NextResponse.json(
+      { ok: false, error: 'Failed to load the current call.' },
+      { status: 500, headers: NO_STORE },
+    )
+  }
+}
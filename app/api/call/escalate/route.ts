@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  getLiveCallSummary,
+  setLiveCallEscalationLeg,
+  setLiveCallEscalationStatus,
+  startLiveCallEscalation,
+} from '@/lib/live-store'
+import { isTerminalStatus, normalizeSessionStatus } from '@/lib/live-types'
+import { isValidE164 } from '@/lib/phone'
+import { getPublicBaseUrl } from '@/lib/public-url'
+import { getClientIp, takeRateLimit } from '@/lib/rate-limit'
+import { getTenantAccess } from '@/lib/tenant-auth'
+import { getTrustedContact, isTrustedContactId } from '@/lib/trusted-contacts'
+import { createOutboundTwilioCall, getTwilioConfig, redirectTwilioCall } from '@/lib/twilio-api'
+
+export const runtime = 'nodejs'
+
+/**
+ * Bring a trusted contact into a live call. The monitor leg is moved into a
+ * conference and the contact is dialed into it, so they can speak to both
+ * sides. The owner picks the contact; a caregiver can only bring in
+ * themselves.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { slug, callId } = body
+
+    if (!slug || typeof slug !== 'string' || !callId || typeof callId !== 'string') {
+      return NextResponse.json(
+        { ok: false, error: 'Tenant slug and call id are required.' },
+        { status: 400 }
+      )
+    }
+
+    const access = await getTenantAccess(slug)
+
+    if (access.status === 'not-found' || !access.tenant) {
+      return NextResponse.json(
+        { ok: false, error: 'Tenant not found.' },
+        { status: 404 }
+      )
+    }
+
+    if (access.status !== 'owner' && access.status !== 'viewer') {
+      return NextResponse.json(
+        { ok: false, error: 'Sign in to bring someone into the call.' },
+        { status: 401 }
+      )
+    }
+
+    const contactId = access.viewer ? access.viewer.contactId : body.contactId
+
+    if (!isTrustedContactId(contactId)) {
+      return NextResponse.json(
+        { ok: false, error: 'Choose a trusted contact to call.' },
+        { status: 400 }
+      )
+    }
+
+    const ip = getClientIp(request)
+    if (!takeRateLimit(`call-escalate:ip:${ip}`, 5, 60_000)) {
+      return NextResponse.json(
+        { ok: false, error: 'Too many requests. Please wait a minute and try again.' },
+        { status: 429 }
+      )
+    }
+
+    const contact = await getTrustedContact(slug, contactId)
+
+    if (!contact) {
+      return NextResponse.json(
+        { ok: false, error: 'Contact not found.' },
+        { status: 404 }
+      )
+    }
+
+    if (!contact.phoneNumber || !isValidE164(contact.phoneNumber)) {
+      return NextResponse.json(
+        { ok: false, error: `${contact.name} has no mobile number to call.` },
+        { status: 400 }
+      )
+    }
+
+    if (!getTwilioConfig()) {
+      return NextResponse.json(
+        { ok: false, error: 'Server configuration error. Contact support.' },
+        { status: 500 }
+      )
+    }
+
+    const call = await getLiveCallSummary(callId)
+
+    if (!call || call.slug !== slug) {
+      return NextResponse.json(
+        { ok: false, error: 'Live call session not found for this case.' },
+        { status: 404 }
+      )
+    }
+
+    if (isTerminalStatus(normalizeSessionStatus(call.status))) {
+      return NextResponse.json(
+        { ok: false, error: 'This call has already ended.' },
+        { status: 409 }
+      )
+    }
+
+    const claimed = await startLiveCallEscalation(callId, contact.id)
+
+    if (!claimed) {
+      return NextResponse.json(
+        { ok: false, error: 'Someone is already being connected to this call.' },
+        { status: 409 }
+      )
+    }
+
+    const publicBaseUrl = getPublicBaseUrl(request)
+    const monitorTwimlUrl = new URL('/api/twilio/twiml', publicBaseUrl)
+    monitorTwimlUrl.searchParams.set('slug', slug)
+    monitorTwimlUrl.searchParams.set('conference', callId)
+
+    const contactTwimlUrl = new URL(monitorTwimlUrl)
+    contactTwimlUrl.searchParams.set('role', 'contact')
+
+    const statusCallbackUrl = new URL('/api/twilio/escalation', publicBaseUrl)
+    statusCallbackUrl.searchParams.set('callSid', callId)
+
+    try {
+      // Monitor leg first: if it cannot be moved, nobody has been dialed yet.
+      await redirectTwilioCall({ callSid: callId, twimlUrl: monitorTwimlUrl.toString() })
+      const contactCall = await createOutboundTwilioCall({
+        to: contact.phoneNumber,
+        twimlUrl: contactTwimlUrl.toString(),
+        statusCallbackUrl: statusCallbackUrl.toString(),
+      })
+      await setLiveCallEscalationLeg(callId, contactCall.sid)
+    } catch (error) {
+      const message =
+        error instanceof Error && error.message
+          ? error.message
+          : 'Failed to connect the contact through Twilio.'
+      await setLiveCallEscalationStatus(callId, 'failed', { error: message })
+      return NextResponse.json(
+        { ok: false, error: message },
+        { status: 502 }
+      )
+    }
+
+    return NextResponse.json({ ok: true, status: 'dialing', contactName: contact.name })
+  } catch {
+    return NextResponse.json(
+      { ok: false, error: 'An unexpected error occurred. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { checkCallViewerAccess } from '@/lib/call-access-token'
 import { getLiveSessionSnapshot } from '@/lib/live-store'
 
 export const runtime = 'nodejs'
@@ -30,6 +31,26 @@ export async function GET(request: NextRequest) {
     )
   }
 
+  const access = checkCallViewerAccess(request.headers, { callSid: callId, slug })
+
+  if (access !== 'ok') {
+    return NextResponse.json(
+      {
+        ok: false,
+        error:
+          access === 'unconfigured'
+            ? 'Server configuration error. Contact support.'
+            : 'Viewer token is missing or expired.',
+      },
+      {
+        status: access === 'unconfigured' ? 500 : 401,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      },
+    )
+  }
+
   try {
     const session = await getLiveSessionSnapshot(callId, slug, TRANSCRIPT_LIMIT)
 
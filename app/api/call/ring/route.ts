@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { BRAND_NAME } from '@/lib/brand'
+import { isValidE164 } from '@/lib/phone'
+import { getClientIp, takeCooldown, takeRateLimit } from '@/lib/rate-limit'
+import { getTenantAccess } from '@/lib/tenant-auth'
+import { createTwilioTwimlCall, escapeXml, getTwilioConfig } from '@/lib/twilio-api'
+
+export const runtime = 'nodejs'
+
+/**
+ * Ring the protected phone on a caregiver's behalf. When the caregiver has a
+ * phone number the call is bridged to them once answered; otherwise the
+ * protected person hears a short check-in message.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { slug } = body
+
+    if (!slug || typeof slug !== 'string') {
+      return NextResponse.json(
+        { ok: false, error: 'Tenant slug is required.' },
+        { status: 400 }
+      )
+    }
+
+    const access = await getTenantAccess(slug)
+
+    if (access.status === 'not-found' || !access.tenant) {
+      return NextResponse.json(
+        { ok: false, error: 'Tenant not found.' },
+        { status: 404 }
+      )
+    }
+
+    if (access.status !== 'viewer' || !access.viewer) {
+      return NextResponse.json(
+        { ok: false, error: 'Only invited caregivers can ring this phone.' },
+        { status: 401 }
+      )
+    }
+
+    const ip = getClientIp(request)
+    if (!takeRateLimit(`call-ring:ip:${ip}`, 5, 60_000)) {
+      return NextResponse.json(
+        { ok: false, error: 'Too many requests. Please wait a minute and try again.' },
+        { status: 429 }
+      )
+    }
+
+    const remainingSeconds = takeCooldown(`call-ring:slug:${slug}`, 60_000)
+    if (remainingSeconds > 0) {
+      return NextResponse.json(
+        { ok: false, error: `Their phone is already ringing. Try again in about ${remainingSeconds}s.` },
+        { status: 429 }
+      )
+    }
+
+    const phoneNumber = access.tenant.phoneNumber
+
+    if (!phoneNumber || !isValidE164(phoneNumber)) {
+      return NextResponse.json(
+        { ok: false, error: 'There is no phone number to ring yet.' },
+        { status: 400 }
+      )
+    }
+
+    if (!getTwilioConfig()) {
+      return NextResponse.json(
+        { ok: false, error: 'Server configuration error. Contact support.' },
+        { status: 500 }
+      )
+    }
+
+    const viewer = access.viewer
+    const bridged = Boolean(viewer.phoneNumber && isValidE164(viewer.phoneNumber))
+    const twiml =
+      bridged && viewer.phoneNumber
+        ? `<Pause length="1"/><Say>${escapeXml(`${viewer.name} is calling you through ${BRAND_NAME}. Please stay on the line.`)}</Say><Dial>${escapeXml(viewer.phoneNumber)}</Dial>`
+        : `<Pause length="1"/><Say>${escapeXml(`${viewer.name} asked ${BRAND_NAME} to check on you. If someone on another call is asking for money or codes, hang up and call ${viewer.name} back.`)}</Say>`
+
+    try {
+      const call = await createTwilioTwimlCall({ to: phoneNumber, twiml })
+      return NextResponse.json({ ok: true, callId: call.sid, bridged })
+    } catch (error) {
+      const message =
+        error instanceof Error && error.message
+          ? error.message
+          : 'Failed to ring the phone through Twilio.'
+      return NextResponse.json(
+        { ok: false, error: message },
+        { status: 502 }
+      )
+    }
+  } catch {
+    return NextResponse.json(
+      { ok: false, error: 'An unexpected error occurred. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
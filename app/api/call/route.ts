@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getCallViewerTokenSecret, signCallViewerToken } from '@/lib/call-access-token'
 import { isValidE164 } from '@/lib/phone'
 import { getClientIp, takeCooldown, takeRateLimit } from '@/lib/rate-limit'
-import { createAdminClient } from '@/lib/supabase/admin'
 import { upsertLiveCallSession } from '@/lib/live-store'
 import { getPublicBaseUrl } from '@/lib/public-url'
+import { getTenantAccess } from '@/lib/tenant-auth'
 import { createOutboundTwilioCall, getTwilioConfig } from '@/lib/twilio-api'
 
 export const runtime = 'nodejs'
@@ -20,6 +21,22 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const access = await getTenantAccess(slug)
+
+    if (access.status === 'not-found' || !access.tenant) {
+      return NextResponse.json(
+        { ok: false, error: 'Tenant not found.' },
+        { status: 404 }
+      )
+    }
+
+    if (access.status !== 'owner') {
+      return NextResponse.json(
+        { ok: false, error: 'Sign in to start monitoring.' },
+        { status: 401 }
+      )
+    }
+
     const ip = getClientIp(request)
     if (!takeRateLimit(`call:ip:${ip}`, 5, 60_000)) {
       return NextResponse.json(
@@ -36,33 +53,26 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Look up phone number from the tenant record
-    const supabase = createAdminClient()
-    const { data: tenant, error: dbError } = await supabase
-      .from('tenants')
-      .select('phone_number')
-      .eq('slug', slug)
-      .single()
+    const phoneNumber = access.tenant.phoneNumber
 
-    if (dbError || !tenant) {
+    if (!phoneNumber || !isValidE164(phoneNumber)) {
       return NextResponse.json(
-        { ok: false, error: 'Tenant not found.' },
-        { status: 404 }
+        { ok: false, error: 'No valid phone number on file. Please set one up first.' },
+        { status: 400 }
       )
     }
 
-    const phoneNumber = tenant.phone_number
-
-    if (!phoneNumber || !isValidE164(phoneNumber)) {
+    if (!access.tenant.phoneVerifiedAt) {
       return NextResponse.json(
-        { ok: false, error: 'No valid phone number on file. Please set one up first.' },
+        { ok: false, error: 'Confirm your phone number before starting monitoring.' },
         { status: 400 }
       )
     }
 
     const twilioConfig = getTwilioConfig()
+    const viewerTokenSecret = getCallViewerTokenSecret()
 
-    if (!twilioConfig || !isValidE164(twilioConfig.phoneNumber)) {
+    if (!twilioConfig || !isValidE164(twilioConfig.phoneNumber) || !viewerTokenSecret) {
       return NextResponse.json(
         { ok: false, error: 'Server configuration error. Contact support.' },
         { status: 500 }
@@ -106,10 +116,16 @@ export async function POST(request: NextRequest) {
       status: callStatus,
     })
 
+    // Only this response (and /api/call/active, for signed-in owners and
+    // invited caregivers) carries the token for this call's transcript.
+    const viewerToken = signCallViewerToken({ callSid: callId, slug, secret: viewerTokenSecret })
+
     return NextResponse.json({
       ok: true,
       callId,
       status: callStatus,
+      viewerToken: viewerToken.token,
+      viewerTokenExpiresAt: viewerToken.expiresAt,
     })
   } catch {
     return NextResponse.json(
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkCallViewerAccess } from '@/lib/call-access-token'
+import { getAdviceTimeline } from '@/lib/live-store'
+
+export const runtime = 'nodejs'
+const DEFAULT_TIMELINE_LIMIT = 500
+const MAX_TIMELINE_LIMIT = 2_000
+
+function getTimelineLimit(raw: string | null): number {
+  if (!raw) {
+    return DEFAULT_TIMELINE_LIMIT
+  }
+
+  const parsed = Number.parseInt(raw, 10)
+  if (!Number.isFinite(parsed) || parsed < 1) {
+    return DEFAULT_TIMELINE_LIMIT
+  }
+
+  return Math.min(parsed, MAX_TIMELINE_LIMIT)
+}
+
+export async function GET(request: NextRequest) {
+  const callId = request.nextUrl.searchParams.get('callId')
+  const slug = request.nextUrl.searchParams.get('slug')
+
+  if (!callId || !slug) {
+    return NextResponse.json(
+      { ok: false, error: 'callId and slug are required.' },
+      { status: 400 },
+    )
+  }
+
+  const access = checkCallViewerAccess(request.headers, { callSid: callId, slug })
+
+  if (access !== 'ok') {
+    return NextResponse.json(
+      {
+        ok: false,
+        error:
+          access === 'unconfigured'
+            ? 'Server configuration error. Contact support.'
+            : 'Viewer token is missing or expired.',
+      },
+      {
+        status: access === 'unconfigured' ? 500 : 401,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      },
+    )
+  }
+
+  try {
+    const events = await getAdviceTimeline(
+      callId,
+      slug,
+      getTimelineLimit(request.nextUrl.searchParams.get('limit')),
+    )
+
+    if (!events) {
+      return NextResponse.json(
+        { ok: false, error: 'Live call session not found for this case.' },
+        {
+          status: 404,
+          headers: {
+            'Cache-Control': 'no-store',
+          },
+        },
+      )
+    }
+
+    return NextResponse.json(
+      {
+        ok: true,
+        callId,
+        slug,
+        events,
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      },
+    )
+  } catch {
+    return NextResponse.json(
+      { ok: false, error: 'Failed to load advice timeline.' },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      },
+    )
+  }
+}
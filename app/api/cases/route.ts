@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { parseCaseHistoryQuery } from '@/lib/case-history'
+import { listLiveCalls } from '@/lib/live-store'
+import { getTenantAccess } from '@/lib/tenant-auth'
+
+export const runtime = 'nodejs'
+
+export async function GET(request: NextRequest) {
+  const slug = request.nextUrl.searchParams.get('slug')
+
+  if (!slug) {
+    return NextResponse.json({ ok: false, error: 'slug is required.' }, { status: 400 })
+  }
+
+  const query = parseCaseHistoryQuery(request.nextUrl.searchParams)
+
+  try {
+    const access = await getTenantAccess(slug)
+
+    if (access.status !== 'owner') {
+      return NextResponse.json(
+        { ok: false, error: access.status === 'not-found' ? 'Tenant not found.' : 'Sign in to view case history.' },
+        {
+          status: access.status === 'not-found' ? 404 : 401,
+          headers: {
+            'Cache-Control': 'no-store',
+          },
+        },
+      )
+    }
+
+    const { cases, total } = await listLiveCalls({ slug, ...query })
+
+    return NextResponse.json(
+      {
+        ok: true,
+        slug,
+        cases,
+        page: query.page,
+        pageSize: query.pageSize,
+        total,
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      },
+    )
+  } catch {
+    return NextResponse.json(
+      { ok: false, error: 'Failed to load case history.' },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      },
+    )
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { purgeExpiredCallData } from '@/lib/live-store'
+import { runRetentionPurge } from '@/lib/retention'
+import { listTenantRetentionPolicies } from '@/lib/tenant-settings'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Vercel Cron sends `Authorization: Bearer $CRON_SECRET`; see vercel.json.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET?.trim()
+
+  if (!secret) {
+    return NextResponse.json(
+      { ok: false, error: 'CRON_SECRET is not configured.' },
+      { status: 503, headers: { 'Cache-Control': 'no-store' } },
+    )
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { ok: false, error: 'Unauthorized.' },
+      { status: 401, headers: { 'Cache-Control': 'no-store' } },
+    )
+  }
+
+  try {
+    const policies = await listTenantRetentionPolicies()
+    const results = await runRetentionPurge({ policies, store: { purgeExpiredCallData } })
+
+    return NextResponse.json(
+      {
+        ok: true,
+        tenants: policies.length,
+        callsPurged: results.reduce((total, result) => total + result.callsPurged, 0),
+        results: results.filter((result) => result.callsPurged > 0 || result.error),
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      },
+    )
+  } catch {
+    return NextResponse.json(
+      { ok: false, error: 'Failed to run retention purge.' },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      },
+    )
+  }
+}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getClientIp, takeRateLimit } from '@/lib/rate-limit'
+import { getTenantAccess } from '@/lib/tenant-auth'
+import {
+  MAX_TRUSTED_CONTACTS,
+  addTrustedContact,
+  isTrustedContactId,
+  listTrustedContacts,
+  parseTrustedContactInput,
+  removeTrustedContact,
+} from '@/lib/trusted-contacts'
+
+export const runtime = 'nodejs'
+
+function slugRequired(): NextResponse {
+  return NextResponse.json({ ok: false, error: 'Tenant slug is required.' }, { status: 400 })
+}
+
+// Contacts are the owner's to see and change; nobody else gets past this.
+async function checkOwner(slug: string): Promise<NextResponse | null> {
+  const access = await getTenantAccess(slug)
+
+  if (access.status !== 'owner') {
+    return NextResponse.json(
+      { ok: false, error: access.status === 'not-found' ? 'Tenant not found.' : 'Sign in to manage trusted contacts.' },
+      { status: access.status === 'not-found' ? 404 : 401 },
+    )
+  }
+
+  return null
+}
+
+export async function GET(request: NextRequest) {
+  const slug = request.nextUrl.searchParams.get('slug')
+  if (!slug) return slugRequired()
+
+  try {
+    const denied = await checkOwner(slug)
+    if (denied) {
+      denied.headers.set('Cache-Control', 'no-store')
+      return denied
+    }
+
+    const contacts = await listTrustedContacts(slug)
+
+    return NextResponse.json(
+      { ok: true, contacts },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      },
+    )
+  } catch {
+    return NextResponse.json(
+      { ok: false, error: 'Failed to load trusted contacts.' },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      },
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { slug } = body
+
+    if (!slug || typeof slug !== 'string') return slugRequired()
+
+    const ip = getClientIp(request)
+    if (!takeRateLimit(`tenant-contacts:ip:${ip}`, 20, 10 * 60_000)) {
+      return NextResponse.json(
+        { ok: false, error: 'Too many changes. Please wait a few minutes.' },
+        { status: 429 }
+      )
+    }
+
+    const denied = await checkOwner(slug)
+    if (denied) return denied
+
+    const parsed = parseTrustedContactInput(body)
+
+    if (!parsed.ok) {
+      return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 })
+    }
+
+    const contact = await addTrustedContact(slug, parsed.contact)
+
+    if (!contact) {
+      return NextResponse.json(
+        { ok: false, error: `You can add up to ${MAX_TRUSTED_CONTACTS} trusted contacts. Remove one first.` },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ ok: true, contact })
+  } catch {
+    return NextResponse.json(
+      { ok: false, error: 'Could not add the contact. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const slug = request.nextUrl.searchParams.get('slug')
+  const contactId = request.nextUrl.searchParams.get('id')
+  if (!slug) return slugRequired()
+
+  try {
+    const denied = await checkOwner(slug)
+    if (denied) return denied
+
+    if (!isTrustedContactId(contactId)) {
+      return NextResponse.json({ ok: false, error: 'Contact id is required.' }, { status: 400 })
+    }
+
+    const removed = await removeTrustedContact(slug, contactId)
+
+    if (!removed) {
+      return NextResponse.json({ ok: false, error: 'Contact not found.' }, { status: 404 })
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch {
+    return NextResponse.json(
+      { ok: false, error: 'Could not remove the contact. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
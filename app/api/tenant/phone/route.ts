@@ -1,12 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { isValidE164, normalizePhone } from '@/lib/phone'
-import { getClientIp, takeRateLimit } from '@/lib/rate-limit'
-import { createAdminClient } from '@/lib/supabase/admin'
+import { getMessageSender, isMessageChannel } from '@/lib/message-sender'
+import { isValidE164, maskPhone, normalizePhone } from '@/lib/phone'
+import { getClientIp, takeCooldown, takeRateLimit } from '@/lib/rate-limit'
+import { formatVerificationCodeMessage, getTenantAccess } from '@/lib/tenant-auth'
+import { createVerificationCode } from '@/lib/verification-codes'
 
 export async function PUT(request: NextRequest) {
   try {
     const body = await request.json()
     const { slug, phoneNumber } = body
+    const channel = isMessageChannel(body.channel) ? body.channel : 'sms'
 
     if (!slug || typeof slug !== 'string') {
       return NextResponse.json(
@@ -45,23 +48,28 @@ export async function PUT(request: NextRequest) {
       )
     }
 
-    const supabase = createAdminClient()
+    const access = await getTenantAccess(slug)
 
-    const { data: tenant, error: selectError } = await supabase
-      .from('tenants')
-      .select('phone_number')
-      .eq('slug', slug)
-      .single()
-
-    if (selectError || !tenant) {
+    if (access.status === 'not-found' || !access.tenant) {
       return NextResponse.json(
         { ok: false, error: 'Tenant not found.' },
         { status: 404 }
       )
     }
 
-    if (tenant.phone_number === normalizedPhoneNumber) {
-      return NextResponse.json({ ok: true })
+    // Only the owner may change a saved number. The browser that created the
+    // case may save the first one before anyone owns it.
+    if (access.status !== 'owner' && access.status !== 'setup') {
+      return NextResponse.json(
+        { ok: false, error: 'Sign in to change your phone number.' },
+        { status: 401 }
+      )
+    }
+
+    const savedPhoneNumber = access.tenant.phoneNumber
+
+    if (savedPhoneNumber === normalizedPhoneNumber && access.tenant.phoneVerifiedAt) {
+      return NextResponse.json({ ok: true, verificationRequired: false })
     }
 
     const overrideToken = process.env.TENANT_ADMIN_OVERRIDE_TOKEN?.trim()
@@ -69,26 +77,47 @@ export async function PUT(request: NextRequest) {
     const phoneChangesLocked = Boolean(overrideToken)
     const hasValidOverride = phoneChangesLocked && providedOverride === overrideToken
 
-    if (tenant.phone_number && phoneChangesLocked && !hasValidOverride) {
+    // Re-confirming the saved number is not a change, even when changes are locked.
+    const changesNumber = Boolean(savedPhoneNumber) && savedPhoneNumber !== normalizedPhoneNumber
+
+    if (changesNumber && phoneChangesLocked && !hasValidOverride) {
       return NextResponse.json(
         { ok: false, error: 'Phone number changes are locked. Contact support to change it.' },
         { status: 409 }
       )
     }
 
-    const { error } = await supabase
-      .from('tenants')
-      .update({ phone_number: normalizedPhoneNumber, updated_at: new Date().toISOString() })
-      .eq('slug', slug)
+    const sender = getMessageSender()
 
-    if (error) {
+    if (!sender) {
       return NextResponse.json(
-        { ok: false, error: 'Failed to save phone number.' },
+        { ok: false, error: 'Server configuration error. Contact support.' },
         { status: 500 }
       )
     }
 
-    return NextResponse.json({ ok: true })
+    const remainingSeconds = takeCooldown(`tenant-phone:slug:${slug}`, 30_000)
+    if (remainingSeconds > 0) {
+      return NextResponse.json(
+        { ok: false, error: `A code was just sent. Try again in about ${remainingSeconds}s.` },
+        { status: 429 }
+      )
+    }
+
+    // The number is only saved once the code sent to it comes back through
+    // /api/tenant/phone/verify, so monitor calls never go to a stranger.
+    const code = await createVerificationCode({ purpose: 'phone', slug, phoneNumber: normalizedPhoneNumber })
+    await sender.send({
+      to: normalizedPhoneNumber,
+      channel,
+      body: formatVerificationCodeMessage(code, 'phone', channel),
+    })
+
+    return NextResponse.json({
+      ok: true,
+      verificationRequired: true,
+      maskedPhone: maskPhone(normalizedPhoneNumber),
+    })
   } catch {
     return NextResponse.json(
       { ok: false, error: 'An unexpected error occurred.' },
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getClientIp, takeRateLimit } from '@/lib/rate-limit'
+import { getTenantAccess, saveVerifiedPhoneNumber, startTenantSession } from '@/lib/tenant-auth'
+import { VERIFICATION_CODE_ERRORS, consumeVerificationCode } from '@/lib/verification-codes'
+
+export const runtime = 'nodejs'
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { slug, code } = body
+
+    if (!slug || typeof slug !== 'string') {
+      return NextResponse.json(
+        { ok: false, error: 'Tenant slug is required.' },
+        { status: 400 }
+      )
+    }
+
+    const normalizedCode = typeof code === 'string' ? code.replace(/\s+/g, '') : ''
+
+    if (!/^\d{6}$/.test(normalizedCode)) {
+      return NextResponse.json(
+        { ok: false, error: 'Enter the 6-digit code we sent you.' },
+        { status: 400 }
+      )
+    }
+
+    const ip = getClientIp(request)
+    if (!takeRateLimit(`tenant-phone-verify:ip:${ip}`, 20, 10 * 60_000)) {
+      return NextResponse.json(
+        { ok: false, error: 'Too many attempts. Please wait a few minutes and try again.' },
+        { status: 429 }
+      )
+    }
+
+    const access = await getTenantAccess(slug)
+
+    if (access.status === 'not-found' || !access.tenant) {
+      return NextResponse.json(
+        { ok: false, error: 'Tenant not found.' },
+        { status: 404 }
+      )
+    }
+
+    if (access.status !== 'owner' && access.status !== 'setup') {
+      return NextResponse.json(
+        { ok: false, error: 'Sign in to change your phone number.' },
+        { status: 401 }
+      )
+    }
+
+    const { check, phoneNumber } = await consumeVerificationCode({ purpose: 'phone', slug, code: normalizedCode })
+
+    if (check !== 'ok' || !phoneNumber) {
+      const failure = VERIFICATION_CODE_ERRORS[check === 'ok' ? 'expired' : check]
+      return NextResponse.json(
+        { ok: false, error: failure.error },
+        { status: failure.status }
+      )
+    }
+
+    await saveVerifiedPhoneNumber(slug, phoneNumber)
+
+    // Setting up a new case: the code just proved this browser holds the
+    // number, which is all signing in would prove, so make it the owner now.
+    if (access.status === 'setup') {
+      await startTenantSession({ ...access.tenant, phoneNumber })
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch {
+    return NextResponse.json(
+      { ok: false, error: 'Could not confirm your phone number. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getClientIp, takeRateLimit } from '@/lib/rate-limit'
+import { REDACTION_MODES, isRedactionMode } from '@/lib/redaction'
+import {
+  TRANSCRIPT_PURGE_ACTIONS,
+  TRANSCRIPT_RETENTION_DAY_OPTIONS,
+  isTranscriptPurgeAction,
+  isTranscriptRetentionDayOption,
+} from '@/lib/retention'
+import { getTenantAccess } from '@/lib/tenant-auth'
+import { TenantSettingsUpdate, updateTenantSettings } from '@/lib/tenant-settings'
+
+export const runtime = 'nodejs'
+
+// Every field is optional, but each one sent has to be valid and at least one is needed.
+function parseSettingsUpdate(body: Record<string, unknown>): { update: TenantSettingsUpdate } | { error: string } {
+  const update: TenantSettingsUpdate = {}
+
+  if (body.whisperCoaching !== undefined) {
+    if (typeof body.whisperCoaching !== 'boolean') return { error: 'whisperCoaching must be true or false.' }
+    update.whisperCoaching = body.whisperCoaching
+  }
+
+  if (body.redactionMode !== undefined) {
+    if (!isRedactionMode(body.redactionMode)) {
+      return { error: `redactionMode must be one of: ${REDACTION_MODES.join(', ')}.` }
+    }
+    update.redactionMode = body.redactionMode
+  }
+
+  if (body.transcriptRetentionDays !== undefined) {
+    if (!isTranscriptRetentionDayOption(body.transcriptRetentionDays)) {
+      return { error: `transcriptRetentionDays must be one of: ${TRANSCRIPT_RETENTION_DAY_OPTIONS.join(', ')}.` }
+    }
+    update.transcriptRetentionDays = body.transcriptRetentionDays
+  }
+
+  if (body.purgeAction !== undefined) {
+    if (!isTranscriptPurgeAction(body.purgeAction)) {
+      return { error: `purgeAction must be one of: ${TRANSCRIPT_PURGE_ACTIONS.join(', ')}.` }
+    }
+    update.purgeAction = body.purgeAction
+  }
+
+  if (Object.keys(update).length === 0) return { error: 'Nothing to change.' }
+
+  return { update }
+}
+
+/** Owner-only tenant settings: whisper coaching, where redaction runs and transcript retention. */
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { slug } = body
+
+    if (!slug || typeof slug !== 'string') {
+      return NextResponse.json({ ok: false, error: 'Tenant slug is required.' }, { status: 400 })
+    }
+
+    const parsed = parseSettingsUpdate(body)
+
+    if ('error' in parsed) {
+      return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 })
+    }
+
+    const access = await getTenantAccess(slug)
+
+    if (access.status !== 'owner') {
+      return NextResponse.json(
+        { ok: false, error: access.status === 'not-found' ? 'Tenant not found.' : 'Sign in to change settings.' },
+        { status: access.status === 'not-found' ? 404 : 401 },
+      )
+    }
+
+    const ip = getClientIp(request)
+    if (!takeRateLimit(`tenant-settings:ip:${ip}`, 20, 10 * 60_000)) {
+      return NextResponse.json(
+        { ok: false, error: 'Too many changes. Please wait a few minutes.' },
+        { status: 429 }
+      )
+    }
+
+    await updateTenantSettings(slug, parsed.update)
+
+    return NextResponse.json({ ok: true, ...parsed.update })
+  } catch {
+    return NextResponse.json(
+      { ok: false, error: 'Failed to save the setting. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
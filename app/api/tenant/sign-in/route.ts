@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { maskPhone } from '@/lib/phone'
+import { getClientIp, takeCooldown, takeRateLimit } from '@/lib/rate-limit'
+import { getMessageSender, isMessageChannel } from '@/lib/message-sender'
+import { createSignInCode, formatVerificationCodeMessage, getTenantAccount } from '@/lib/tenant-auth'
+
+export const runtime = 'nodejs'
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { slug } = body
+    const channel = isMessageChannel(body.channel) ? body.channel : 'sms'
+
+    if (!slug || typeof slug !== 'string') {
+      return NextResponse.json(
+        { ok: false, error: 'Tenant slug is required.' },
+        { status: 400 }
+      )
+    }
+
+    const ip = getClientIp(request)
+    if (!takeRateLimit(`sign-in:ip:${ip}`, 10, 10 * 60_000)) {
+      return NextResponse.json(
+        { ok: false, error: 'Too many requests. Please wait a few minutes and try again.' },
+        { status: 429 }
+      )
+    }
+
+    const tenant = await getTenantAccount(slug)
+
+    if (!tenant) {
+      return NextResponse.json(
+        { ok: false, error: 'Tenant not found.' },
+        { status: 404 }
+      )
+    }
+
+    if (!tenant.phoneNumber) {
+      return NextResponse.json(
+        { ok: false, error: 'No phone number is saved for this case yet.' },
+        { status: 400 }
+      )
+    }
+
+    const sender = getMessageSender()
+
+    if (!sender) {
+      return NextResponse.json(
+        { ok: false, error: 'Server configuration error. Contact support.' },
+        { status: 500 }
+      )
+    }
+
+    const remainingSeconds = takeCooldown(`sign-in:slug:${slug}`, 30_000)
+    if (remainingSeconds > 0) {
+      return NextResponse.json(
+        { ok: false, error: `A code was just sent. Try again in about ${remainingSeconds}s.` },
+        { status: 429 }
+      )
+    }
+
+    const code = await createSignInCode(tenant)
+    await sender.send({
+      to: tenant.phoneNumber,
+      channel,
+      body: formatVerificationCodeMessage(code, 'sign-in', channel),
+    })
+
+    return NextResponse.json({ ok: true, maskedPhone: maskPhone(tenant.phoneNumber) })
+  } catch {
+    return NextResponse.json(
+      { ok: false, error: 'Could not send a sign-in code. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getClientIp, takeRateLimit } from '@/lib/rate-limit'
+import { consumeSignInCode, getTenantAccount, saveVerifiedPhoneNumber, startTenantSession } from '@/lib/tenant-auth'
+import { VERIFICATION_CODE_ERRORS } from '@/lib/verification-codes'
+
+export const runtime = 'nodejs'
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { slug, code } = body
+
+    if (!slug || typeof slug !== 'string') {
+      return NextResponse.json(
+        { ok: false, error: 'Tenant slug is required.' },
+        { status: 400 }
+      )
+    }
+
+    const normalizedCode = typeof code === 'string' ? code.replace(/\s+/g, '') : ''
+
+    if (!/^\d{6}$/.test(normalizedCode)) {
+      return NextResponse.json(
+        { ok: false, error: 'Enter the 6-digit code we sent you.' },
+        { status: 400 }
+      )
+    }
+
+    const ip = getClientIp(request)
+    if (!takeRateLimit(`sign-in-verify:ip:${ip}`, 20, 10 * 60_000)) {
+      return NextResponse.json(
+        { ok: false, error: 'Too many attempts. Please wait a few minutes and try again.' },
+        { status: 429 }
+      )
+    }
+
+    const tenant = await getTenantAccount(slug)
+
+    if (!tenant?.phoneNumber) {
+      return NextResponse.json(
+        { ok: false, error: 'Tenant not found.' },
+        { status: 404 }
+      )
+    }
+
+    const check = await consumeSignInCode(tenant, normalizedCode)
+
+    if (check !== 'ok') {
+      return NextResponse.json(
+        { ok: false, error: VERIFICATION_CODE_ERRORS[check].error },
+        { status: VERIFICATION_CODE_ERRORS[check].status }
+      )
+    }
+
+    if (!tenant.phoneVerifiedAt) {
+      await saveVerifiedPhoneNumber(tenant.slug, tenant.phoneNumber)
+    }
+
+    await startTenantSession(tenant)
+
+    return NextResponse.json({ ok: true })
+  } catch {
+    return NextResponse.json(
+      { ok: false, error: 'Could not sign you in. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { endTenantSession } from '@/lib/tenant-auth'
+
+export const runtime = 'nodejs'
+
+// Posted by a plain form, so it answers with a redirect rather than JSON.
+export async function POST(request: NextRequest) {
+  const formData = await request.formData().catch(() => null)
+  const slug = formData?.get('slug')
+
+  await endTenantSession().catch(() => {})
+
+  const destination = typeof slug === 'string' && slug ? `/t/${encodeURIComponent(slug)}/sign-in` : '/'
+  return NextResponse.redirect(new URL(destination, request.url), 303)
+}
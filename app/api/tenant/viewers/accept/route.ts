@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isSameOriginRequest } from '@/lib/public-url'
+import { VIEWER_SESSION_MAX_AGE_SECONDS, acceptViewerInvite, getViewerCookieName } from '@/lib/tenant-viewers'
+
+export const runtime = 'nodejs'
+
+function isValidSlug(slug: string) {
+  return /^[a-z0-9-]{3,64}$/.test(slug)
+}
+
+// Posted by the form on /t/{slug}/watch/accept, so it answers with redirects
+// rather than JSON. The invite is only used up here: link previews and mail
+// scanners that open the link with GET leave it alone. Posts from other sites
+// are refused, so no one can sign a browser in with their own invite.
+export async function POST(request: NextRequest) {
+  if (!isSameOriginRequest(request)) {
+    return NextResponse.json({ ok: false, error: 'Open the invite link to accept it.' }, { status: 403 })
+  }
+
+  const formData = await request.formData().catch(() => null)
+  const slug = formData?.get('slug')
+  const token = formData?.get('token')
+
+  if (typeof slug !== 'string' || !isValidSlug(slug)) {
+    return NextResponse.redirect(new URL('/', request.url), 303)
+  }
+
+  const watchUrl = new URL(`/t/${slug}/watch`, request.url)
+  const sessionToken =
+    typeof token === 'string' && token.trim() ? await acceptViewerInvite(slug, token.trim()).catch(() => null) : null
+
+  if (!sessionToken) {
+    watchUrl.searchParams.set('invite', 'invalid')
+    return NextResponse.redirect(watchUrl, 303)
+  }
+
+  const response = NextResponse.redirect(watchUrl, 303)
+  response.cookies.set({
+    name: getViewerCookieName(slug),
+    value: sessionToken,
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: request.nextUrl.protocol === 'https:',
+    path: '/',
+    maxAge: VIEWER_SESSION_MAX_AGE_SECONDS,
+  })
+
+  return response
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getNotifiers } from '@/lib/notifier'
+import { getPublicBaseUrl } from '@/lib/public-url'
+import { getClientIp, takeRateLimit } from '@/lib/rate-limit'
+import { getTenantAccess } from '@/lib/tenant-auth'
+import { createViewerInvite, formatViewerInviteMessage, revokeViewer } from '@/lib/tenant-viewers'
+import { getTrustedContact, isTrustedContactId } from '@/lib/trusted-contacts'
+
+export const runtime = 'nodejs'
+
+function badRequest(error: string): NextResponse {
+  return NextResponse.json({ ok: false, error }, { status: 400 })
+}
+
+// Only the owner decides who may watch their calls.
+async function checkOwner(slug: string): Promise<NextResponse | null> {
+  const access = await getTenantAccess(slug)
+
+  if (access.status !== 'owner') {
+    return NextResponse.json(
+      { ok: false, error: access.status === 'not-found' ? 'Tenant not found.' : 'Sign in to manage caregivers.' },
+      { status: access.status === 'not-found' ? 404 : 401 },
+    )
+  }
+
+  return null
+}
+
+/**
+ * Invite a trusted contact to watch calls. The link is sent to them through
+ * the alert notifiers and also returned, so the owner can pass it on.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { slug, contactId } = body
+
+    if (!slug || typeof slug !== 'string') return badRequest('Tenant slug is required.')
+    if (!isTrustedContactId(contactId)) return badRequest('Contact id is required.')
+
+    const ip = getClientIp(request)
+    if (!takeRateLimit(`tenant-viewers:ip:${ip}`, 20, 10 * 60_000)) {
+      return NextResponse.json(
+        { ok: false, error: 'Too many invites. Please wait a few minutes.' },
+        { status: 429 }
+      )
+    }
+
+    const denied = await checkOwner(slug)
+    if (denied) return denied
+
+    const contact = await getTrustedContact(slug, contactId)
+
+    if (!contact) {
+      return NextResponse.json({ ok: false, error: 'Contact not found.' }, { status: 404 })
+    }
+
+    const token = await createViewerInvite(contact)
+    const inviteUrl = new URL(`/t/${slug}/watch/accept`, getPublicBaseUrl(request))
+    inviteUrl.searchParams.set('token', token)
+
+    const message = formatViewerInviteMessage(inviteUrl.toString())
+    const results = await Promise.allSettled(
+      getNotifiers()
+        .filter((notifier) => notifier.canReach(contact))
+        .map((notifier) => notifier.notify(contact, message)),
+    )
+
+    return NextResponse.json({
+      ok: true,
+      inviteUrl: inviteUrl.toString(),
+      sent: results.some((result) => result.status === 'fulfilled'),
+    })
+  } catch {
+    return NextResponse.json(
+      { ok: false, error: 'Could not create the invite. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const slug = request.nextUrl.searchParams.get('slug')
+  const contactId = request.nextUrl.searchParams.get('contactId')
+
+  if (!slug) return badRequest('Tenant slug is required.')
+  if (!isTrustedContactId(contactId)) return badRequest('Contact id is required.')
+
+  try {
+    const denied = await checkOwner(slug)
+    if (denied) return denied
+
+    const revoked = await revokeViewer(slug, contactId)
+
+    if (!revoked) {
+      return NextResponse.json({ ok: false, error: 'This contact has no invite.' }, { status: 404 })
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch {
+    return NextResponse.json(
+      { ok: false, error: 'Could not stop sharing. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { setLiveCallEscalationStatus } from '@/lib/live-store'
+import { toEscalationStatus } from '@/lib/live-types'
+import { getTwilioConfig } from '@/lib/twilio-api'
+import {
+  parseTwilioWebhookBody,
+  parseTwilioWebhookEvent,
+  verifyTwilioWebhookRequest,
+} from '@/lib/twilio-webhook'
+
+export const runtime = 'nodejs'
+
+function isValidCallSid(value: string | null): value is string {
+  return !!value && /^CA[0-9a-f]{32}$/i.test(value)
+}
+
+/**
+ * Status callbacks for a trusted contact's leg of an escalated call. The
+ * monitor call it belongs to is named in the signed callback URL.
+ */
+export async function POST(request: NextRequest) {
+  const twilioConfig = getTwilioConfig()
+  const rawBody = await request.text()
+  const parsedBody = parseTwilioWebhookBody(rawBody, request.headers.get('content-type'))
+
+  const rejection = verifyTwilioWebhookRequest({
+    requestUrl: request.url,
+    headers: request.headers,
+    rawBody,
+    parsedBody,
+    authToken: twilioConfig?.authToken ?? null,
+  })
+
+  if (rejection) {
+    return NextResponse.json({ ok: false, error: rejection.error }, { status: rejection.status })
+  }
+
+  const monitorCallSid = request.nextUrl.searchParams.get('callSid')
+  const event = parseTwilioWebhookEvent(parsedBody.bodyParams, null)
+
+  if (!isValidCallSid(monitorCallSid) || !isValidCallSid(event.callSid) || !event.status) {
+    return NextResponse.json({ ok: true })
+  }
+
+  if (twilioConfig && event.accountSid && event.accountSid !== twilioConfig.accountSid) {
+    return NextResponse.json(
+      { ok: false, error: 'Twilio account mismatch.' },
+      { status: 401 },
+    )
+  }
+
+  try {
+    const status = toEscalationStatus(event.status)
+
+    await setLiveCallEscalationStatus(monitorCallSid, status, {
+      contactCallSid: event.callSid,
+      ...(status === 'failed' ? { error: `Contact call status changed to ${event.status}.` } : {}),
+    })
+
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    const message =
+      error instanceof Error && error.message
+        ? error.message
+        : 'Escalation status update failed.'
+    return NextResponse.json(
+      { ok: false, error: message },
+      { status: 500 },
+    )
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { BRAND_NAME } from '@/lib/brand'
 import { getPublicBaseUrl } from '@/lib/public-url'
+import { escapeXml } from '@/lib/twilio-api'
 
 export const runtime = 'nodejs'
 
@@ -7,13 +9,9 @@ function isValidSlug(value: string | null): value is string {
   return !!value && /^[a-z0-9-]{3,64}$/.test(value)
 }
 
-function escapeXml(value: string): string {
-  return value
-    .replaceAll('&', '&amp;')
-    .replaceAll('"', '&quot;')
-    .replaceAll("'", '&apos;')
-    .replaceAll('<', '&lt;')
-    .replaceAll('>', '&gt;')
+// Twilio call SIDs are "CA" followed by 32 hex characters.
+function isValidCallSid(value: string | null): value is string {
+  return !!value && /^CA[0-9a-f]{32}$/i.test(value)
 }
 
 type TranscriptionAttrs = Record<string, string>
@@ -66,8 +64,40 @@ function buildTranscriptionXml(webhookUrl: string): string {
   return `<Transcription ${serializeXmlAttrs(baselineAttrs)} />`
 }
 
+/**
+ * TwiML for the escalation bridge, named after the monitor call. The monitor
+ * leg keeps the transcription it started earlier and ends the conference when
+ * it leaves; the contact's leg can come and go. No beeps or hold music, so
+ * the other party hears nothing until the contact speaks.
+ */
+function buildConferenceTwiml(monitorCallSid: string, role: 'monitor' | 'contact'): string {
+  const conferenceAttrs = serializeXmlAttrs({
+    beep: 'false',
+    waitUrl: '',
+    startConferenceOnEnter: 'true',
+    endConferenceOnExit: role === 'monitor' ? 'true' : 'false',
+  })
+  const conference = `<Dial><Conference ${conferenceAttrs}>${escapeXml(`escalation-${monitorCallSid}`)}</Conference></Dial>`
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Response>',
+    ...(role === 'contact'
+      ? [`  <Say>${escapeXml(`You are joining a live call through ${BRAND_NAME}. Everyone on the call can hear you.`)}</Say>`]
+      : []),
+    `  ${conference}`,
+    '</Response>',
+  ].join('\n')
+}
+
 function buildTwiml(request: NextRequest): string {
   const slug = request.nextUrl.searchParams.get('slug')
+  const conference = request.nextUrl.searchParams.get('conference')
+
+  if (isValidCallSid(conference)) {
+    return buildConferenceTwiml(conference, request.nextUrl.searchParams.get('role') === 'contact' ? 'contact' : 'monitor')
+  }
+
   const publicBaseUrl = getPublicBaseUrl(request)
 
   const webhookUrl = new URL('/api/twilio/webhook', publicBaseUrl)
@@ -1,61 +1,49 @@
 import { NextRequest, NextResponse } from 'next/server'
-import {
-  ModelAdviceError,
-  generateHeuristicAdvice,
-  generateModelAdvice,
-  stabilizeAdvice,
-} from '@/lib/live-coach'
+import { AdviceQueue, createAdviceQueue } from '@/lib/advice-queue'
+import { sendContactAlerts } from '@/lib/contact-alerts'
+import { generateModelAdvice } from '@/lib/live-coach'
+import { getLlmProvider, getLlmProviderConfigError } from '@/lib/llm-provider'
 import {
   appendTranscriptChunk,
   getLiveCallSummary,
   getTranscriptChunks,
+  recordDisclosures,
   setLiveCallAdvice,
   setLiveCallAnalyzing,
   setLiveCallStatus,
+  setPostCallSummary,
   upsertLiveCallSession,
 } from '@/lib/live-store'
-import { CoachingAdvice, isTerminalStatus, normalizeSessionStatus } from '@/lib/live-types'
+import { isTerminalStatus, normalizeSessionStatus } from '@/lib/live-types'
+import { generatePostCallSummary } from '@/lib/post-call-summary'
+import { redactText, redactsAtStorage } from '@/lib/redaction'
+import { getTenantRedactionMode } from '@/lib/tenant-settings'
 import { getTwilioConfig } from '@/lib/twilio-api'
 import {
-  buildTwilioUrlCandidates,
-  isValidTwilioSignature,
   parseTwilioWebhookBody,
   parseTwilioWebhookEvent,
   shouldSkipTwilioWebhookValidation,
+  verifyTwilioWebhookRequest,
 } from '@/lib/twilio-webhook'
+import { speakAdviceOnCall } from '@/lib/whisper-coaching'
 
 export const runtime = 'nodejs'
 
 const DEFAULT_GROQ_RPM_LIMIT = 30
 const DEFAULT_MODEL_MIN_INTERVAL_MS = 2_800
 const MODEL_INTERVAL_BUFFER_MS = 400
-const RATE_LIMIT_BASE_BACKOFF_MS = 6_000
-const RATE_LIMIT_MAX_BACKOFF_MS = 60_000
-const RATE_LIMIT_STREAK_RESET_MS = 90_000
 const ADVICE_TRANSCRIPT_LIMIT = 40
+const SUMMARY_TRANSCRIPT_LIMIT = 500
 const DEFAULT_NON_FINAL_ADVICE_MIN_INTERVAL_MS = 1_200
-const ADVICE_DELAYED_MESSAGE =
-  'Live analysis is delayed. Keep verifying through official channels.'
-const ADVICE_RATE_LIMITED_MESSAGE =
-  'Live analysis is temporarily rate-limited. Using local scoring for now.'
-const HAS_GROQ_MODEL = Boolean(process.env.GROQ_API_KEY?.trim())
+const DEFAULT_EVIDENCE_HALF_LIFE_MS = 180_000
+const HAS_MODEL_PROVIDER = getLlmProvider() !== null
+const MODEL_CONFIG_ERROR = getLlmProviderConfigError()
 const MODEL_MIN_INTERVAL_MS = getModelMinIntervalMs()
 const NON_FINAL_ADVICE_MIN_INTERVAL_MS =
   parsePositiveInt(process.env.ADVICE_NON_FINAL_MIN_INTERVAL_MS) ??
   DEFAULT_NON_FINAL_ADVICE_MIN_INTERVAL_MS
-
-type AdviceRunState = {
-  running: boolean
-  pending: boolean
-  forceModel: boolean
-  lastAdviceTriggerAt: number
-  lastStableAdvice: CoachingAdvice | null
-  lastModelRunAt: number
-  modelCooldownUntil: number
-  rateLimitStreak: number
-  lastRateLimitAt: number
-  terminal: boolean
-}
+const EVIDENCE_HALF_LIFE_MS =
+  parsePositiveInt(process.env.RISK_EVIDENCE_HALF_LIFE_MS) ?? DEFAULT_EVIDENCE_HALF_LIFE_MS
 
 function parsePositiveInt(value: string | undefined): number | null {
   if (!value?.trim()) {
@@ -71,232 +59,60 @@ function parsePositiveInt(value: string | undefined): number | null {
 }
 
 function getModelMinIntervalMs(): number {
-  const explicitIntervalMs = parsePositiveInt(process.env.GROQ_MIN_INTERVAL_MS)
+  const explicitIntervalMs =
+    parsePositiveInt(process.env.LLM_MIN_INTERVAL_MS) ?? parsePositiveInt(process.env.GROQ_MIN_INTERVAL_MS)
   if (explicitIntervalMs) {
     return explicitIntervalMs
   }
 
-  const rpmLimit = parsePositiveInt(process.env.GROQ_RPM_LIMIT) ?? DEFAULT_GROQ_RPM_LIMIT
+  const rpmLimit =
+    parsePositiveInt(process.env.LLM_RPM_LIMIT) ??
+    parsePositiveInt(process.env.GROQ_RPM_LIMIT) ??
+    DEFAULT_GROQ_RPM_LIMIT
   const intervalFromRpm = Math.ceil(60_000 / rpmLimit) + MODEL_INTERVAL_BUFFER_MS
   return Math.max(DEFAULT_MODEL_MIN_INTERVAL_MS, intervalFromRpm)
 }
 
-function getAdviceStateStore(): Map<string, AdviceRunState> {
+function getAdviceQueue(): AdviceQueue {
   const globalCache = globalThis as typeof globalThis & {
-    __twilioAdviceRunState?: Map<string, AdviceRunState>
-  }
-
-  if (!globalCache.__twilioAdviceRunState) {
-    globalCache.__twilioAdviceRunState = new Map()
+    __twilioAdviceQueue?: AdviceQueue
+  }
+
+  if (!globalCache.__twilioAdviceQueue) {
+    globalCache.__twilioAdviceQueue = createAdviceQueue({
+      clock: { now: Date.now },
+      store: {
+        getLiveCallSummary,
+        getTranscriptChunks,
+        setLiveCallAdvice,
+        setLiveCallAnalyzing,
+        setPostCallSummary,
+        recordDisclosures,
+      },
+      model: generateModelAdvice,
+      summarize: generatePostCallSummary,
+      getRedactionMode: getTenantRedactionMode,
+      alert: sendContactAlerts,
+      whisper: speakAdviceOnCall,
+      config: {
+        hasModel: HAS_MODEL_PROVIDER,
+        modelConfigError: MODEL_CONFIG_ERROR,
+        modelMinIntervalMs: MODEL_MIN_INTERVAL_MS,
+        nonFinalAdviceMinIntervalMs: NON_FINAL_ADVICE_MIN_INTERVAL_MS,
+        evidenceHalfLifeMs: EVIDENCE_HALF_LIFE_MS,
+        transcriptLimit: ADVICE_TRANSCRIPT_LIMIT,
+        summaryTranscriptLimit: SUMMARY_TRANSCRIPT_LIMIT,
+      },
+    })
   }
 
-  return globalCache.__twilioAdviceRunState
+  return globalCache.__twilioAdviceQueue
 }
 
 function isValidSlug(slug: string | null): slug is string {
   return !!slug && /^[a-z0-9-]{3,64}$/.test(slug)
 }
 
-function runAdviceForCall(callSid: string, force = false) {
-  const store = getAdviceStateStore()
-  const current = store.get(callSid) ?? {
-    running: false,
-    pending: false,
-    forceModel: false,
-    lastAdviceTriggerAt: 0,
-    lastStableAdvice: null,
-    lastModelRunAt: 0,
-    modelCooldownUntil: 0,
-    rateLimitStreak: 0,
-    lastRateLimitAt: 0,
-    terminal: false,
-  }
-  store.set(callSid, current)
-
-  const now = Date.now()
-  const lastAdviceTriggerAt = current.lastAdviceTriggerAt ?? 0
-  if (!force && now - lastAdviceTriggerAt < NON_FINAL_ADVICE_MIN_INTERVAL_MS) {
-    return
-  }
-
-  current.lastAdviceTriggerAt = now
-  current.pending = true
-  current.forceModel = current.forceModel || force
-
-  if (current.running) {
-    return
-  }
-
-  void processAdviceQueue(callSid)
-}
-
-function getRateLimitBackoffMs(error: unknown, state: AdviceRunState): number {
-  if (!(error instanceof ModelAdviceError) || error.statusCode !== 429) {
-    state.rateLimitStreak = 0
-    state.lastRateLimitAt = 0
-    return 0
-  }
-
-  const now = Date.now()
-  if (now - state.lastRateLimitAt > RATE_LIMIT_STREAK_RESET_MS) {
-    state.rateLimitStreak = 0
-  }
-
-  state.rateLimitStreak += 1
-  state.lastRateLimitAt = now
-
-  const exponentialBackoffMs = Math.min(
-    RATE_LIMIT_MAX_BACKOFF_MS,
-    RATE_LIMIT_BASE_BACKOFF_MS * 2 ** (state.rateLimitStreak - 1),
-  )
-  const retryAfterMs = error.retryAfterMs ?? 0
-
-  return Math.max(exponentialBackoffMs, retryAfterMs)
-}
-
-async function processAdviceQueue(callSid: string) {
-  const store = getAdviceStateStore()
-  const current = store.get(callSid)
-
-  if (!current || current.running) {
-    return
-  }
-
-  current.running = true
-
-  try {
-    while (current.pending) {
-      current.pending = false
-      const forceModel = current.forceModel
-      current.forceModel = false
-      try {
-        await runAdviceCycle(callSid, current, forceModel)
-      } catch {
-        await setLiveCallAnalyzing(callSid, false).catch(() => {})
-      }
-    }
-  } finally {
-    current.running = false
-
-    if (!current.pending && current.terminal) {
-      store.delete(callSid)
-      return
-    }
-
-    if (current.pending) {
-      void processAdviceQueue(callSid)
-    }
-  }
-}
-
-async function runAdviceCycle(callSid: string, state: AdviceRunState, forceModel: boolean) {
-  const summary = await getLiveCallSummary(callSid)
-
-  if (!summary) {
-    state.terminal = true
-    return
-  }
-
-  const normalizedStatus = normalizeSessionStatus(summary.status)
-  const callEnded = isTerminalStatus(normalizedStatus)
-  state.terminal = callEnded
-
-  if (!state.lastStableAdvice && summary.lastAdviceAt) {
-    state.lastStableAdvice = summary.advice
-  }
-
-  const transcript = (await getTranscriptChunks(callSid, ADVICE_TRANSCRIPT_LIMIT)).filter(
-    (chunk) => chunk.isFinal,
-  )
-  if (transcript.length === 0) {
-    return
-  }
-
-  const previousAdvice = state.lastStableAdvice ?? (summary.lastAdviceAt ? summary.advice : undefined)
-
-  const heuristicAdvice = stabilizeAdvice({
-    nextAdvice: generateHeuristicAdvice({
-      transcript,
-      previousAdvice,
-    }),
-    previousAdvice,
-  })
-
-  const now = Date.now()
-  const shouldRunModel =
-    HAS_GROQ_MODEL &&
-    now >= state.modelCooldownUntil &&
-    (forceModel || callEnded || now - state.lastModelRunAt >= MODEL_MIN_INTERVAL_MS)
-
-  const shouldPublishHeuristic =
-    !HAS_GROQ_MODEL ||
-    state.lastModelRunAt === 0 ||
-    !state.lastStableAdvice ||
-    now < state.modelCooldownUntil
-
-  if (shouldPublishHeuristic) {
-    await setLiveCallAdvice(callSid, heuristicAdvice, {
-      lastError: null,
-      analyzing: false,
-    }).catch(() => {})
-    state.lastStableAdvice = heuristicAdvice
-  }
-
-  if (!shouldRunModel) {
-    return
-  }
-
-  await setLiveCallAnalyzing(callSid, true).catch(() => {})
-
-  try {
-    const modelBaselineAdvice = state.lastStableAdvice ?? heuristicAdvice
-    const modelAdvice = await generateModelAdvice({
-      transcript,
-      previousAdvice: modelBaselineAdvice,
-    })
-
-    if (!modelAdvice) {
-      state.lastModelRunAt = Date.now()
-      state.lastStableAdvice = heuristicAdvice
-      await setLiveCallAdvice(callSid, heuristicAdvice, {
-        lastError: null,
-        analyzing: false,
-      }).catch(() => {})
-      await setLiveCallAnalyzing(callSid, false).catch(() => {})
-      return
-    }
-
-    const stabilizedModelAdvice = stabilizeAdvice({
-      nextAdvice: modelAdvice,
-      previousAdvice: modelBaselineAdvice,
-    })
-
-    await setLiveCallAdvice(callSid, stabilizedModelAdvice, {
-      lastError: null,
-      analyzing: false,
-    })
-    state.lastStableAdvice = stabilizedModelAdvice
-    state.lastModelRunAt = Date.now()
-    state.modelCooldownUntil = 0
-    state.rateLimitStreak = 0
-    state.lastRateLimitAt = 0
-  } catch (error) {
-    const failedAt = Date.now()
-    state.lastModelRunAt = failedAt
-    const backoffMs = getRateLimitBackoffMs(error, state)
-
-    if (backoffMs > 0) {
-      state.modelCooldownUntil = failedAt + backoffMs
-    }
-
-    await setLiveCallAdvice(callSid, heuristicAdvice, {
-      lastError: backoffMs > 0 ? ADVICE_RATE_LIMITED_MESSAGE : ADVICE_DELAYED_MESSAGE,
-      analyzing: false,
-    }).catch(() => {})
-    state.lastStableAdvice = heuristicAdvice
-  }
-}
-
 export async function POST(request: NextRequest) {
   const twilioConfig = getTwilioConfig()
   const skipValidation = shouldSkipTwilioWebhookValidation()
@@ -312,39 +128,16 @@ export async function POST(request: NextRequest) {
   const parsedBody = parseTwilioWebhookBody(rawBody, request.headers.get('content-type'))
   const bodyParams = parsedBody.bodyParams
 
-  if (!skipValidation) {
-    if (!twilioConfig) {
-      return NextResponse.json(
-        { ok: false, error: 'Twilio server configuration is missing.' },
-        { status: 500 },
-      )
-    }
-
-    const signature = request.headers.get('x-twilio-signature')
-
-    if (!signature) {
-      return NextResponse.json(
-        { ok: false, error: 'Missing Twilio signature.' },
-        { status: 401 },
-      )
-    }
-
-    const urlCandidates = buildTwilioUrlCandidates(request.url, request.headers)
-    const validSignature = isValidTwilioSignature({
-      authToken: twilioConfig.authToken,
-      signature,
-      urlCandidates,
-      bodyParams,
-      rawBody: parsedBody.isJson ? rawBody : undefined,
-      isJsonBody: parsedBody.isJson,
-    })
+  const rejection = verifyTwilioWebhookRequest({
+    requestUrl: request.url,
+    headers: request.headers,
+    rawBody,
+    parsedBody,
+    authToken: twilioConfig?.authToken ?? null,
+  })
 
-    if (!validSignature) {
-      return NextResponse.json(
-        { ok: false, error: 'Invalid Twilio signature.' },
-        { status: 401 },
-      )
-    }
+  if (rejection) {
+    return NextResponse.json({ ok: false, error: rejection.error }, { status: rejection.status })
   }
 
   const slugFromQuery = request.nextUrl.searchParams.get('slug')
@@ -390,21 +183,22 @@ export async function POST(request: NextRequest) {
     if (event.transcript) {
       const normalizedStatus = normalizeSessionStatus(event.status ?? '')
       const callEnded = isTerminalStatus(normalizedStatus)
+      const redactionMode = await getTenantRedactionMode(slug)
 
       await appendTranscriptChunk({
         callSid: event.callSid,
         sourceEventId: event.transcript.sourceEventId,
         speaker: event.transcript.speaker,
-        text: event.transcript.text,
+        text: redactsAtStorage(redactionMode) ? redactText(event.transcript.text) : event.transcript.text,
         isFinal: event.transcript.isFinal,
         timestamp: event.transcript.timestamp,
       })
 
       if (event.transcript.isFinal || callEnded) {
-        runAdviceForCall(event.callSid, true)
+        getAdviceQueue().trigger(event.callSid, true)
       }
     } else if (event.status && isTerminalStatus(normalizeSessionStatus(event.status))) {
-      runAdviceForCall(event.callSid, true)
+      getAdviceQueue().trigger(event.callSid, true)
     }
 
     return NextResponse.json({ ok: true })
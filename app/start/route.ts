@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createAdminClient } from '@/lib/supabase/admin'
 import { BRAND_CASE_NAME } from '@/lib/brand'
+import { TENANT_COOKIE, TENANT_SETUP_COOKIE, createTenantSetupToken, getTenantAccess } from '@/lib/tenant-auth'
 
-const TENANT_COOKIE = 'tenant_slug'
 const TENANT_COOKIE_MAX_AGE_SECONDS = 60 * 60 * 24 * 365
 const MAX_PROVISION_ATTEMPTS = 5
 
@@ -14,22 +14,17 @@ function generateSlug() {
   return `case-${crypto.randomUUID().slice(0, 8)}`
 }
 
-async function findTenantSlug(slug: string) {
-  const supabase = createAdminClient()
-  const { data, error } = await supabase
-    .from('tenants')
-    .select('slug')
-    .eq('slug', slug)
-    .maybeSingle()
-
-  if (error || !data?.slug) {
+// Only send the browser back to a tenant it can still get into.
+async function findReturningTenantSlug(slug: string) {
+  try {
+    const { status, tenant } = await getTenantAccess(slug)
+    return status === 'not-found' || !tenant ? null : tenant.slug
+  } catch {
     return null
   }
-
-  return data.slug
 }
 
-async function createTenant() {
+async function createTenant(setupTokenHash: string) {
   const supabase = createAdminClient()
 
   for (let i = 0; i < MAX_PROVISION_ATTEMPTS; i += 1) {
@@ -38,7 +33,7 @@ async function createTenant() {
 
     const { data, error } = await supabase
       .from('tenants')
-      .insert({ slug, name })
+      .insert({ slug, name, setup_token_hash: setupTokenHash })
       .select('slug')
       .single()
 
@@ -61,13 +56,14 @@ export async function GET(request: NextRequest) {
   const cookieSlug = request.cookies.get(TENANT_COOKIE)?.value
 
   if (cookieSlug && isValidSlug(cookieSlug)) {
-    const existingSlug = await findTenantSlug(cookieSlug)
+    const existingSlug = await findReturningTenantSlug(cookieSlug)
     if (existingSlug) {
       return NextResponse.redirect(new URL(`/t/${existingSlug}`, request.url))
     }
   }
 
-  const newSlug = await createTenant()
+  const setup = createTenantSetupToken()
+  const newSlug = await createTenant(setup.tokenHash)
   if (!newSlug) {
     return NextResponse.json(
       { ok: false, error: 'Unable to initialize a case right now. Please refresh.' },
@@ -86,6 +82,15 @@ export async function GET(request: NextRequest) {
     path: '/',
     maxAge: TENANT_COOKIE_MAX_AGE_SECONDS,
   })
+  response.cookies.set({
+    name: TENANT_SETUP_COOKIE,
+    value: setup.token,
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: isSecureRequest,
+    path: '/',
+    maxAge: TENANT_COOKIE_MAX_AGE_SECONDS,
+  })
 
   return response
 }
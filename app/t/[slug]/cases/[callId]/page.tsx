@@ -0,0 +1,179 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { BRAND_CASE_NAME, BRAND_NAME } from '@/lib/brand'
+import { PRIMARY_TAP_TARGET, SECONDARY_TEXT_SIZE } from '@/lib/a11y'
+import { formatCaseDuration } from '@/lib/case-history'
+import { buildCaseReport } from '@/lib/case-report'
+import { getAdviceTimeline, getLiveSessionSnapshot } from '@/lib/live-store'
+import { TranscriptSpeaker } from '@/lib/live-types'
+import { getScamTypeLabel } from '@/lib/scam-types'
+import { requireTenantOwner } from '@/lib/tenant-auth'
+import { PostCallSummaryCard } from '@/components/post-call-summary-card'
+import { RiskTimelineChart } from '@/components/risk-timeline-chart'
+
+export const dynamic = 'force-dynamic'
+
+const REPORT_TRANSCRIPT_LIMIT = 500
+
+function formatSpeakerLabel(speaker: TranscriptSpeaker): string {
+  if (speaker === 'caller') return 'You'
+  if (speaker === 'other') return 'Other caller'
+  if (speaker === 'assistant') return 'Assistant'
+  return 'Unknown speaker'
+}
+
+function formatElapsed(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000))
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${String(seconds).padStart(2, '0')}`
+}
+
+export default async function CaseReportPage({
+  params,
+}: {
+  params: Promise<{ slug: string; callId: string }>
+}) {
+  const { slug, callId } = await params
+  await requireTenantOwner(slug)
+
+  const [session, timeline] = await Promise.all([
+    getLiveSessionSnapshot(callId, slug, REPORT_TRANSCRIPT_LIMIT),
+    getAdviceTimeline(callId, slug),
+  ])
+
+  if (!session) {
+    notFound()
+  }
+
+  const report = buildCaseReport({ session, timeline: timeline ?? [] })
+  const origin = report.startedAt ?? report.timeline[0]?.createdAt ?? 0
+  const scamTypeLabel = getScamTypeLabel(report.scamType)
+  const callEnded = report.endedAt !== null
+
+  return (
+    <main
+      id="main-content"
+      tabIndex={-1}
+      className="relative min-h-dvh bg-background px-4 py-5 sm:px-6 sm:py-8"
+    >
+      <div className="absolute inset-x-0 top-0 h-px bg-primary/20" aria-hidden="true" />
+
+      <article aria-labelledby="case-report-title" className="mx-auto flex w-full max-w-2xl flex-col gap-4 pb-14">
+        <header className="flex flex-col gap-1 text-center">
+          <p className="font-mono text-sm tracking-wide text-muted-foreground">{BRAND_CASE_NAME}</p>
+          <h1 id="case-report-title" className="font-sans text-2xl font-semibold text-foreground">
+            Case report
+          </h1>
+          <p className="font-sans text-base text-muted-foreground">
+            {report.startedAt
+              ? new Date(report.startedAt).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })
+              : 'Start time unknown'}
+            {' · '}
+            {formatCaseDuration(report.durationMs)}
+          </p>
+        </header>
+
+        {!callEnded && (
+          <section role="status" className="rounded-xl border border-border bg-card/70 px-4 py-3">
+            <p className="font-sans text-base text-foreground">
+              This call is still in progress. The report will be complete once it ends.
+            </p>
+          </section>
+        )}
+
+        <PostCallSummaryCard summary={report.summary} />
+
+        {scamTypeLabel && (
+          <p className="px-1 font-sans text-base font-semibold text-foreground">Looks like: {scamTypeLabel} scam</p>
+        )}
+
+        <section className="rounded-2xl border border-border bg-card px-4 py-4">
+          <h2 className="font-sans text-lg font-semibold text-foreground">Risk over time</h2>
+          <div className="mt-3">
+            <RiskTimelineChart
+              points={report.timeline.map((event) => ({
+                elapsedMs: event.createdAt - origin,
+                riskScore: event.riskScore,
+                rawRiskScore: event.rawRiskScore,
+              }))}
+              peak={report.peak ? { elapsedMs: report.peak.at - origin, riskScore: report.peak.riskScore } : null}
+            />
+          </div>
+          {report.peak && (
+            <div className="mt-4 rounded-xl border border-border/80 bg-secondary/60 px-3 py-3">
+              <h3 className="font-sans text-base font-semibold text-foreground">
+                Peak risk: {report.peak.riskScore}% ({report.peak.riskLevel}) at {formatElapsed(report.peak.at - origin)}
+              </h3>
+              {report.peak.quote && (
+                <blockquote className="mt-2 border-l-2 border-primary/60 pl-3 font-sans text-base italic text-foreground">
+                  {formatSpeakerLabel(report.peak.quote.speaker)}: “{report.peak.quote.text}”
+                </blockquote>
+              )}
+            </div>
+          )}
+        </section>
+
+        <section className="rounded-2xl border border-border bg-card px-4 py-4">
+          <h2 className="font-sans text-lg font-semibold text-foreground">Signals detected</h2>
+          {report.signals.length === 0 ? (
+            <p className="mt-2 font-sans text-base text-muted-foreground">No scam signals were detected.</p>
+          ) : (
+            <ul className="mt-3 flex flex-col gap-2">
+              {report.signals.map((signal) => (
+                <li
+                  key={signal.ruleId}
+                  className="flex items-center justify-between gap-3 rounded-xl border border-border/80 bg-card/60 px-3 py-2"
+                >
+                  <span className="font-sans text-base text-foreground">{signal.label}</span>
+                  <span className="shrink-0 font-mono text-sm text-muted-foreground">
+                    {formatElapsed(signal.firstSeenAt - origin)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className="rounded-2xl border border-border bg-card px-3 py-3">
+          <h2 className="px-1 font-sans text-lg font-semibold text-foreground">Full transcript</h2>
+          {report.transcript.length === 0 ? (
+            <p className="mt-2 px-1 font-sans text-base text-muted-foreground">No transcript was recorded.</p>
+          ) : (
+            <ol aria-label="Call transcript" className="mt-3 flex flex-col gap-2 px-1">
+              {report.transcript.map((line) => (
+                <li key={line.id} className="rounded-2xl border border-border/70 bg-secondary/80 px-4 py-3">
+                  <p className="font-sans text-sm text-muted-foreground">
+                    {formatSpeakerLabel(line.speaker)} · {formatElapsed(line.timestamp - origin)}
+                  </p>
+                  <p className="mt-1 font-sans text-[17px] leading-relaxed whitespace-pre-wrap break-words text-foreground">
+                    {line.text}
+                  </p>
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+
+        <Link
+          href={`/t/${slug}`}
+          style={{ minHeight: PRIMARY_TAP_TARGET, fontSize: SECONDARY_TEXT_SIZE }}
+          className="self-center rounded-md px-3 py-3 font-sans font-semibold text-muted-foreground underline-offset-4 transition-colors hover:text-foreground hover:underline"
+        >
+          Back to live monitor
+        </Link>
+        <Link
+          href={`/t/${slug}/cases`}
+          style={{ minHeight: PRIMARY_TAP_TARGET, fontSize: SECONDARY_TEXT_SIZE }}
+          className="self-center rounded-md px-3 py-3 font-sans font-semibold text-muted-foreground underline-offset-4 transition-colors hover:text-foreground hover:underline"
+        >
+          All cases
+        </Link>
+      </article>
+
+      <footer className="pointer-events-none absolute inset-x-0 bottom-0 flex justify-center py-6">
+        <p className="font-mono text-sm tracking-wide text-muted-foreground/70">{BRAND_NAME}</p>
+      </footer>
+    </main>
+  )
+}
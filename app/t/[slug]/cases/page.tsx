@@ -0,0 +1,194 @@
+import Link from 'next/link'
+import { BRAND_NAME } from '@/lib/brand'
+import { PRIMARY_TAP_TARGET, SECONDARY_TEXT_SIZE } from '@/lib/a11y'
+import { formatCaseDuration, parseCaseHistoryQuery } from '@/lib/case-history'
+import { listLiveCalls } from '@/lib/live-store'
+import { RiskLevel } from '@/lib/live-types'
+import { getScamTypeLabel } from '@/lib/scam-types'
+import { requireTenantOwner } from '@/lib/tenant-auth'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+export const dynamic = 'force-dynamic'
+
+const RISK_BADGE_STYLES: Record<RiskLevel, string> = {
+  high: 'border-destructive/40 bg-destructive/10 text-destructive',
+  medium: 'border-amber-500/40 bg-amber-500/10 text-amber-500',
+  low: 'border-emerald-500/40 bg-emerald-500/10 text-emerald-500',
+}
+
+const DATE_INPUT_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function toSearchParams(raw: Record<string, string | string[] | undefined>): URLSearchParams {
+  const searchParams = new URLSearchParams()
+
+  for (const [key, value] of Object.entries(raw)) {
+    const first = Array.isArray(value) ? value[0] : value
+    if (first) searchParams.set(key, first)
+  }
+
+  return searchParams
+}
+
+export default async function CaseHistoryPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ slug: string }>
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}) {
+  const { slug } = await params
+  const rawSearchParams = toSearchParams(await searchParams)
+  const query = parseCaseHistoryQuery(rawSearchParams)
+  await requireTenantOwner(slug)
+
+  const { cases, total } = await listLiveCalls({ slug, ...query })
+  const pageCount = Math.max(1, Math.ceil(total / query.pageSize))
+  const fromValue = rawSearchParams.get('from') ?? ''
+  const toValue = rawSearchParams.get('to') ?? ''
+
+  function pageHref(page: number): string {
+    const next = new URLSearchParams(rawSearchParams)
+    next.set('page', String(page))
+    return `/t/${slug}/cases?${next.toString()}`
+  }
+
+  return (
+    <main
+      id="main-content"
+      tabIndex={-1}
+      className="relative min-h-dvh bg-background px-4 py-5 sm:px-6 sm:py-8"
+    >
+      <div className="absolute inset-x-0 top-0 h-px bg-primary/20" aria-hidden="true" />
+
+      <section aria-labelledby="case-history-title" className="mx-auto flex w-full max-w-2xl flex-col gap-4 pb-14">
+        <header className="flex flex-col gap-1 text-center">
+          <h1 id="case-history-title" className="font-sans text-2xl font-semibold text-foreground">
+            Case history
+          </h1>
+          <p className="font-sans text-base text-muted-foreground">
+            {total === 1 ? '1 monitored call' : `${total} monitored calls`}
+          </p>
+        </header>
+
+        <form
+          method="get"
+          aria-label="Filter cases"
+          className="grid grid-cols-1 gap-3 rounded-2xl border border-border bg-card/70 px-4 py-4 sm:grid-cols-3"
+        >
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="risk" className="font-sans text-base">
+              Peak risk
+            </Label>
+            <select
+              id="risk"
+              name="risk"
+              defaultValue={query.riskLevel ?? ''}
+              className="h-12 rounded-md border border-input bg-transparent px-3 font-sans text-base text-foreground"
+            >
+              <option value="">Any</option>
+              <option value="high">High</option>
+              <option value="medium">Medium</option>
+              <option value="low">Low</option>
+            </select>
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="from" className="font-sans text-base">
+              From
+            </Label>
+            <Input
+              id="from"
+              name="from"
+              type="date"
+              defaultValue={DATE_INPUT_PATTERN.test(fromValue) ? fromValue : ''}
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="to" className="font-sans text-base">
+              To
+            </Label>
+            <Input id="to" name="to" type="date" defaultValue={DATE_INPUT_PATTERN.test(toValue) ? toValue : ''} />
+          </div>
+          <Button
+            type="submit"
+            style={{ minHeight: PRIMARY_TAP_TARGET, fontSize: SECONDARY_TEXT_SIZE }}
+            className="font-sans font-semibold sm:col-span-3"
+          >
+            Apply filters
+          </Button>
+        </form>
+
+        {cases.length === 0 ? (
+          <p className="rounded-xl border border-border bg-card px-4 py-3 font-sans text-base text-muted-foreground">
+            No calls match these filters.
+          </p>
+        ) : (
+          <ul className="flex flex-col gap-2">
+            {cases.map((entry) => {
+              const scamTypeLabel = getScamTypeLabel(entry.scamType)
+
+              return (
+                <li key={entry.callId}>
+                  <Link
+                    href={`/t/${slug}/cases/${encodeURIComponent(entry.callId)}`}
+                    className="flex items-center justify-between gap-3 rounded-2xl border border-border bg-card px-4 py-3 transition-colors hover:border-primary/50"
+                  >
+                    <div className="flex flex-col gap-1">
+                      <p className="font-sans text-base font-semibold text-foreground">
+                        {new Date(entry.startedAt).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}
+                      </p>
+                      <p className="font-sans text-sm text-muted-foreground">
+                        {entry.endedAt === null ? 'In progress' : formatCaseDuration(entry.durationMs)}
+                        {scamTypeLabel ? ` · ${scamTypeLabel}` : ''}
+                      </p>
+                    </div>
+                    <span
+                      className={`shrink-0 rounded-full border px-3 py-1 font-sans text-sm font-semibold ${RISK_BADGE_STYLES[entry.peakRiskLevel]}`}
+                    >
+                      {entry.peakRiskLevel} · {entry.peakRiskScore}%
+                    </span>
+                  </Link>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+
+        {pageCount > 1 && (
+          <nav aria-label="Case history pages" className="flex items-center justify-between gap-3">
+            {query.page > 1 ? (
+              <Link href={pageHref(query.page - 1)} className="font-sans text-base font-semibold text-foreground underline-offset-4 hover:underline">
+                Newer
+              </Link>
+            ) : (
+              <span />
+            )}
+            <p className="font-sans text-sm text-muted-foreground">
+              Page {query.page} of {pageCount}
+            </p>
+            {query.page < pageCount ? (
+              <Link href={pageHref(query.page + 1)} className="font-sans text-base font-semibold text-foreground underline-offset-4 hover:underline">
+                Older
+              </Link>
+            ) : (
+              <span />
+            )}
+          </nav>
+        )}
+
+        <Link
+          href={`/t/${slug}`}
+          style={{ minHeight: PRIMARY_TAP_TARGET, fontSize: SECONDARY_TEXT_SIZE }}
+          className="self-center rounded-md px-3 py-3 font-sans font-semibold text-muted-foreground underline-offset-4 transition-colors hover:text-foreground hover:underline"
+        >
+          Back to live monitor
+        </Link>
+      </section>
+
+      <footer className="pointer-events-none absolute inset-x-0 bottom-0 flex justify-center py-6">
+        <p className="font-mono text-sm tracking-wide text-muted-foreground/70">{BRAND_NAME}</p>
+      </footer>
+    </main>
+  )
+}
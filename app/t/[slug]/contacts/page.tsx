@@ -0,0 +1,70 @@
+import Link from 'next/link'
+import { BRAND_NAME } from '@/lib/brand'
+import { PRIMARY_TAP_TARGET, SECONDARY_TEXT_SIZE } from '@/lib/a11y'
+import { requireTenantOwner } from '@/lib/tenant-auth'
+import { listTenantViewers } from '@/lib/tenant-viewers'
+import { MAX_TRUSTED_CONTACTS, listTrustedContacts } from '@/lib/trusted-contacts'
+import { TrustedContactsForm } from '@/components/trusted-contacts-form'
+
+export const dynamic = 'force-dynamic'
+
+export default async function TrustedContactsPage({
+  params,
+}: {
+  params: Promise<{ slug: string }>
+}) {
+  const { slug } = await params
+  await requireTenantOwner(slug)
+
+  const [contacts, viewers] = await Promise.all([listTrustedContacts(slug), listTenantViewers(slug)])
+  const viewerByContactId = new Map(viewers.map((viewer) => [viewer.contactId, viewer]))
+
+  return (
+    <main
+      id="main-content"
+      tabIndex={-1}
+      className="relative min-h-dvh bg-background px-4 py-5 sm:px-6 sm:py-8"
+    >
+      <div className="absolute inset-x-0 top-0 h-px bg-primary/20" aria-hidden="true" />
+
+      <section aria-labelledby="trusted-contacts-title" className="mx-auto flex w-full max-w-md flex-col gap-4 pb-14">
+        <header className="flex flex-col gap-1 text-center">
+          <h1 id="trusted-contacts-title" className="font-sans text-2xl font-semibold text-foreground">
+            Trusted contacts
+          </h1>
+          <p className="font-sans text-base leading-relaxed text-muted-foreground">
+            We text or email these people if a monitored call looks like a scam, or if you may have shared
+            something private. Each person hears about a call once. Up to {MAX_TRUSTED_CONTACTS} contacts.
+            You can also invite a contact to watch your calls live and ring you if something looks wrong.
+          </p>
+        </header>
+
+        <TrustedContactsForm
+          slug={slug}
+          contacts={contacts.map((contact) => {
+            const viewer = viewerByContactId.get(contact.id)
+            return {
+              id: contact.id,
+              name: contact.name,
+              phoneNumber: contact.phoneNumber,
+              email: contact.email,
+              viewer: viewer ? (viewer.acceptedAt ? 'watching' : 'invited') : null,
+            }
+          })}
+        />
+
+        <Link
+          href={`/t/${slug}`}
+          style={{ minHeight: PRIMARY_TAP_TARGET, fontSize: SECONDARY_TEXT_SIZE }}
+          className="self-center rounded-md px-3 py-3 font-sans font-semibold text-muted-foreground underline-offset-4 transition-colors hover:text-foreground hover:underline"
+        >
+          Back to live monitor
+        </Link>
+      </section>
+
+      <footer className="pointer-events-none absolute inset-x-0 bottom-0 flex justify-center py-6">
+        <p className="font-mono text-sm tracking-wide text-muted-foreground/70">{BRAND_NAME}</p>
+      </footer>
+    </main>
+  )
+}
@@ -1,7 +1,11 @@
-import { createClient } from '@/lib/supabase/server'
-import { notFound } from 'next/navigation'
+import { redirect } from 'next/navigation'
 import { BRAND_NAME, resolveTenantDisplayName } from '@/lib/brand'
+import { PRIMARY_TAP_TARGET, SECONDARY_TEXT_SIZE } from '@/lib/a11y'
+import { requireTenantOwner } from '@/lib/tenant-auth'
+import { getTenantRedactionMode, getTenantRetentionPolicy, getTenantWhisperCoaching } from '@/lib/tenant-settings'
+import { listTrustedContacts } from '@/lib/trusted-contacts'
 import { CasePanel } from '@/components/case-panel'
+import { TenantSettingsForm } from '@/components/tenant-settings-form'
 
 export default async function TenantHomePage({
   params,
@@ -9,25 +13,24 @@ export default async function TenantHomePage({
   params: Promise<{ slug: string }>
 }) {
   const { slug } = await params
-  const supabase = await createClient()
+  const tenant = await requireTenantOwner(slug)
 
-  const { data: tenant, error: tenantError } = await supabase
-    .from('tenants')
-    .select('id, slug, name, phone_number')
-    .eq('slug', slug)
-    .single()
-
-  if (!tenant) {
-    notFound()
-  }
-
-  // If no phone number saved yet, redirect to setup
-  if (!tenant.phone_number) {
-    const { redirect } = await import('next/navigation')
+  // No confirmed number yet: monitor calls cannot be placed, so finish setup first
+  if (!tenant.phoneNumber || !tenant.phoneVerifiedAt) {
     redirect(`/t/${slug}/setup`)
   }
 
   const displayTenantName = resolveTenantDisplayName(tenant.name)
+  const escalationContacts = (await listTrustedContacts(slug))
+    .filter((contact) => contact.phoneNumber)
+    .map((contact) => ({ id: contact.id, name: contact.name }))
+  const retention = await getTenantRetentionPolicy(slug)
+  const settings = {
+    whisperCoaching: await getTenantWhisperCoaching(slug),
+    redactionMode: await getTenantRedactionMode(slug),
+    transcriptRetentionDays: retention.transcriptRetentionDays,
+    purgeAction: retention.purgeAction,
+  }
 
   return (
     <main
@@ -37,12 +40,24 @@ export default async function TenantHomePage({
     >
       <div className="absolute inset-x-0 top-0 h-px bg-primary/20" aria-hidden="true" />
 
-      <div className="mx-auto flex w-full max-w-md justify-center pb-14">
+      <div className="mx-auto flex w-full max-w-md flex-col items-center pb-14">
         <CasePanel
           slug={slug}
-          maskedPhone={maskForDisplay(tenant.phone_number)}
+          maskedPhone={maskForDisplay(tenant.phoneNumber)}
           tenantName={displayTenantName}
+          escalationContacts={escalationContacts}
         />
+        <TenantSettingsForm slug={slug} initialSettings={settings} />
+        <form action="/api/tenant/sign-out" method="post">
+          <input type="hidden" name="slug" value={slug} />
+          <button
+            type="submit"
+            style={{ minHeight: PRIMARY_TAP_TARGET, fontSize: SECONDARY_TEXT_SIZE }}
+            className="rounded-md px-3 py-3 font-sans font-semibold text-muted-foreground underline-offset-4 transition-colors hover:text-foreground hover:underline"
+          >
+            Sign out
+          </button>
+        </form>
       </div>
 
       <footer className="pointer-events-none absolute inset-x-0 bottom-0 flex justify-center py-6">
@@ -1,6 +1,6 @@
-import { createClient } from '@/lib/supabase/server'
-import { notFound } from 'next/navigation'
+import { notFound, redirect } from 'next/navigation'
 import { resolveTenantDisplayName } from '@/lib/brand'
+import { getTenantAccess } from '@/lib/tenant-auth'
 import { DetectiveBadge } from '@/components/detective-badge'
 import { SetupForm } from '@/components/setup-form'
 import { NoirFrame } from '@/components/noir-frame'
@@ -11,18 +11,20 @@ export default async function TenantSetupPage({
   params: Promise<{ slug: string }>
 }) {
   const { slug } = await params
-  const supabase = await createClient()
+  const { status, tenant } = await getTenantAccess(slug)
 
-  const { data: tenant, error: tenantError } = await supabase
-    .from('tenants')
-    .select('id, slug, name')
-    .eq('slug', slug)
-    .single()
-
-  if (!tenant) {
+  if (status === 'not-found' || !tenant) {
     notFound()
   }
 
+  if (status === 'sign-in-required') {
+    redirect(`/t/${slug}/sign-in`)
+  }
+
+  if (status === 'viewer') {
+    redirect(`/t/${slug}/watch`)
+  }
+
   const displayTenantName = resolveTenantDisplayName(tenant.name)
 
   return (
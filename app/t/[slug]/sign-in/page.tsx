@@ -0,0 +1,52 @@
+import { notFound, redirect } from 'next/navigation'
+import { resolveTenantDisplayName } from '@/lib/brand'
+import { maskPhone } from '@/lib/phone'
+import { getTenantAccess } from '@/lib/tenant-auth'
+import { DetectiveBadge } from '@/components/detective-badge'
+import { NoirFrame } from '@/components/noir-frame'
+import { SignInForm } from '@/components/sign-in-form'
+
+export const dynamic = 'force-dynamic'
+
+export default async function TenantSignInPage({
+  params,
+}: {
+  params: Promise<{ slug: string }>
+}) {
+  const { slug } = await params
+  const { status, tenant } = await getTenantAccess(slug)
+
+  if (status === 'not-found' || !tenant) {
+    notFound()
+  }
+
+  if (status === 'owner') {
+    redirect(`/t/${slug}`)
+  }
+
+  if (status === 'setup') {
+    redirect(`/t/${slug}/setup`)
+  }
+
+  if (!tenant.phoneNumber) {
+    notFound()
+  }
+
+  const displayTenantName = resolveTenantDisplayName(tenant.name)
+
+  return (
+    <NoirFrame>
+      <DetectiveBadge />
+      {displayTenantName && (
+        <p className="text-center font-mono text-base tracking-wide text-muted-foreground">
+          {displayTenantName}
+        </p>
+      )}
+      <p className="max-w-sm text-center font-sans text-lg leading-relaxed text-foreground">
+        Sign in to start coaching and see your case files.
+      </p>
+      <div className="h-px w-16 bg-border" role="separator" />
+      <SignInForm slug={slug} maskedPhone={maskPhone(tenant.phoneNumber)} />
+    </NoirFrame>
+  )
+}
@@ -0,0 +1,69 @@
+import { notFound, redirect } from 'next/navigation'
+import { BRAND_CASE_NAME, BRAND_NAME, resolveTenantDisplayName } from '@/lib/brand'
+import { BASE_TEXT_SIZE, PRIMARY_TAP_TARGET } from '@/lib/a11y'
+import { getTenantAccess } from '@/lib/tenant-auth'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Landing page for the invite link. Opening it changes nothing; the invite is
+ * only accepted when the button posts it, so link previews cannot use it up.
+ */
+export default async function AcceptViewerInvitePage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ slug: string }>
+  searchParams: Promise<{ token?: string }>
+}) {
+  const { slug } = await params
+  const { token } = await searchParams
+  const { status, tenant } = await getTenantAccess(slug)
+
+  if (status === 'not-found' || !tenant) {
+    notFound()
+  }
+
+  const inviteToken = token?.trim()
+
+  if (!inviteToken) {
+    redirect(`/t/${slug}/watch?invite=invalid`)
+  }
+
+  const displayTenantName = resolveTenantDisplayName(tenant.name)
+  const tenantName = displayTenantName && displayTenantName !== BRAND_CASE_NAME ? displayTenantName : 'your loved one'
+
+  return (
+    <main
+      id="main-content"
+      tabIndex={-1}
+      className="relative min-h-dvh bg-background px-4 py-5 sm:px-6 sm:py-8"
+    >
+      <div className="absolute inset-x-0 top-0 h-px bg-primary/20" aria-hidden="true" />
+
+      <div className="mx-auto flex w-full max-w-md flex-col items-center pb-14">
+        <section className="w-full rounded-2xl border border-border bg-card/80 px-6 py-8 text-center">
+          <h1 className="font-sans text-xl font-semibold text-foreground">Watch calls with {tenantName}</h1>
+          <p className="mt-2 font-sans text-base text-muted-foreground">
+            You were invited to follow their calls live on this device. The invite works once.
+          </p>
+          <form action="/api/tenant/viewers/accept" method="post" className="mt-6">
+            <input type="hidden" name="slug" value={slug} />
+            <input type="hidden" name="token" value={inviteToken} />
+            <button
+              type="submit"
+              style={{ minHeight: PRIMARY_TAP_TARGET, fontSize: BASE_TEXT_SIZE }}
+              className="w-full rounded-md bg-primary px-4 font-sans font-semibold text-primary-foreground transition-colors hover:bg-primary/90"
+            >
+              Accept invite
+            </button>
+          </form>
+        </section>
+      </div>
+
+      <footer className="pointer-events-none absolute inset-x-0 bottom-0 flex justify-center py-6">
+        <p className="font-mono text-sm tracking-wide text-muted-foreground/70">{BRAND_NAME}</p>
+      </footer>
+    </main>
+  )
+}
@@ -0,0 +1,70 @@
+import { notFound, redirect } from 'next/navigation'
+import { BRAND_CASE_NAME, BRAND_NAME, resolveTenantDisplayName } from '@/lib/brand'
+import { getTenantAccess } from '@/lib/tenant-auth'
+import { CaregiverPanel } from '@/components/caregiver-panel'
+
+export const dynamic = 'force-dynamic'
+
+export default async function CaregiverWatchPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ slug: string }>
+  searchParams: Promise<{ invite?: string }>
+}) {
+  const { slug } = await params
+  const { invite } = await searchParams
+  const { status, tenant, viewer } = await getTenantAccess(slug)
+
+  if (status === 'not-found' || !tenant) {
+    notFound()
+  }
+
+  // Owners watch from their own live monitor.
+  if (status === 'owner') {
+    redirect(`/t/${slug}`)
+  }
+
+  if (status !== 'viewer' && invite !== 'invalid') {
+    redirect(`/t/${slug}/sign-in`)
+  }
+
+  // The tenant name is usually the protected person's own name; the default
+  // case-file name would read oddly here.
+  const displayTenantName = resolveTenantDisplayName(tenant.name)
+  const tenantName = displayTenantName && displayTenantName !== BRAND_CASE_NAME ? displayTenantName : 'your loved one'
+
+  return (
+    <main
+      id="main-content"
+      tabIndex={-1}
+      className="relative min-h-dvh bg-background px-4 py-5 sm:px-6 sm:py-8"
+    >
+      <div className="absolute inset-x-0 top-0 h-px bg-primary/20" aria-hidden="true" />
+
+      <div className="mx-auto flex w-full max-w-md flex-col items-center pb-14">
+        {status === 'viewer' ? (
+          <CaregiverPanel
+            slug={slug}
+            tenantName={tenantName}
+            viewerContactId={viewer?.phoneNumber ? viewer.contactId : null}
+          />
+        ) : (
+          <section
+            role="alert"
+            className="w-full rounded-2xl border border-destructive/30 bg-destructive/5 px-6 py-8 text-center"
+          >
+            <h1 className="font-sans text-xl font-semibold text-destructive">This invite link does not work</h1>
+            <p className="mt-2 font-sans text-base text-foreground">
+              Invite links work once and expire after a week. Ask for a new invite.
+            </p>
+          </section>
+        )}
+      </div>
+
+      <footer className="pointer-events-none absolute inset-x-0 bottom-0 flex justify-center py-6">
+        <p className="font-mono text-sm tracking-wide text-muted-foreground/70">{BRAND_NAME}</p>
+      </footer>
+    </main>
+  )
+}
@@ -0,0 +1,270 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { Loader2, PhoneCall } from 'lucide-react'
+import {
+  CallEscalationSection,
+  LiveActionItems,
+  LiveRiskMeter,
+  LiveTranscript,
+  describeEscalation,
+  formatStatusLabel,
+  formatTime,
+  getLiveActionItems,
+  isConnectedStatus,
+} from '@/components/live-call-sections'
+import { PostCallSummaryCard } from '@/components/post-call-summary-card'
+import { Button } from '@/components/ui/button'
+import { isTerminalStatus, useLiveSession } from '@/hooks/use-live-session'
+import { BASE_TEXT_SIZE, PRIMARY_TAP_TARGET } from '@/lib/a11y'
+
+type WatchedCall = {
+  callId: string
+  viewerToken: string
+}
+
+type ActiveCallPayload = {
+  ok: boolean
+  call?: (WatchedCall & { status: string; startedAt: number; viewerTokenExpiresAt: number }) | null
+  error?: string
+}
+
+const ACTIVE_CALL_POLL_INTERVAL_MS = 10_000
+
+/**
+ * Read-only live view for an invited caregiver. Looks for the tenant's
+ * current call, follows it with the same live session as the protected
+ * person's own screen, and can ring their phone or join the call itself.
+ */
+export function CaregiverPanel({
+  slug,
+  tenantName,
+  viewerContactId,
+}: {
+  slug: string
+  tenantName: string
+  // Set when the caregiver has a mobile number to be dialed into a live call on.
+  viewerContactId: string | null
+}) {
+  const [call, setCall] = useState<WatchedCall | null>(null)
+  const [loaded, setLoaded] = useState(false)
+  const [accessError, setAccessError] = useState('')
+  const [ringing, setRinging] = useState(false)
+  const [ringMessage, setRingMessage] = useState('')
+  const [ringError, setRingError] = useState('')
+  // Bumped to look for the current call again straight away.
+  const [lookupCount, setLookupCount] = useState(0)
+  const watchedCallIdRef = useRef<string | null>(null)
+
+  // The token stopped working (it expired or the call was purged): fetch a fresh one.
+  const handleExpired = useCallback(() => {
+    watchedCallIdRef.current = null
+    setLookupCount((count) => count + 1)
+  }, [])
+  const {
+    callStatus,
+    analyzing,
+    note,
+    lastUpdated,
+    advice,
+    hasLiveAdvice,
+    rawTranscript,
+    summary,
+    escalation,
+    reset,
+  } = useLiveSession({
+    slug,
+    callId: call?.callId ?? null,
+    viewerToken: call?.viewerToken ?? null,
+    onExpired: handleExpired,
+  })
+  const callEnded = isTerminalStatus(callStatus)
+  const callConnected = !callEnded && isConnectedStatus(callStatus)
+  const actionItems = useMemo(
+    () => getLiveActionItems({ advice, hasLiveAdvice, callConnected, analyzing }),
+    [advice, analyzing, callConnected, hasLiveAdvice],
+  )
+
+  useEffect(() => {
+    let cancelled = false
+
+    async function lookUpActiveCall() {
+      try {
+        const res = await fetch(`/api/call/active?slug=${encodeURIComponent(slug)}`, { cache: 'no-store' })
+        const data: ActiveCallPayload = await res.json()
+
+        if (cancelled) return
+
+        if (!res.ok || !data.ok) {
+          if (res.status === 401 || res.status === 404) {
+            setAccessError(data.error || 'Your invite has ended.')
+            watchedCallIdRef.current = null
+            setCall(null)
+          }
+          return
+        }
+
+        setAccessError('')
+        const next = data.call ?? null
+        if ((next?.callId ?? null) !== watchedCallIdRef.current) {
+          watchedCallIdRef.current = next?.callId ?? null
+          reset()
+          setCall(next ? { callId: next.callId, viewerToken: next.viewerToken } : null)
+        }
+      } catch {
+        // Keep showing the last known call; the next lookup retries.
+      } finally {
+        if (!cancelled) setLoaded(true)
+      }
+    }
+
+    void lookUpActiveCall()
+    const timer = window.setInterval(() => {
+      void lookUpActiveCall()
+    }, ACTIVE_CALL_POLL_INTERVAL_MS)
+
+    return () => {
+      cancelled = true
+      window.clearInterval(timer)
+    }
+  }, [lookupCount, reset, slug])
+
+  async function handleRing() {
+    setRinging(true)
+    setRingError('')
+    setRingMessage(`Calling ${tenantName}.`)
+
+    try {
+      const res = await fetch('/api/call/ring', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ slug }),
+      })
+      const data = await res.json()
+
+      if (!res.ok || !data.ok) {
+        setRingError(data.error || 'Could not ring their phone. Please try again.')
+        setRingMessage('')
+        return
+      }
+
+      setRingMessage(
+        data.bridged
+          ? `Ringing ${tenantName}. When they answer, we will connect them to your phone.`
+          : `Ringing ${tenantName} with a message to call you back.`,
+      )
+    } catch {
+      setRingError('Connection failed. Check your network and try again.')
+      setRingMessage('')
+    } finally {
+      setRinging(false)
+    }
+  }
+
+  if (accessError) {
+    return (
+      <section
+        role="alert"
+        className="w-full max-w-md rounded-2xl border border-destructive/30 bg-destructive/5 px-6 py-8 text-center"
+      >
+        <h1 className="font-sans text-xl font-semibold text-destructive">You can no longer watch these calls</h1>
+        <p className="mt-2 font-sans text-base text-foreground">{accessError}</p>
+      </section>
+    )
+  }
+
+  return (
+    <section aria-labelledby="caregiver-title" className="flex w-full max-w-md flex-col gap-4 pb-2">
+      <header className="flex flex-col items-center gap-1 text-center">
+        <h1 id="caregiver-title" className="font-sans text-2xl font-semibold text-foreground">
+          Watching {tenantName}
+        </h1>
+        <p className="font-sans text-base text-muted-foreground">You can see their calls but not change anything.</p>
+      </header>
+
+      <section className="rounded-2xl border border-border bg-card/70 px-4 py-4">
+        <Button
+          onClick={handleRing}
+          disabled={ringing}
+          size="lg"
+          style={{ minHeight: PRIMARY_TAP_TARGET, fontSize: BASE_TEXT_SIZE }}
+          className="w-full bg-primary font-sans font-semibold text-primary-foreground hover:bg-primary/90"
+        >
+          {ringing ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <PhoneCall className="mr-2 h-5 w-5" />}
+          Call them now
+        </Button>
+        <p className="mt-2 font-sans text-base text-muted-foreground">
+          Rings their phone so a familiar voice can interrupt a scam.
+        </p>
+        <p role="status" aria-live="polite" className="mt-2 font-sans text-base text-foreground empty:hidden">
+          {ringMessage}
+        </p>
+        {ringError && (
+          <div role="alert" className="mt-2 rounded-lg border border-destructive/30 bg-destructive/5 px-3 py-2">
+            <p className="font-sans text-base text-destructive">{ringError}</p>
+          </div>
+        )}
+      </section>
+
+      {!loaded && (
+        <section
+          role="status"
+          aria-live="polite"
+          className="flex w-full flex-col items-center gap-3 rounded-2xl border border-border bg-card px-6 py-8"
+        >
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p className="text-center font-sans text-base text-muted-foreground">Looking for a call.</p>
+        </section>
+      )}
+
+      {loaded && !call && (
+        <section aria-live="polite" className="rounded-2xl border border-border bg-card/80 px-4 py-5">
+          <h2 className="font-sans text-lg font-semibold text-foreground">No call right now</h2>
+          <p className="mt-2 font-sans text-base text-muted-foreground">
+            Keep this page open. It switches to the live call as soon as {tenantName} starts monitoring one.
+          </p>
+        </section>
+      )}
+
+      {call && (
+        <div className="flex w-full flex-col gap-3">
+          <section aria-live="polite" className="rounded-2xl border border-border bg-card/80 px-4 py-3">
+            <div className="flex items-center justify-between gap-3">
+              <h2 className="font-sans text-base font-semibold text-foreground">{formatStatusLabel(callStatus)}</h2>
+              <p className="font-sans text-sm text-muted-foreground">Updated {formatTime(lastUpdated)}</p>
+            </div>
+            {analyzing && (
+              <p className="mt-1 font-sans text-base text-muted-foreground">
+                Reading the latest part of the call.
+              </p>
+            )}
+            {note && <p className="mt-2 font-sans text-base text-foreground">{note}</p>}
+          </section>
+
+          {!callEnded && <LiveActionItems heading="Advice on their screen" items={actionItems} />}
+
+          {viewerContactId && callConnected && (
+            <CallEscalationSection
+              slug={slug}
+              callId={call.callId}
+              heading="Step in"
+              description={`We call your phone and add you to this call. ${tenantName} and the caller can both hear you.`}
+              escalation={escalation}
+              options={[{ contactId: null, label: 'Join the call' }]}
+              statusMessage={describeEscalation(
+                escalation,
+                escalation?.contactId === viewerContactId ? null : 'a trusted contact',
+              )}
+            />
+          )}
+
+          <LiveTranscript lines={rawTranscript} evidence={advice.evidence ?? []} callerLabel={tenantName} />
+
+          <LiveRiskMeter advice={advice} />
+
+          {callEnded && summary && <PostCallSummaryCard summary={summary} />}
+        </div>
+      )}
+    </section>
+  )
+}
@@ -1,57 +1,26 @@
 'use client'
 
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react'
 import Link from 'next/link'
+import { AlertTriangle, FileText, Loader2, Phone, RotateCcw } from 'lucide-react'
 import {
-  AlertTriangle,
-  Loader2,
-  Phone,
-  RotateCcw,
-  ShieldAlert,
-  ShieldCheck,
-  ShieldQuestion,
-} from 'lucide-react'
+  CallEscalationSection,
+  LiveActionItems,
+  LiveRiskMeter,
+  LiveTranscript,
+  describeEscalation,
+  formatStatusLabel,
+  formatTime,
+  getLiveActionItems,
+  isConnectedStatus,
+} from '@/components/live-call-sections'
+import { PostCallSummaryCard } from '@/components/post-call-summary-card'
 import { Button } from '@/components/ui/button'
-import { usePrefersReducedMotion } from '@/hooks/use-prefers-reduced-motion'
+import { asRecord, isTerminalStatus, useLiveSession } from '@/hooks/use-live-session'
 import { BASE_TEXT_SIZE, PRIMARY_TAP_TARGET, SECONDARY_TEXT_SIZE } from '@/lib/a11y'
 import { BRAND_CASE_NAME } from '@/lib/brand'
-import { createClient } from '@/lib/supabase/client'
-import { mergeIncrementalTranscriptText, normalizeTranscriptText } from '@/lib/transcript-merge'
 
 type PanelState = 'idle' | 'starting' | 'live' | 'ended' | 'error'
-type RiskLevel = 'low' | 'medium' | 'high'
-
-type TranscriptLine = {
-  id: string
-  speaker: 'caller' | 'other' | 'assistant' | 'unknown'
-  text: string
-  timestamp: number
-  isFinal: boolean
-}
-
-type LiveAdvice = {
-  riskScore: number
-  riskLevel: RiskLevel
-  feedback: string
-  whatToSay: string
-  whatToDo: string
-  nextSteps: string[]
-  confidence: number
-  updatedAt: number
-}
-
-type LiveSessionPayload = {
-  ok: boolean
-  status?: string
-  assistantMuted?: boolean
-  analyzing?: boolean
-  lastError?: string | null
-  updatedAt?: number
-  lastAdviceAt?: number | null
-  advice?: LiveAdvice
-  transcript?: TranscriptLine[]
-  error?: string
-}
 
 type LiveAnnouncement = {
   id: string
@@ -59,360 +28,128 @@ type LiveAnnouncement = {
   text: string
 }
 
-const STORAGE_KEY_PREFIX = 'live-call:'
-const MAX_TRANSCRIPT_LINES = 220
-const UTTERANCE_GAP_MS = 1_400
-const MAX_SENTENCES_PER_BUBBLE = 3
-const MAX_BUBBLE_CHARS = 280
-const AUTO_SCROLL_BOTTOM_THRESHOLD_PX = 72
-const DEFAULT_VISIBLE_POLL_INTERVAL_MS = 800
-const DEFAULT_HIDDEN_POLL_INTERVAL_MS = 2_500
-const RECONNECT_NOTE = 'Live updates paused. Reconnecting...'
-const POLL_INTERVAL_VISIBLE_MS =
-  readPositiveInt(process.env.NEXT_PUBLIC_LIVE_POLL_VISIBLE_MS) ?? DEFAULT_VISIBLE_POLL_INTERVAL_MS
-const POLL_INTERVAL_HIDDEN_MS =
-  readPositiveInt(process.env.NEXT_PUBLIC_LIVE_POLL_HIDDEN_MS) ?? DEFAULT_HIDDEN_POLL_INTERVAL_MS
-const WAITING_ACTIONS_CONNECTING = [
-  'Waiting for live audio to connect.',
-  'Sit tight and relax. We will coach you as soon as speech starts.',
-  'Keep responses short and calm while we listen.',
-]
-const WAITING_ACTIONS_LISTENING = [
-  'Listening now and building guidance from the conversation.',
-  'Stay calm and avoid sharing personal info, codes, or payments.',
-  'Your next live action will appear here in a moment.',
-]
-
-function readPositiveInt(value: string | undefined): number | null {
-  if (!value?.trim()) {
-    return null
-  }
-
-  const parsed = Number.parseInt(value, 10)
-  if (!Number.isFinite(parsed) || parsed <= 0) {
-    return null
-  }
-
-  return parsed
-}
-
-function createDefaultAdvice(): LiveAdvice {
-  return {
-    riskScore: 20,
-    riskLevel: 'low',
-    feedback: 'Listening for risk signals. Stay calm and ask for verification.',
-    whatToSay: 'Can you share your full name, department, and official callback number?',
-    whatToDo: 'Do not share one-time codes, account numbers, or payment details.',
-    nextSteps: [
-      'Ask them to repeat their claim clearly.',
-      'Say you will verify using an official number.',
-    ],
-    confidence: 0.3,
-    updatedAt: Date.now(),
-  }
-}
-
-function isTerminalStatus(status: string): boolean {
-  const normalized = status.toLowerCase()
-  return (
-    normalized.includes('end') ||
-    normalized.includes('complete') ||
-    normalized.includes('cancel') ||
-    normalized.includes('fail') ||
-    normalized.includes('error')
-  )
+type StoredLiveSession = {
+  callId: string
+  viewerToken: string
+  viewerTokenExpiresAt: number
 }
 
-function formatStatusLabel(status: string): string {
-  const normalized = status.toLowerCase()
-
-  if (normalized.includes('queue')) return 'Queueing call'
-  if (normalized.includes('ring')) return 'Ringing'
-  if (normalized.includes('in-progress') || normalized.includes('active')) return 'Live'
-  if (normalized.includes('end') || normalized.includes('complete')) return 'Call ended'
-  if (normalized.includes('fail') || normalized.includes('error') || normalized.includes('busy')) {
-    return 'Call failed'
-  }
-
-  return 'Connecting'
-}
-
-function isConnectedStatus(status: string): boolean {
-  const normalized = status.toLowerCase()
-  return (
-    normalized.includes('in-progress') ||
-    normalized.includes('in progress') ||
-    normalized.includes('active') ||
-    normalized.includes('answer')
-  )
-}
-
-function formatSpeakerLabel(speaker: TranscriptLine['speaker']): string {
-  if (speaker === 'caller') return 'You'
-  if (speaker === 'other') return 'Other caller'
-  if (speaker === 'assistant') return 'Assistant'
-  return 'Unknown speaker'
-}
-
-function formatTime(timestamp: number | null): string {
-  if (!timestamp) return '--'
-  return new Date(timestamp).toLocaleTimeString([], {
-    hour: '2-digit',
-    minute: '2-digit',
-  })
-}
-
-function asRecord(value: unknown): Record<string, unknown> | null {
-  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
-  return value as Record<string, unknown>
-}
-
-function parseTimestampMs(value: unknown): number {
-  if (typeof value === 'number' && Number.isFinite(value)) {
-    if (value > 1_000_000_000_000) return Math.round(value)
-    if (value > 1_000_000_000) return Math.round(value * 1000)
-  }
+const STORAGE_KEY_PREFIX = 'live-call:'
+const RECONNECTED_NOTE = 'Reconnected to your active monitor session.'
 
-  if (typeof value === 'string') {
-    const asNumber = Number(value)
-    if (Number.isFinite(asNumber)) {
-      if (asNumber > 1_000_000_000_000) return Math.round(asNumber)
-      if (asNumber > 1_000_000_000) return Math.round(asNumber * 1000)
-    }
+// Sessions saved before viewer tokens existed, or whose token has expired,
+// cannot be read any more and are dropped.
+function readStoredLiveSession(raw: string | null): StoredLiveSession | null {
+  if (!raw) return null
 
-    const asDate = Date.parse(value)
-    if (Number.isFinite(asDate)) {
-      return asDate
+  try {
+    const parsed = asRecord(JSON.parse(raw))
+    if (
+      !parsed ||
+      typeof parsed.callId !== 'string' ||
+      typeof parsed.viewerToken !== 'string' ||
+      typeof parsed.viewerTokenExpiresAt !== 'number' ||
+      parsed.viewerTokenExpiresAt <= Date.now()
+    ) {
+      return null
     }
-  }
 
-  return Date.now()
-}
-
-function toSpeaker(value: unknown): TranscriptLine['speaker'] {
-  if (typeof value !== 'string') return 'unknown'
-  const normalized = value.toLowerCase()
-  if (normalized === 'caller') return 'caller'
-  if (normalized === 'other') return 'other'
-  if (normalized === 'assistant') return 'assistant'
-  return 'unknown'
-}
-
-function mergeTranscriptLine(lines: TranscriptLine[], nextLine: TranscriptLine): TranscriptLine[] {
-  const existingLine = lines.find((line) => line.id === nextLine.id)
-  const mergedLine = existingLine
-    ? {
-        ...nextLine,
-        speaker: nextLine.speaker === 'unknown' ? existingLine.speaker : nextLine.speaker,
-        text: mergeIncrementalTranscriptText(existingLine.text, nextLine.text, {
-          isFinal: nextLine.isFinal,
-        }),
-        timestamp: Math.max(existingLine.timestamp, nextLine.timestamp),
-        isFinal: existingLine.isFinal || nextLine.isFinal,
-      }
-    : nextLine
-
-  const merged = [...lines.filter((line) => line.id !== nextLine.id), mergedLine]
-
-  merged.sort((a, b) => {
-    if (a.timestamp !== b.timestamp) return a.timestamp - b.timestamp
-
-    const aNum = Number(a.id)
-    const bNum = Number(b.id)
-
-    if (Number.isFinite(aNum) && Number.isFinite(bNum)) {
-      return aNum - bNum
+    return {
+      callId: parsed.callId,
+      viewerToken: parsed.viewerToken,
+      viewerTokenExpiresAt: parsed.viewerTokenExpiresAt,
     }
-
-    return a.id.localeCompare(b.id)
-  })
-
-  if (merged.length <= MAX_TRANSCRIPT_LINES) return merged
-  return merged.slice(-MAX_TRANSCRIPT_LINES)
-}
-
-function countSentenceBoundaries(text: string): number {
-  const matches = text.match(/[.!?]+(?=(?:["')\]]|\s|$))/g)
-  return matches?.length ?? 0
-}
-
-function endsWithSentenceBoundary(text: string): boolean {
-  const trimmed = text.trim()
-  if (!trimmed) return false
-  return /[.!?]["')\]]*$/.test(trimmed)
-}
-
-function hasLogicalBubbleBoundary(line: TranscriptLine): boolean {
-  const text = normalizeTranscriptText(line.text)
-  if (!text) return false
-
-  if (text.length >= MAX_BUBBLE_CHARS) {
-    return true
-  }
-
-  const sentenceCount = countSentenceBoundaries(text)
-  if (sentenceCount >= MAX_SENTENCES_PER_BUBBLE) {
-    return true
-  }
-
-  return endsWithSentenceBoundary(text)
-}
-
-function shouldStartNewUtterance(previous: TranscriptLine, next: TranscriptLine): boolean {
-  if (previous.speaker !== next.speaker) {
-    return true
-  }
-
-  const gapMs = next.timestamp - previous.timestamp
-  if (gapMs > UTTERANCE_GAP_MS) {
-    return true
-  }
-
-  if (!previous.isFinal) {
-    return false
+  } catch {
+    return null
   }
-
-  return hasLogicalBubbleBoundary(previous)
 }
 
-function compactTranscriptForDisplay(lines: TranscriptLine[]): TranscriptLine[] {
-  if (lines.length === 0) {
-    return []
-  }
-
-  const ordered = lines.slice().sort((a, b) => {
-    if (a.timestamp !== b.timestamp) {
-      return a.timestamp - b.timestamp
-    }
-
-    const aNum = Number(a.id)
-    const bNum = Number(b.id)
-    if (Number.isFinite(aNum) && Number.isFinite(bNum)) {
-      return aNum - bNum
-    }
-
-    return a.id.localeCompare(b.id)
-  })
-
-  const compacted: TranscriptLine[] = []
-
-  for (const entry of ordered) {
-    const normalizedText = normalizeTranscriptText(entry.text)
-    if (!normalizedText) {
-      continue
-    }
-
-    const nextEntry: TranscriptLine = {
-      ...entry,
-      text: normalizedText,
-    }
-
-    const previous = compacted[compacted.length - 1]
-    if (!previous || shouldStartNewUtterance(previous, nextEntry)) {
-      compacted.push(nextEntry)
-      continue
-    }
-
-    compacted[compacted.length - 1] = {
-      ...previous,
-      text: mergeIncrementalTranscriptText(previous.text, nextEntry.text, {
-        isFinal: nextEntry.isFinal,
-      }),
-      timestamp: Math.max(previous.timestamp, nextEntry.timestamp),
-      isFinal: previous.isFinal || nextEntry.isFinal,
-    }
-  }
-
-  if (compacted.length <= MAX_TRANSCRIPT_LINES) {
-    return compacted
-  }
-
-  return compacted.slice(-MAX_TRANSCRIPT_LINES)
+type CasePanelProps = {
+  slug: string
+  maskedPhone: string
+  tenantName?: string | null
+  // Trusted contacts with a mobile number, who can be dialed into a live call.
+  escalationContacts?: { id: string; name: string }[]
 }
 
-function normalizeActionItems(advice: LiveAdvice): string[] {
-  const values = [advice.whatToDo, ...advice.nextSteps]
-  const deduped: string[] = []
-  const seen = new Set<string>()
-
-  for (const value of values) {
-    const trimmed = value.trim()
-    if (!trimmed) continue
-    const key = trimmed.toLowerCase()
-    if (seen.has(key)) continue
-    seen.add(key)
-    deduped.push(trimmed)
-  }
-
-  if (deduped.length > 0) {
-    return deduped.slice(0, 3)
-  }
-
-  return ['Waiting for the next coaching update.']
+function subscribeToNothing() {
+  return () => {}
 }
 
-function getWaitingActionItems(params: { callConnected: boolean; analyzing: boolean }): string[] {
-  const { callConnected, analyzing } = params
-  if (!callConnected) {
-    return WAITING_ACTIONS_CONNECTING
-  }
+// sessionStorage only exists in the browser. The server and hydration render
+// a fresh panel; once hydrated it mounts again and picks up a stored session.
+export function CasePanel(props: CasePanelProps) {
+  const hydrated = useSyncExternalStore(subscribeToNothing, () => true, () => false)
 
-  if (analyzing) {
-    return WAITING_ACTIONS_LISTENING
-  }
-
-  return [
-    'Listening for the next clear segment.',
-    'You can keep talking normally.',
-    'Live actions will update automatically.',
-  ]
+  return <CasePanelContent key={hydrated ? 'browser' : 'server'} {...props} restoreSession={hydrated} />
 }
 
-export function CasePanel({
+function CasePanelContent({
   slug,
   maskedPhone,
   tenantName,
-}: {
-  slug: string
-  maskedPhone: string
-  tenantName?: string | null
-}) {
-  const [panelState, setPanelState] = useState<PanelState>('idle')
-  const [callId, setCallId] = useState<string | null>(null)
-  const [callStatus, setCallStatus] = useState('queued')
-  const [assistantMuted, setAssistantMuted] = useState(false)
-  const [analyzing, setAnalyzing] = useState(false)
-  const [caseNote, setCaseNote] = useState('')
+  escalationContacts = [],
+  restoreSession,
+}: CasePanelProps & { restoreSession: boolean }) {
+  const storageKey = `${STORAGE_KEY_PREFIX}${slug}`
+  const [restoredSession] = useState(() =>
+    restoreSession ? readStoredLiveSession(window.sessionStorage.getItem(storageKey)) : null,
+  )
+  const [panelState, setPanelState] = useState<PanelState>(restoredSession ? 'live' : 'idle')
+  const [callId, setCallId] = useState<string | null>(restoredSession?.callId ?? null)
+  const [viewerToken, setViewerToken] = useState<string | null>(restoredSession?.viewerToken ?? null)
   const [error, setError] = useState('')
-  const [lastUpdated, setLastUpdated] = useState<number | null>(null)
-  const [advice, setAdvice] = useState<LiveAdvice>(createDefaultAdvice())
-  const [hasLiveAdvice, setHasLiveAdvice] = useState(false)
-  const [rawTranscript, setRawTranscript] = useState<TranscriptLine[]>([])
   const [politeAnnouncement, setPoliteAnnouncement] = useState<LiveAnnouncement | null>(null)
   const [assertiveAnnouncement, setAssertiveAnnouncement] = useState<LiveAnnouncement | null>(null)
-  const transcriptViewportRef = useRef<HTMLDivElement | null>(null)
-  const shouldAutoFollowTranscriptRef = useRef(true)
   const announcementCounterRef = useRef(0)
   const previousPanelStateRef = useRef<PanelState>('idle')
-  const previousCallStatusRef = useRef(callStatus)
-  const previousAnalyzingRef = useRef(analyzing)
+  const previousAnalyzingRef = useRef(false)
   const previousCaseNoteRef = useRef('')
-  const prefersReducedMotion = usePrefersReducedMotion()
 
-  const storageKey = `${STORAGE_KEY_PREFIX}${slug}`
-  const supabase = useMemo(() => createClient(), [])
+  const handleStatus = useCallback(
+    (status: string) => {
+      if (isTerminalStatus(status)) {
+        setPanelState('ended')
+        window.sessionStorage.removeItem(storageKey)
+      } else {
+        setPanelState('live')
+      }
+    },
+    [storageKey],
+  )
+  const handleExpired = useCallback(() => {
+    setPanelState('error')
+    setError('Live session expired. Start a new monitor session.')
+    window.sessionStorage.removeItem(storageKey)
+  }, [storageKey])
+  const {
+    callStatus,
+    setCallStatus,
+    assistantMuted,
+    analyzing,
+    note: caseNote,
+    setNote: setCaseNote,
+    lastUpdated,
+    advice,
+    hasLiveAdvice,
+    rawTranscript,
+    summary,
+    escalation,
+    reset: resetLiveSession,
+  } = useLiveSession({
+    slug,
+    callId,
+    viewerToken,
+    initialNote: restoredSession ? RECONNECTED_NOTE : '',
+    onStatus: handleStatus,
+    onExpired: handleExpired,
+  })
+  const previousCallStatusRef = useRef(callStatus)
   const callConnected = panelState === 'live' && isConnectedStatus(callStatus)
   const actionItems = useMemo(
-    () =>
-      hasLiveAdvice
-        ? normalizeActionItems(advice)
-        : getWaitingActionItems({
-            callConnected,
-            analyzing,
-          }),
+    () => getLiveActionItems({ advice, hasLiveAdvice, callConnected, analyzing }),
     [advice, analyzing, callConnected, hasLiveAdvice],
   )
-  const transcript = useMemo(() => compactTranscriptForDisplay(rawTranscript), [rawTranscript])
   const showProtectedNumberCard =
     panelState === 'idle' || panelState === 'starting' || (panelState === 'live' && !callConnected)
   const showPreConnectStatusCard = panelState === 'ended' || !callConnected
@@ -438,17 +175,12 @@ export function CasePanel({
     setPoliteAnnouncement(announcement)
   }, [])
 
+  // Drop a stored session that can no longer be read.
   useEffect(() => {
-    const existingCallId = window.sessionStorage.getItem(storageKey)
-
-    if (!existingCallId) {
-      return
+    if (restoreSession && !restoredSession) {
+      window.sessionStorage.removeItem(storageKey)
     }
-
-    setCallId(existingCallId)
-    setPanelState('live')
-    setCaseNote('Reconnected to your active monitor session.')
-  }, [storageKey])
+  }, [restoreSession, restoredSession, storageKey])
 
   useEffect(() => {
     if (!error.trim()) return
@@ -512,302 +244,11 @@ export function CasePanel({
     previousCaseNoteRef.current = caseNote
   }, [announce, caseNote])
 
-  useEffect(() => {
-    if (!callId) return
-    const activeCallId = callId
-
-    let cancelled = false
-    let inFlight = false
-
-    function applySessionPayload(data: LiveSessionPayload) {
-      if (typeof data.status === 'string') {
-        setCallStatus(data.status)
-        if (isTerminalStatus(data.status)) {
-          setPanelState('ended')
-          window.sessionStorage.removeItem(storageKey)
-        } else {
-          setPanelState('live')
-        }
-      }
-
-      setAssistantMuted(Boolean(data.assistantMuted))
-      setAnalyzing(Boolean(data.analyzing))
-
-      if (typeof data.updatedAt === 'number') {
-        setLastUpdated(data.updatedAt)
-      }
-
-      if (data.lastAdviceAt === null) {
-        setHasLiveAdvice(false)
-      } else if (typeof data.lastAdviceAt === 'number' && Number.isFinite(data.lastAdviceAt)) {
-        setHasLiveAdvice(true)
-      }
-
-      if (data.advice) {
-        setAdvice(data.advice)
-      }
-
-      if (Array.isArray(data.transcript)) {
-        const normalized = data.transcript
-          .slice(-MAX_TRANSCRIPT_LINES)
-          .map((line) => ({
-            ...line,
-            text: normalizeTranscriptText(line.text),
-            isFinal: line.isFinal !== false,
-          }))
-
-        const merged = normalized.reduce<TranscriptLine[]>(
-          (previous, line) => mergeTranscriptLine(previous, line),
-          [],
-        )
-
-        setRawTranscript(merged)
-      }
-
-      if (data.lastError) {
-        setCaseNote(data.lastError)
-      }
-    }
-
-    function applyLiveCallRow(row: Record<string, unknown>) {
-      if (typeof row.status === 'string') {
-        setCallStatus(row.status)
-        if (isTerminalStatus(row.status)) {
-          setPanelState('ended')
-          window.sessionStorage.removeItem(storageKey)
-        } else {
-          setPanelState('live')
-        }
-      }
-
-      if (typeof row.assistant_muted === 'boolean') {
-        setAssistantMuted(row.assistant_muted)
-      }
-
-      if (typeof row.analyzing === 'boolean') {
-        setAnalyzing(row.analyzing)
-      }
-
-      if (typeof row.updated_at === 'string') {
-        const updatedAt = Date.parse(row.updated_at)
-        if (Number.isFinite(updatedAt)) {
-          setLastUpdated(updatedAt)
-        }
-      }
-
-      if (row.last_advice_at === null) {
-        setHasLiveAdvice(false)
-      } else if (typeof row.last_advice_at === 'string') {
-        const lastAdviceAt = Date.parse(row.last_advice_at)
-        if (Number.isFinite(lastAdviceAt)) {
-          setHasLiveAdvice(true)
-        }
-      }
-
-      const advicePayload = asRecord(row.advice)
-      if (advicePayload) {
-        setAdvice(advicePayload as LiveAdvice)
-      }
-
-      if (typeof row.last_error === 'string' && row.last_error.trim()) {
-        setCaseNote(row.last_error)
-      }
-    }
-
-    function applyTranscriptRow(row: Record<string, unknown>) {
-      const rawId = row.id
-      const text = row.text
-
-      if ((typeof rawId !== 'number' && typeof rawId !== 'string') || typeof text !== 'string' || !text.trim()) {
-        return
-      }
-
-      const line: TranscriptLine = {
-        id: String(rawId),
-        speaker: toSpeaker(row.speaker),
-        text: normalizeTranscriptText(text),
-        timestamp: parseTimestampMs(row.timestamp_ms),
-        isFinal: typeof row.is_final === 'boolean' ? row.is_final : true,
-      }
-
-      setRawTranscript((previous) => mergeTranscriptLine(previous, line))
-    }
-
-    async function pollLiveSession() {
-      if (cancelled || inFlight) return
-      inFlight = true
-
-      try {
-        const res = await fetch(
-          `/api/call/live?slug=${encodeURIComponent(slug)}&callId=${encodeURIComponent(activeCallId)}`,
-          {
-            cache: 'no-store',
-          }
-        )
-
-        const data: LiveSessionPayload = await res.json()
-
-        if (cancelled) return
-
-        if (!res.ok || !data.ok) {
-          if (res.status === 404) {
-            setPanelState('error')
-            setError('Live session expired. Start a new monitor session.')
-            window.sessionStorage.removeItem(storageKey)
-          }
-          return
-        }
-
-        applySessionPayload(data)
-      } catch {
-        if (!cancelled) {
-          setCaseNote(RECONNECT_NOTE)
-        }
-      } finally {
-        inFlight = false
-      }
-    }
-
-    function getPollIntervalMs(): number {
-      if (document.visibilityState === 'hidden') {
-        return POLL_INTERVAL_HIDDEN_MS
-      }
-      return POLL_INTERVAL_VISIBLE_MS
-    }
-
-    let fallbackTimer = window.setInterval(() => {
-      void pollLiveSession()
-    }, getPollIntervalMs())
-
-    function restartFallbackTimer() {
-      window.clearInterval(fallbackTimer)
-      fallbackTimer = window.setInterval(() => {
-        void pollLiveSession()
-      }, getPollIntervalMs())
-    }
-
-    function handleVisibilityChange() {
-      restartFallbackTimer()
-      if (document.visibilityState === 'visible') {
-        void pollLiveSession()
-      }
-    }
-
-    document.addEventListener('visibilitychange', handleVisibilityChange)
-
-    const channel = supabase
-      .channel(`live:${slug}:${activeCallId}:${Date.now()}`)
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'live_calls',
-          filter: `call_sid=eq.${activeCallId}`,
-        },
-        (payload) => {
-          const row = asRecord(payload.new)
-          if (!row) return
-
-          applyLiveCallRow(row)
-        },
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'live_transcript_chunks',
-          filter: `call_sid=eq.${activeCallId}`,
-        },
-        (payload) => {
-          const row = asRecord(payload.new)
-          if (!row) return
-
-          applyTranscriptRow(row)
-        },
-      )
-      .subscribe((status) => {
-        if (status === 'SUBSCRIBED') {
-          setCaseNote((previous) => (previous === RECONNECT_NOTE ? '' : previous))
-          return
-        }
-      })
-
-    void pollLiveSession()
-
-    return () => {
-      cancelled = true
-      window.clearInterval(fallbackTimer)
-      document.removeEventListener('visibilitychange', handleVisibilityChange)
-      void supabase.removeChannel(channel)
-    }
-  }, [callId, slug, storageKey, supabase])
-
-  useEffect(() => {
-    const viewport = transcriptViewportRef.current
-    if (!viewport) return
-
-    const updateAutoFollow = () => {
-      const distanceFromBottom = viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight
-      shouldAutoFollowTranscriptRef.current = distanceFromBottom <= AUTO_SCROLL_BOTTOM_THRESHOLD_PX
-    }
-
-    updateAutoFollow()
-    viewport.addEventListener('scroll', updateAutoFollow, { passive: true })
-
-    return () => {
-      viewport.removeEventListener('scroll', updateAutoFollow)
-    }
-  }, [panelState, callId])
-
-  useEffect(() => {
-    if (transcript.length === 0) return
-    const viewport = transcriptViewportRef.current
-    if (!viewport) return
-
-    if (!shouldAutoFollowTranscriptRef.current && transcript.length > 1) {
-      return
-    }
-
-    viewport.scrollTo({
-      top: viewport.scrollHeight,
-      behavior: prefersReducedMotion ? 'auto' : 'smooth',
-    })
-  }, [prefersReducedMotion, transcript])
-
-  const riskTheme = useMemo(() => {
-    if (advice.riskLevel === 'high') {
-      return {
-        card: 'border-destructive/40 bg-destructive/10',
-        label: 'text-destructive',
-        meter: 'bg-destructive',
-        Icon: ShieldAlert,
-      }
-    }
-
-    if (advice.riskLevel === 'medium') {
-      return {
-        card: 'border-amber-500/40 bg-amber-500/10',
-        label: 'text-amber-500',
-        meter: 'bg-amber-500',
-        Icon: ShieldQuestion,
-      }
-    }
-
-    return {
-      card: 'border-emerald-500/40 bg-emerald-500/10',
-      label: 'text-emerald-500',
-      meter: 'bg-emerald-500',
-      Icon: ShieldCheck,
-    }
-  }, [advice.riskLevel])
-
   async function handleStartMonitor() {
+    resetLiveSession()
     setPanelState('starting')
     setError('')
     setCaseNote('Calling your saved number...')
-    setHasLiveAdvice(false)
 
     try {
       const res = await fetch('/api/call', {
@@ -818,18 +259,23 @@ export function CasePanel({
 
       const data = await res.json()
 
-      if (!res.ok || !data.ok || !data.callId) {
+      if (!res.ok || !data.ok || !data.callId || !data.viewerToken) {
         setPanelState('error')
         setError(data.error || 'Unable to start monitor session. Try again.')
         return
       }
 
-      const nextCallId = String(data.callId)
-      setCallId(nextCallId)
+      const nextSession: StoredLiveSession = {
+        callId: String(data.callId),
+        viewerToken: String(data.viewerToken),
+        viewerTokenExpiresAt: Number(data.viewerTokenExpiresAt),
+      }
+      setCallId(nextSession.callId)
+      setViewerToken(nextSession.viewerToken)
       setCallStatus(typeof data.status === 'string' ? data.status : 'queued')
       setPanelState('live')
       setCaseNote('Answer the incoming call. We listen silently and coach you on this screen.')
-      window.sessionStorage.setItem(storageKey, nextCallId)
+      window.sessionStorage.setItem(storageKey, JSON.stringify(nextSession))
     } catch {
       setPanelState('error')
       setError('Connection failed. Check your network and try again.')
@@ -839,16 +285,9 @@ export function CasePanel({
   function resetSession() {
     setPanelState('idle')
     setCallId(null)
-    setCallStatus('queued')
-    setAssistantMuted(false)
-    setAnalyzing(false)
-    setCaseNote('')
+    setViewerToken(null)
     setError('')
-    setLastUpdated(null)
-    setAdvice(createDefaultAdvice())
-    setHasLiveAdvice(false)
-    setRawTranscript([])
-    shouldAutoFollowTranscriptRef.current = true
+    resetLiveSession()
     window.sessionStorage.removeItem(storageKey)
   }
 
@@ -955,106 +394,46 @@ export function CasePanel({
             </section>
           )}
 
-          <section className="rounded-2xl border border-primary/40 bg-primary/10 px-4 py-4">
-            <h2 className="font-sans text-lg font-semibold text-foreground">What to do now</h2>
-            <ol className="mt-3 flex list-none flex-col gap-2">
-              {actionItems.map((item, index) => (
-                <li
-                  key={`${item}-${index}`}
-                  className={`flex items-start gap-3 rounded-xl border px-3 py-3 ${
-                    index === 0
-                      ? 'border-primary/50 bg-primary/15'
-                      : 'border-border/80 bg-card/60'
-                  }`}
-                >
-                  <span
-                    className={`mt-0.5 flex h-7 w-7 shrink-0 items-center justify-center rounded-full font-sans text-sm font-semibold ${
-                      index === 0
-                        ? 'bg-primary text-primary-foreground'
-                        : 'bg-secondary text-foreground'
-                    }`}
-                  >
-                    {index + 1}
-                  </span>
-                  <p
-                    className={`font-sans leading-relaxed ${
-                      index === 0 ? 'text-lg text-foreground' : 'text-base text-muted-foreground'
-                    }`}
-                  >
-                    {item}
-                  </p>
-                </li>
-              ))}
-            </ol>
-          </section>
-
-          <section className="rounded-2xl border border-border bg-card px-3 py-3">
-            <h2 className="px-1 font-sans text-lg font-semibold text-foreground">Live transcript</h2>
-            <p className="mt-1 px-1 font-sans text-sm text-muted-foreground">New lines will appear automatically.</p>
-            <div
-              ref={transcriptViewportRef}
-              role="log"
-              aria-live="polite"
-              aria-relevant="additions text"
-              aria-atomic="false"
-              aria-label="Live call transcript"
-              tabIndex={0}
-              className="mt-3 flex h-[44dvh] min-h-[280px] flex-col gap-2 overflow-y-auto px-1 pb-1"
-            >
-              {transcript.length === 0 && (
-                <p className="mt-2 text-center font-sans text-base text-muted-foreground">
-                  Waiting for live transcript.
-                </p>
+          <LiveActionItems heading="What to do now" items={actionItems} />
+
+          {callConnected && callId && escalationContacts.length > 0 && (
+            <CallEscalationSection
+              slug={slug}
+              callId={callId}
+              heading="Bring someone in"
+              description="We call them and add them to this call. Both sides can hear them."
+              escalation={escalation}
+              options={escalationContacts.map((contact) => ({
+                contactId: contact.id,
+                label: `Add ${contact.name} to the call`,
+              }))}
+              statusMessage={describeEscalation(
+                escalation,
+                escalationContacts.find((contact) => contact.id === escalation?.contactId)?.name ??
+                  'your contact',
               )}
-              {transcript.map((line) => (
-                <article
-                  key={line.id}
-                  aria-label={`${formatSpeakerLabel(line.speaker)} said`}
-                  className={`mx-auto w-fit max-w-[95%] rounded-2xl border px-4 py-3 transition-colors duration-150 ${
-                    line.isFinal
-                      ? 'border-border/70 bg-secondary/80'
-                      : 'border-primary/30 bg-primary/5'
-                  }`}
-                >
-                  <p
-                    className={`font-sans text-[17px] leading-relaxed whitespace-pre-wrap break-words ${
-                      line.isFinal ? 'text-foreground' : 'italic text-foreground/90'
-                    }`}
-                  >
-                    {line.text}
-                  </p>
-                </article>
-              ))}
-            </div>
-          </section>
+            />
+          )}
 
-          <section className={`rounded-2xl border px-4 py-4 ${riskTheme.card}`}>
-            <div className="flex items-center justify-between">
-              <h2 className="font-sans text-lg font-semibold text-foreground">Scam probability</h2>
-              <riskTheme.Icon aria-hidden="true" className={`h-5 w-5 ${riskTheme.label}`} />
-            </div>
-            <div className="mt-2 flex items-end justify-between gap-3">
-              <p className={`font-sans text-4xl font-semibold ${riskTheme.label}`}>{advice.riskScore}%</p>
-              <p className="font-sans text-base font-medium text-foreground">{advice.riskLevel} risk</p>
-            </div>
-            <div
-              className="mt-3 h-2 w-full rounded-full bg-background/70"
-              role="progressbar"
-              aria-label="Scam probability"
-              aria-valuemin={0}
-              aria-valuemax={100}
-              aria-valuenow={advice.riskScore}
+          <LiveTranscript lines={rawTranscript} evidence={advice.evidence ?? []} callerLabel="You" />
+
+          <LiveRiskMeter advice={advice} />
+
+          {panelState === 'ended' && summary && <PostCallSummaryCard summary={summary} />}
+
+          {panelState === 'ended' && callId && (
+            <Button
+              asChild
+              size="lg"
+              style={{ minHeight: PRIMARY_TAP_TARGET, fontSize: BASE_TEXT_SIZE }}
+              className="bg-primary font-sans font-semibold text-primary-foreground hover:bg-primary/90"
             >
-              <div
-                className={`h-2 rounded-full transition-[width] duration-700 ease-out ${riskTheme.meter}`}
-                style={{ width: `${advice.riskScore}%` }}
-              />
-            </div>
-            <p className="mt-2 font-sans text-base text-muted-foreground">
-              Scam probability {advice.riskScore} percent, {advice.riskLevel} risk.
-            </p>
-            <p className="mt-3 font-sans text-base leading-relaxed text-foreground">{advice.feedback}</p>
-          </section>
+              <Link href={`/t/${slug}/cases/${encodeURIComponent(callId)}`}>
+                <FileText className="mr-2 h-5 w-5" />
+                View case report
+              </Link>
+            </Button>
+          )}
 
           <Button
             onClick={resetSession}
@@ -1095,13 +474,29 @@ export function CasePanel({
         </section>
       )}
 
-      <Link
-        href={`/t/${slug}/setup`}
-        style={{ minHeight: PRIMARY_TAP_TARGET, fontSize: SECONDARY_TEXT_SIZE }}
-        className="self-center rounded-md px-3 py-3 font-sans font-semibold text-muted-foreground underline-offset-4 transition-colors hover:text-foreground hover:underline"
-      >
-        Change number
-      </Link>
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <Link
+          href={`/t/${slug}/cases`}
+          style={{ minHeight: PRIMARY_TAP_TARGET, fontSize: SECONDARY_TEXT_SIZE }}
+          className="rounded-md px-3 py-3 font-sans font-semibold text-muted-foreground underline-offset-4 transition-colors hover:text-foreground hover:underline"
+        >
+          Case history
+        </Link>
+        <Link
+          href={`/t/${slug}/contacts`}
+          style={{ minHeight: PRIMARY_TAP_TARGET, fontSize: SECONDARY_TEXT_SIZE }}
+          className="rounded-md px-3 py-3 font-sans font-semibold text-muted-foreground underline-offset-4 transition-colors hover:text-foreground hover:underline"
+        >
+          Trusted contacts
+        </Link>
+        <Link
+          href={`/t/${slug}/setup`}
+          style={{ minHeight: PRIMARY_TAP_TARGET, fontSize: SECONDARY_TEXT_SIZE }}
+          className="rounded-md px-3 py-3 font-sans font-semibold text-muted-foreground underline-offset-4 transition-colors hover:text-foreground hover:underline"
+        >
+          Change number
+        </Link>
+      </div>
     </section>
   )
 }
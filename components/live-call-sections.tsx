@@ -0,0 +1,607 @@
+'use client'
+
+import { type ReactNode, useEffect, useMemo, useRef, useState } from 'react'
+import { Loader2, ShieldAlert, ShieldCheck, ShieldQuestion, UserPlus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  MAX_TRANSCRIPT_LINES,
+  type LiveAdvice,
+  type LiveEscalation,
+  type LiveEvidence,
+  type TranscriptLine,
+} from '@/hooks/use-live-session'
+import { usePrefersReducedMotion } from '@/hooks/use-prefers-reduced-motion'
+import { MIN_TAP_TARGET, SECONDARY_TEXT_SIZE } from '@/lib/a11y'
+import { SCAM_SCRIPT_STAGES, SCAM_SCRIPT_STAGE_LABELS, isScamScriptStage } from '@/lib/scam-sequence'
+import { getScamTypeLabel, toScamType } from '@/lib/scam-types'
+import { mergeIncrementalTranscriptText, normalizeTranscriptText } from '@/lib/transcript-merge'
+
+type HighlightRange = {
+  start: number
+  end: number
+}
+
+const UTTERANCE_GAP_MS = 1_400
+const MAX_SENTENCES_PER_BUBBLE = 3
+const MAX_BUBBLE_CHARS = 280
+const AUTO_SCROLL_BOTTOM_THRESHOLD_PX = 72
+const WAITING_ACTIONS_CONNECTING = [
+  'Waiting for live audio to connect.',
+  'Sit tight and relax. We will coach you as soon as speech starts.',
+  'Keep responses short and calm while we listen.',
+]
+const WAITING_ACTIONS_LISTENING = [
+  'Listening now and building guidance from the conversation.',
+  'Stay calm and avoid sharing personal info, codes, or payments.',
+  'Your next live action will appear here in a moment.',
+]
+
+export function formatStatusLabel(status: string): string {
+  const normalized = status.toLowerCase()
+
+  if (normalized.includes('queue')) return 'Queueing call'
+  if (normalized.includes('ring')) return 'Ringing'
+  if (normalized.includes('in-progress') || normalized.includes('active')) return 'Live'
+  if (normalized.includes('end') || normalized.includes('complete')) return 'Call ended'
+  if (normalized.includes('fail') || normalized.includes('error') || normalized.includes('busy')) {
+    return 'Call failed'
+  }
+
+  return 'Connecting'
+}
+
+export function isConnectedStatus(status: string): boolean {
+  const normalized = status.toLowerCase()
+  return (
+    normalized.includes('in-progress') ||
+    normalized.includes('in progress') ||
+    normalized.includes('active') ||
+    normalized.includes('answer')
+  )
+}
+
+export function formatTime(timestamp: number | null): string {
+  if (!timestamp) return '--'
+  return new Date(timestamp).toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+function countSentenceBoundaries(text: string): number {
+  const matches = text.match(/[.!?]+(?=(?:["')\]]|\s|$))/g)
+  return matches?.length ?? 0
+}
+
+function endsWithSentenceBoundary(text: string): boolean {
+  const trimmed = text.trim()
+  if (!trimmed) return false
+  return /[.!?]["')\]]*$/.test(trimmed)
+}
+
+function hasLogicalBubbleBoundary(line: TranscriptLine): boolean {
+  const text = normalizeTranscriptText(line.text)
+  if (!text) return false
+
+  if (text.length >= MAX_BUBBLE_CHARS) {
+    return true
+  }
+
+  const sentenceCount = countSentenceBoundaries(text)
+  if (sentenceCount >= MAX_SENTENCES_PER_BUBBLE) {
+    return true
+  }
+
+  return endsWithSentenceBoundary(text)
+}
+
+function shouldStartNewUtterance(previous: TranscriptLine, next: TranscriptLine): boolean {
+  if (previous.speaker !== next.speaker) {
+    return true
+  }
+
+  const gapMs = next.timestamp - previous.timestamp
+  if (gapMs > UTTERANCE_GAP_MS) {
+    return true
+  }
+
+  if (!previous.isFinal) {
+    return false
+  }
+
+  return hasLogicalBubbleBoundary(previous)
+}
+
+function compactTranscriptForDisplay(lines: TranscriptLine[]): TranscriptLine[] {
+  if (lines.length === 0) {
+    return []
+  }
+
+  const ordered = lines.slice().sort((a, b) => {
+    if (a.timestamp !== b.timestamp) {
+      return a.timestamp - b.timestamp
+    }
+
+    const aNum = Number(a.id)
+    const bNum = Number(b.id)
+    if (Number.isFinite(aNum) && Number.isFinite(bNum)) {
+      return aNum - bNum
+    }
+
+    return a.id.localeCompare(b.id)
+  })
+
+  const compacted: TranscriptLine[] = []
+
+  for (const entry of ordered) {
+    const normalizedText = normalizeTranscriptText(entry.text)
+    if (!normalizedText) {
+      continue
+    }
+
+    const nextEntry: TranscriptLine = {
+      ...entry,
+      text: normalizedText,
+      sourceIds: [entry.id],
+    }
+
+    const previous = compacted[compacted.length - 1]
+    if (!previous || shouldStartNewUtterance(previous, nextEntry)) {
+      compacted.push(nextEntry)
+      continue
+    }
+
+    compacted[compacted.length - 1] = {
+      ...previous,
+      text: mergeIncrementalTranscriptText(previous.text, nextEntry.text, {
+        isFinal: nextEntry.isFinal,
+      }),
+      timestamp: Math.max(previous.timestamp, nextEntry.timestamp),
+      isFinal: previous.isFinal || nextEntry.isFinal,
+      sourceIds: [...(previous.sourceIds ?? [previous.id]), entry.id],
+    }
+  }
+
+  if (compacted.length <= MAX_TRANSCRIPT_LINES) {
+    return compacted
+  }
+
+  return compacted.slice(-MAX_TRANSCRIPT_LINES)
+}
+
+function findEvidenceRanges(line: TranscriptLine, evidence: LiveEvidence[]): HighlightRange[] {
+  const chunkIds = new Set(line.sourceIds ?? [line.id])
+  const lowered = line.text.toLowerCase()
+  const ranges: HighlightRange[] = []
+
+  for (const item of evidence) {
+    if (!chunkIds.has(item.chunkId) || item.weight <= 0) continue
+
+    // Bubbles merge several chunks, so locate the phrase rather than trusting chunk offsets.
+    const phrase = normalizeTranscriptText(item.text).toLowerCase()
+    if (!phrase) continue
+
+    const start = lowered.indexOf(phrase)
+    if (start < 0) continue
+
+    ranges.push({ start, end: start + phrase.length })
+  }
+
+  ranges.sort((a, b) => a.start - b.start)
+
+  const merged: HighlightRange[] = []
+  for (const range of ranges) {
+    const previous = merged[merged.length - 1]
+    if (previous && range.start <= previous.end) {
+      previous.end = Math.max(previous.end, range.end)
+      continue
+    }
+    merged.push({ ...range })
+  }
+
+  return merged
+}
+
+function renderHighlightedText(text: string, ranges: HighlightRange[]): ReactNode {
+  if (ranges.length === 0) {
+    return text
+  }
+
+  const parts: ReactNode[] = []
+  let cursor = 0
+
+  for (const range of ranges) {
+    if (range.start > cursor) {
+      parts.push(text.slice(cursor, range.start))
+    }
+
+    parts.push(
+      <mark
+        key={`${range.start}-${range.end}`}
+        title="This phrase raised the scam probability"
+        className="rounded-sm bg-destructive/20 px-0.5 text-foreground"
+      >
+        {text.slice(range.start, range.end)}
+      </mark>,
+    )
+    cursor = range.end
+  }
+
+  if (cursor < text.length) {
+    parts.push(text.slice(cursor))
+  }
+
+  return parts
+}
+
+function normalizeActionItems(advice: LiveAdvice): string[] {
+  const values = [advice.whatToDo, ...advice.nextSteps]
+  const deduped: string[] = []
+  const seen = new Set<string>()
+
+  for (const value of values) {
+    const trimmed = value.trim()
+    if (!trimmed) continue
+    const key = trimmed.toLowerCase()
+    if (seen.has(key)) continue
+    seen.add(key)
+    deduped.push(trimmed)
+  }
+
+  if (deduped.length > 0) {
+    return deduped.slice(0, 3)
+  }
+
+  return ['Waiting for the next coaching update.']
+}
+
+function getWaitingActionItems(params: { callConnected: boolean; analyzing: boolean }): string[] {
+  const { callConnected, analyzing } = params
+  if (!callConnected) {
+    return WAITING_ACTIONS_CONNECTING
+  }
+
+  if (analyzing) {
+    return WAITING_ACTIONS_LISTENING
+  }
+
+  return [
+    'Listening for the next clear segment.',
+    'You can keep talking normally.',
+    'Live actions will update automatically.',
+  ]
+}
+
+/** Up to three steps from the latest advice, or holding steps until advice arrives. */
+export function getLiveActionItems(params: {
+  advice: LiveAdvice
+  hasLiveAdvice: boolean
+  callConnected: boolean
+  analyzing: boolean
+}): string[] {
+  if (params.hasLiveAdvice) {
+    return normalizeActionItems(params.advice)
+  }
+
+  return getWaitingActionItems(params)
+}
+
+export function LiveActionItems({ heading, items }: { heading: string; items: string[] }) {
+  return (
+    <section className="rounded-2xl border border-primary/40 bg-primary/10 px-4 py-4">
+      <h2 className="font-sans text-lg font-semibold text-foreground">{heading}</h2>
+      <ol className="mt-3 flex list-none flex-col gap-2">
+        {items.map((item, index) => (
+          <li
+            key={`${item}-${index}`}
+            className={`flex items-start gap-3 rounded-xl border px-3 py-3 ${
+              index === 0
+                ? 'border-primary/50 bg-primary/15'
+                : 'border-border/80 bg-card/60'
+            }`}
+          >
+            <span
+              className={`mt-0.5 flex h-7 w-7 shrink-0 items-center justify-center rounded-full font-sans text-sm font-semibold ${
+                index === 0
+                  ? 'bg-primary text-primary-foreground'
+                  : 'bg-secondary text-foreground'
+              }`}
+            >
+              {index + 1}
+            </span>
+            <p
+              className={`font-sans leading-relaxed ${
+                index === 0 ? 'text-lg text-foreground' : 'text-base text-muted-foreground'
+              }`}
+            >
+              {item}
+            </p>
+          </li>
+        ))}
+      </ol>
+    </section>
+  )
+}
+
+/**
+ * The live transcript as chat bubbles. Follows new lines unless the reader
+ * has scrolled up to look at something earlier.
+ */
+export function LiveTranscript({
+  lines,
+  evidence,
+  callerLabel,
+}: {
+  lines: TranscriptLine[]
+  evidence: LiveEvidence[]
+  // How the protected person is named to screen readers ("You" on their own screen).
+  callerLabel: string
+}) {
+  const transcript = useMemo(() => compactTranscriptForDisplay(lines), [lines])
+  const viewportRef = useRef<HTMLDivElement | null>(null)
+  const shouldAutoFollowRef = useRef(true)
+  const prefersReducedMotion = usePrefersReducedMotion()
+
+  useEffect(() => {
+    const viewport = viewportRef.current
+    if (!viewport) return
+
+    const updateAutoFollow = () => {
+      const distanceFromBottom = viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight
+      shouldAutoFollowRef.current = distanceFromBottom <= AUTO_SCROLL_BOTTOM_THRESHOLD_PX
+    }
+
+    updateAutoFollow()
+    viewport.addEventListener('scroll', updateAutoFollow, { passive: true })
+
+    return () => {
+      viewport.removeEventListener('scroll', updateAutoFollow)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (transcript.length === 0) return
+    const viewport = viewportRef.current
+    if (!viewport) return
+
+    if (!shouldAutoFollowRef.current && transcript.length > 1) {
+      return
+    }
+
+    viewport.scrollTo({
+      top: viewport.scrollHeight,
+      behavior: prefersReducedMotion ? 'auto' : 'smooth',
+    })
+  }, [prefersReducedMotion, transcript])
+
+  function formatSpeakerLabel(speaker: TranscriptLine['speaker']): string {
+    if (speaker === 'caller') return callerLabel
+    if (speaker === 'other') return 'Other caller'
+    if (speaker === 'assistant') return 'Assistant'
+    return 'Unknown speaker'
+  }
+
+  return (
+    <section className="rounded-2xl border border-border bg-card px-3 py-3">
+      <h2 className="px-1 font-sans text-lg font-semibold text-foreground">Live transcript</h2>
+      <p className="mt-1 px-1 font-sans text-sm text-muted-foreground">New lines will appear automatically.</p>
+      <div
+        ref={viewportRef}
+        role="log"
+        aria-live="polite"
+        aria-relevant="additions text"
+        aria-atomic="false"
+        aria-label="Live call transcript"
+        tabIndex={0}
+        className="mt-3 flex h-[44dvh] min-h-[280px] flex-col gap-2 overflow-y-auto px-1 pb-1"
+      >
+        {transcript.length === 0 && (
+          <p className="mt-2 text-center font-sans text-base text-muted-foreground">
+            Waiting for live transcript.
+          </p>
+        )}
+        {transcript.map((line) => (
+          <article
+            key={line.id}
+            aria-label={`${formatSpeakerLabel(line.speaker)} said`}
+            className={`mx-auto w-fit max-w-[95%] rounded-2xl border px-4 py-3 transition-colors duration-150 ${
+              line.isFinal
+                ? 'border-border/70 bg-secondary/80'
+                : 'border-primary/30 bg-primary/5'
+            }`}
+          >
+            <p
+              className={`font-sans text-[17px] leading-relaxed whitespace-pre-wrap break-words ${
+                line.isFinal ? 'text-foreground' : 'italic text-foreground/90'
+              }`}
+            >
+              {renderHighlightedText(line.text, findEvidenceRanges(line, evidence))}
+            </p>
+          </article>
+        ))}
+      </div>
+    </section>
+  )
+}
+
+export function LiveRiskMeter({ advice }: { advice: LiveAdvice }) {
+  const scamTypeLabel = getScamTypeLabel(toScamType(advice.scamType))
+  const scriptStage = isScamScriptStage(advice.scriptStage) ? advice.scriptStage : null
+  const riskTheme = useMemo(() => {
+    if (advice.riskLevel === 'high') {
+      return {
+        card: 'border-destructive/40 bg-destructive/10',
+        label: 'text-destructive',
+        meter: 'bg-destructive',
+        Icon: ShieldAlert,
+      }
+    }
+
+    if (advice.riskLevel === 'medium') {
+      return {
+        card: 'border-amber-500/40 bg-amber-500/10',
+        label: 'text-amber-500',
+        meter: 'bg-amber-500',
+        Icon: ShieldQuestion,
+      }
+    }
+
+    return {
+      card: 'border-emerald-500/40 bg-emerald-500/10',
+      label: 'text-emerald-500',
+      meter: 'bg-emerald-500',
+      Icon: ShieldCheck,
+    }
+  }, [advice.riskLevel])
+
+  return (
+    <section className={`rounded-2xl border px-4 py-4 ${riskTheme.card}`}>
+      <div className="flex items-center justify-between">
+        <h2 className="font-sans text-lg font-semibold text-foreground">Scam probability</h2>
+        <riskTheme.Icon aria-hidden="true" className={`h-5 w-5 ${riskTheme.label}`} />
+      </div>
+      <div className="mt-2 flex items-end justify-between gap-3">
+        <p className={`font-sans text-4xl font-semibold ${riskTheme.label}`}>{advice.riskScore}%</p>
+        <p className="font-sans text-base font-medium text-foreground">{advice.riskLevel} risk</p>
+      </div>
+      <div
+        className="mt-3 h-2 w-full rounded-full bg-background/70"
+        role="progressbar"
+        aria-label="Scam probability"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={advice.riskScore}
+      >
+        <div
+          className={`h-2 rounded-full transition-[width] duration-700 ease-out ${riskTheme.meter}`}
+          style={{ width: `${advice.riskScore}%` }}
+        />
+      </div>
+      <p className="mt-2 font-sans text-base text-muted-foreground">
+        Scam probability {advice.riskScore} percent, {advice.riskLevel} risk.
+      </p>
+      {scamTypeLabel && (
+        <p className="mt-2 font-sans text-base font-semibold text-foreground">
+          Looks like: {scamTypeLabel} scam
+        </p>
+      )}
+      {scriptStage && (
+        <p className="mt-1 font-sans text-base text-muted-foreground">
+          Scam script step {SCAM_SCRIPT_STAGES.indexOf(scriptStage) + 1} of {SCAM_SCRIPT_STAGES.length}:{' '}
+          {SCAM_SCRIPT_STAGE_LABELS[scriptStage]}
+        </p>
+      )}
+      <p className="mt-3 font-sans text-base leading-relaxed text-foreground">{advice.feedback}</p>
+    </section>
+  )
+}
+
+/**
+ * Where bringing a contact into the call stands. Pass `null` as the name
+ * when the person reading is the one being dialed in.
+ */
+export function describeEscalation(escalation: LiveEscalation | null, name: string | null): string {
+  if (!escalation) return ''
+
+  // Names open most sentences below; fallbacks like "your contact" are lowercase.
+  const subject = name ? name.charAt(0).toUpperCase() + name.slice(1) : null
+
+  switch (escalation.status) {
+    case 'dialing':
+      return name ? `Calling ${name}. They join the call when they answer.` : 'Calling your phone. Answer it to join.'
+    case 'joined':
+      return subject ? `${subject} is on the call. Both sides can hear them.` : 'You are on the call. Both sides can hear you.'
+    case 'ended':
+      return subject ? `${subject} has left the call.` : 'You have left the call.'
+    case 'failed':
+      return name ? `Could not reach ${name}.` : 'Could not connect your phone to the call.'
+  }
+}
+
+export function isEscalationActive(escalation: LiveEscalation | null): boolean {
+  return escalation?.status === 'dialing' || escalation?.status === 'joined'
+}
+
+/**
+ * Buttons that bring a trusted contact into the live call through the
+ * conference bridge, plus where that stands. A `null` contact id lets the
+ * server pick (a caregiver can only bring in themselves).
+ */
+export function CallEscalationSection({
+  slug,
+  callId,
+  heading,
+  description,
+  escalation,
+  options,
+  statusMessage,
+}: {
+  slug: string
+  callId: string
+  heading: string
+  description: string
+  escalation: LiveEscalation | null
+  options: { contactId: string | null; label: string }[]
+  statusMessage: string
+}) {
+  const [busyContactId, setBusyContactId] = useState<string | null | undefined>(undefined)
+  const [error, setError] = useState('')
+  const busy = busyContactId !== undefined
+
+  async function handleEscalate(contactId: string | null) {
+    setBusyContactId(contactId)
+    setError('')
+
+    try {
+      const res = await fetch('/api/call/escalate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ slug, callId, ...(contactId ? { contactId } : {}) }),
+      })
+      const data = await res.json()
+
+      if (!res.ok || !data.ok) {
+        setError(data.error || 'Could not connect them to the call. Please try again.')
+      }
+    } catch {
+      setError('Connection failed. Check your network and try again.')
+    } finally {
+      setBusyContactId(undefined)
+    }
+  }
+
+  return (
+    <section className="rounded-2xl border border-border bg-card/80 px-4 py-4">
+      <h2 className="font-sans text-lg font-semibold text-foreground">{heading}</h2>
+      <p className="mt-1 font-sans text-base text-muted-foreground">{description}</p>
+      <div className="mt-3 flex flex-col gap-2">
+        {options.map((option) => (
+          <Button
+            key={option.contactId ?? 'self'}
+            type="button"
+            variant="outline"
+            disabled={busy || isEscalationActive(escalation)}
+            onClick={() => void handleEscalate(option.contactId)}
+            style={{ minHeight: MIN_TAP_TARGET, fontSize: SECONDARY_TEXT_SIZE }}
+            className="font-sans font-semibold"
+          >
+            {busyContactId === option.contactId ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <UserPlus className="mr-2 h-4 w-4" />
+            )}
+            {option.label}
+          </Button>
+        ))}
+      </div>
+      <p role="status" aria-live="polite" className="mt-2 font-sans text-base text-foreground empty:hidden">
+        {statusMessage}
+      </p>
+      {error && (
+        <div role="alert" className="mt-2 rounded-lg border border-destructive/30 bg-destructive/5 px-3 py-2">
+          <p className="font-sans text-base text-destructive">{error}</p>
+        </div>
+      )}
+    </section>
+  )
+}
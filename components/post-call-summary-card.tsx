@@ -0,0 +1,61 @@
+import { CALL_VERDICT_LABELS, CallVerdict, PostCallSummary } from '@/lib/live-types'
+
+const VERDICT_STYLES: Record<CallVerdict, { card: string; label: string }> = {
+  'likely-scam': { card: 'border-destructive/40 bg-destructive/10', label: 'text-destructive' },
+  suspicious: { card: 'border-amber-500/40 bg-amber-500/10', label: 'text-amber-500' },
+  'no-scam-detected': { card: 'border-emerald-500/40 bg-emerald-500/10', label: 'text-emerald-500' },
+}
+
+export function PostCallSummaryCard({ summary }: { summary: PostCallSummary }) {
+  const theme = VERDICT_STYLES[summary.verdict]
+
+  return (
+    <div className="flex flex-col gap-3">
+      <section className={`rounded-2xl border px-4 py-4 ${theme.card}`}>
+        <h2 className="font-sans text-lg font-semibold text-foreground">What happened</h2>
+        <p className={`mt-2 font-sans text-xl font-semibold ${theme.label}`}>{CALL_VERDICT_LABELS[summary.verdict]}</p>
+        <p className="mt-1 font-sans text-lg leading-relaxed text-foreground">{summary.verdictReason}</p>
+        {summary.claimedIdentity && (
+          <p className="mt-3 font-sans text-base text-foreground">
+            <span className="font-semibold">They claimed to be:</span> {summary.claimedIdentity}
+          </p>
+        )}
+        {summary.requests.length > 0 && (
+          <div className="mt-3">
+            <h3 className="font-sans text-base font-semibold text-foreground">They asked for</h3>
+            <ul className="mt-1 flex list-disc flex-col gap-1 pl-6">
+              {summary.requests.map((request) => (
+                <li key={request} className="font-sans text-base text-foreground">
+                  {request}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {summary.disclosures.length > 0 && (
+          <div className="mt-3">
+            <h3 className="font-sans text-base font-semibold text-foreground">What you shared</h3>
+            <ul className="mt-1 flex list-disc flex-col gap-1 pl-6">
+              {summary.disclosures.map((disclosure) => (
+                <li key={disclosure} className="font-sans text-base text-foreground">
+                  {disclosure}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </section>
+
+      <section className="rounded-2xl border border-primary/40 bg-primary/10 px-4 py-4">
+        <h2 className="font-sans text-lg font-semibold text-foreground">What to do next</h2>
+        <ol className="mt-3 flex list-decimal flex-col gap-2 pl-6">
+          {summary.recoverySteps.map((step) => (
+            <li key={step} className="font-sans text-base leading-relaxed text-foreground">
+              {step}
+            </li>
+          ))}
+        </ol>
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,97 @@
+'use client'
+
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceDot,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+
+export type RiskTimelinePoint = {
+  elapsedMs: number
+  riskScore: number
+  rawRiskScore: number | null
+}
+
+const MEDIUM_RISK_THRESHOLD = 40
+const HIGH_RISK_THRESHOLD = 70
+
+function formatElapsed(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000))
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${String(seconds).padStart(2, '0')}`
+}
+
+export function RiskTimelineChart({
+  points,
+  peak,
+}: {
+  points: RiskTimelinePoint[]
+  peak: { elapsedMs: number; riskScore: number } | null
+}) {
+  if (points.length === 0) {
+    return (
+      <p className="font-sans text-base text-muted-foreground">
+        No risk history was recorded for this call.
+      </p>
+    )
+  }
+
+  return (
+    <figure className="flex flex-col gap-2">
+      <div className="h-56 w-full" aria-hidden="true">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={points} margin={{ top: 8, right: 12, bottom: 0, left: -20 }}>
+            <CartesianGrid stroke="var(--border)" strokeDasharray="3 3" />
+            <XAxis
+              dataKey="elapsedMs"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              tickFormatter={formatElapsed}
+              stroke="var(--muted-foreground)"
+              fontSize={12}
+            />
+            <YAxis domain={[0, 100]} ticks={[0, 40, 70, 100]} stroke="var(--muted-foreground)" fontSize={12} />
+            <ReferenceLine y={MEDIUM_RISK_THRESHOLD} stroke="var(--chart-4)" strokeDasharray="4 4" />
+            <ReferenceLine y={HIGH_RISK_THRESHOLD} stroke="var(--destructive)" strokeDasharray="4 4" />
+            <Tooltip
+              labelFormatter={(value) => `${formatElapsed(Number(value))} into the call`}
+              formatter={(value, name) => [value, name === 'riskScore' ? 'Shown score' : 'Raw score']}
+              contentStyle={{ background: 'var(--card)', border: '1px solid var(--border)', borderRadius: 8 }}
+            />
+            <Line
+              type="stepAfter"
+              dataKey="rawRiskScore"
+              stroke="var(--muted-foreground)"
+              strokeDasharray="4 3"
+              dot={false}
+              connectNulls
+              isAnimationActive={false}
+            />
+            <Line
+              type="monotone"
+              dataKey="riskScore"
+              stroke="var(--primary)"
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+            {peak && (
+              <ReferenceDot x={peak.elapsedMs} y={peak.riskScore} r={5} fill="var(--destructive)" stroke="none" />
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <figcaption className="font-sans text-sm text-muted-foreground">
+        Solid line: the score shown during the call. Dashed line: the raw score before smoothing.
+        {peak && ` Highest point: ${peak.riskScore}% at ${formatElapsed(peak.elapsedMs)}.`}
+      </figcaption>
+    </figure>
+  )
+}
@@ -3,12 +3,18 @@
 import { useId, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { normalizePhone } from '@/lib/phone'
+import type { MessageChannel } from '@/lib/message-sender'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Loader2 } from 'lucide-react'
 import { BASE_TEXT_SIZE, MIN_TAP_TARGET, PRIMARY_TAP_TARGET, SECONDARY_TEXT_SIZE } from '@/lib/a11y'
 
+type PendingNumber = {
+  maskedPhone: string
+  channel: MessageChannel
+}
+
 export function SetupForm({ slug }: { slug: string }) {
   const router = useRouter()
   const hintId = useId()
@@ -16,13 +22,15 @@ export function SetupForm({ slug }: { slug: string }) {
   const statusId = useId()
 
   const [phone, setPhone] = useState('')
+  const [code, setCode] = useState('')
+  const [pending, setPending] = useState<PendingNumber | null>(null)
   const [error, setError] = useState('')
   const [statusMessage, setStatusMessage] = useState('')
   const [saving, setSaving] = useState(false)
 
   const describedBy = error ? `${hintId} ${errorId}` : hintId
 
-  async function handleSave() {
+  async function handleSendCode(channel: MessageChannel) {
     setError('')
     setStatusMessage('')
     const result = normalizePhone(phone)
@@ -34,29 +42,68 @@ export function SetupForm({ slug }: { slug: string }) {
     }
 
     setSaving(true)
-    setStatusMessage('Saving your phone number.')
+    setStatusMessage(channel === 'voice' ? 'Calling you with a code.' : 'Texting you a code.')
 
     try {
       const res = await fetch('/api/tenant/phone', {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ slug, phoneNumber: result.number }),
+        body: JSON.stringify({ slug, phoneNumber: result.number, channel }),
       })
 
       const data = await res.json()
 
       if (!data.ok) {
-        setError(data.error || 'Failed to save. Please try again.')
-        setStatusMessage('Could not save your phone number.')
+        setError(data.error || 'Failed to send a code. Please try again.')
+        setStatusMessage('Could not send a code to your phone number.')
         setSaving(false)
         return
       }
 
-      setStatusMessage('Phone number saved. Opening your case.')
+      if (!data.verificationRequired) {
+        setStatusMessage('This number is already confirmed. Opening your case.')
+        router.push(`/t/${slug}`)
+        return
+      }
+
+      setPending({ maskedPhone: String(data.maskedPhone ?? result.number), channel })
+      setCode('')
+      setStatusMessage(`Code sent to ${data.maskedPhone ?? result.number}.`)
+      setSaving(false)
+    } catch {
+      setError('Connection failed. Check your network and try again.')
+      setStatusMessage('Connection failed while sending a code.')
+      setSaving(false)
+    }
+  }
+
+  async function handleVerify() {
+    setError('')
+    setSaving(true)
+    setStatusMessage('Checking your code.')
+
+    try {
+      const res = await fetch('/api/tenant/phone/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ slug, code }),
+      })
+
+      const data = await res.json()
+
+      if (!data.ok) {
+        setError(data.error || 'Failed to confirm. Please try again.')
+        setStatusMessage('Could not confirm your phone number.')
+        setSaving(false)
+        return
+      }
+
+      setStatusMessage('Phone number confirmed. Opening your case.')
       router.push(`/t/${slug}`)
+      router.refresh()
     } catch {
       setError('Connection failed. Check your network and try again.')
-      setStatusMessage('Connection failed while saving your phone number.')
+      setStatusMessage('Connection failed while confirming your phone number.')
       setSaving(false)
     }
   }
@@ -66,39 +113,72 @@ export function SetupForm({ slug }: { slug: string }) {
       aria-busy={saving}
       onSubmit={(e) => {
         e.preventDefault()
-        void handleSave()
+        void (pending ? handleVerify() : handleSendCode('sms'))
       }}
       className="flex w-full max-w-sm flex-col gap-6"
     >
       <p id={statusId} className="sr-only" role="status" aria-live="polite">
-        {saving ? 'Saving your phone number.' : statusMessage}
+        {statusMessage}
       </p>
 
-      <div className="flex flex-col gap-3">
-        <Label htmlFor="phone" className="font-mono text-base font-semibold tracking-wide text-foreground">
-          Your protected number
-        </Label>
-        <Input
-          id="phone"
-          type="tel"
-          autoComplete="tel"
-          inputMode="tel"
-          enterKeyHint="done"
-          placeholder="4155552671 or +14155552671"
-          value={phone}
-          aria-describedby={describedBy}
-          aria-invalid={Boolean(error)}
-          onChange={(e) => {
-            setPhone(e.target.value)
-            if (error) setError('')
-          }}
-          style={{ minHeight: MIN_TAP_TARGET, fontSize: BASE_TEXT_SIZE }}
-          className="border-border bg-secondary font-sans text-foreground placeholder:text-muted-foreground focus-visible:ring-primary"
-        />
-        <p id={hintId} className="font-sans text-base leading-relaxed text-muted-foreground">
-          This is the number we call to start silent monitoring. You can enter 4155552671, 14155552671, or +14155552671.
-        </p>
-      </div>
+      {pending ? (
+        <div className="flex flex-col gap-3">
+          <Label htmlFor="phone-code" className="font-mono text-base font-semibold tracking-wide text-foreground">
+            Code for {pending.maskedPhone}
+          </Label>
+          <Input
+            id="phone-code"
+            type="text"
+            autoComplete="one-time-code"
+            inputMode="numeric"
+            enterKeyHint="done"
+            maxLength={7}
+            placeholder="123456"
+            value={code}
+            aria-describedby={describedBy}
+            aria-invalid={Boolean(error)}
+            onChange={(e) => {
+              setCode(e.target.value)
+              if (error) setError('')
+            }}
+            style={{ minHeight: MIN_TAP_TARGET, fontSize: BASE_TEXT_SIZE }}
+            className="border-border bg-secondary font-sans text-foreground placeholder:text-muted-foreground focus-visible:ring-primary"
+          />
+          <p id={hintId} className="font-sans text-base leading-relaxed text-muted-foreground">
+            {pending.channel === 'voice'
+              ? 'We are calling that number to read out a 6-digit code.'
+              : 'We texted a 6-digit code to that number.'}{' '}
+            Enter it here to confirm the number is yours.
+          </p>
+        </div>
+      ) : (
+        <div className="flex flex-col gap-3">
+          <Label htmlFor="phone" className="font-mono text-base font-semibold tracking-wide text-foreground">
+            Your protected number
+          </Label>
+          <Input
+            id="phone"
+            type="tel"
+            autoComplete="tel"
+            inputMode="tel"
+            enterKeyHint="done"
+            placeholder="4155552671 or +14155552671"
+            value={phone}
+            aria-describedby={describedBy}
+            aria-invalid={Boolean(error)}
+            onChange={(e) => {
+              setPhone(e.target.value)
+              if (error) setError('')
+            }}
+            style={{ minHeight: MIN_TAP_TARGET, fontSize: BASE_TEXT_SIZE }}
+            className="border-border bg-secondary font-sans text-foreground placeholder:text-muted-foreground focus-visible:ring-primary"
+          />
+          <p id={hintId} className="font-sans text-base leading-relaxed text-muted-foreground">
+            This is the number we call to start silent monitoring. You can enter 4155552671, 14155552671, or +14155552671.
+            We send a code to it first to confirm it is yours.
+          </p>
+        </div>
+      )}
 
       {error && (
         <div
@@ -121,12 +201,42 @@ export function SetupForm({ slug }: { slug: string }) {
         {saving ? (
           <>
             <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-            Saving...
+            {pending ? 'Checking...' : 'Sending...'}
           </>
+        ) : pending ? (
+          'Confirm Number'
         ) : (
-          'Save Number'
+          'Text Me a Code'
         )}
       </Button>
+
+      {pending ? (
+        <Button
+          type="button"
+          variant="ghost"
+          disabled={saving}
+          onClick={() => {
+            setPending(null)
+            setCode('')
+            setError('')
+          }}
+          style={{ minHeight: PRIMARY_TAP_TARGET, fontSize: SECONDARY_TEXT_SIZE }}
+          className="w-full font-sans font-semibold text-muted-foreground hover:text-foreground"
+        >
+          Use a different number
+        </Button>
+      ) : (
+        <Button
+          type="button"
+          variant="ghost"
+          disabled={saving}
+          onClick={() => void handleSendCode('voice')}
+          style={{ minHeight: PRIMARY_TAP_TARGET, fontSize: SECONDARY_TEXT_SIZE }}
+          className="w-full font-sans font-semibold text-muted-foreground hover:text-foreground"
+        >
+          Landline? Call me with the code
+        </Button>
+      )}
     </form>
   )
 }
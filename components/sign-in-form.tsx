@@ -0,0 +1,181 @@
+'use client'
+
+import { useId, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import type { MessageChannel } from '@/lib/message-sender'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Loader2 } from 'lucide-react'
+import { BASE_TEXT_SIZE, MIN_TAP_TARGET, PRIMARY_TAP_TARGET, SECONDARY_TEXT_SIZE } from '@/lib/a11y'
+
+export function SignInForm({ slug, maskedPhone }: { slug: string; maskedPhone: string }) {
+  const router = useRouter()
+  const hintId = useId()
+  const errorId = useId()
+  const statusId = useId()
+
+  const [codeSent, setCodeSent] = useState(false)
+  const [sentChannel, setSentChannel] = useState<MessageChannel>('sms')
+  const [code, setCode] = useState('')
+  const [error, setError] = useState('')
+  const [statusMessage, setStatusMessage] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  const describedBy = error ? `${hintId} ${errorId}` : hintId
+
+  async function handleSendCode(channel: MessageChannel) {
+    setError('')
+    setBusy(true)
+    setStatusMessage(channel === 'voice' ? 'Calling you with a code.' : 'Texting you a code.')
+
+    try {
+      const res = await fetch('/api/tenant/sign-in', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ slug, channel }),
+      })
+
+      const data = await res.json()
+
+      if (!data.ok) {
+        setError(data.error || 'Could not send a code. Please try again.')
+        setStatusMessage('Could not send a code.')
+        return
+      }
+
+      setCodeSent(true)
+      setSentChannel(channel)
+      setCode('')
+      setStatusMessage(`Code sent to ${maskedPhone}.`)
+    } catch {
+      setError('Connection failed. Check your network and try again.')
+      setStatusMessage('Connection failed while sending the code.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleVerify() {
+    setError('')
+    setBusy(true)
+    setStatusMessage('Checking your code.')
+
+    try {
+      const res = await fetch('/api/tenant/sign-in/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ slug, code }),
+      })
+
+      const data = await res.json()
+
+      if (!data.ok) {
+        setError(data.error || 'Could not sign you in. Please try again.')
+        setStatusMessage('Sign-in failed.')
+        setBusy(false)
+        return
+      }
+
+      setStatusMessage('Signed in. Opening your case.')
+      router.push(`/t/${slug}`)
+      router.refresh()
+    } catch {
+      setError('Connection failed. Check your network and try again.')
+      setStatusMessage('Connection failed while checking the code.')
+      setBusy(false)
+    }
+  }
+
+  return (
+    <form
+      aria-busy={busy}
+      onSubmit={(e) => {
+        e.preventDefault()
+        void (codeSent ? handleVerify() : handleSendCode('sms'))
+      }}
+      className="flex w-full max-w-sm flex-col gap-6"
+    >
+      <p id={statusId} className="sr-only" role="status" aria-live="polite">
+        {statusMessage}
+      </p>
+
+      {codeSent ? (
+        <div className="flex flex-col gap-3">
+          <Label htmlFor="sign-in-code" className="font-mono text-base font-semibold tracking-wide text-foreground">
+            Sign-in code
+          </Label>
+          <Input
+            id="sign-in-code"
+            type="text"
+            autoComplete="one-time-code"
+            inputMode="numeric"
+            enterKeyHint="done"
+            maxLength={7}
+            placeholder="123456"
+            value={code}
+            aria-describedby={describedBy}
+            aria-invalid={Boolean(error)}
+            onChange={(e) => {
+              setCode(e.target.value)
+              if (error) setError('')
+            }}
+            style={{ minHeight: MIN_TAP_TARGET, fontSize: BASE_TEXT_SIZE }}
+            className="border-border bg-secondary font-sans text-foreground placeholder:text-muted-foreground focus-visible:ring-primary"
+          />
+          <p id={hintId} className="font-sans text-base leading-relaxed text-muted-foreground">
+            {sentChannel === 'voice'
+              ? `We are calling ${maskedPhone} to read out a 6-digit code.`
+              : `We texted a 6-digit code to ${maskedPhone}.`}{' '}
+            Only type it here. Never read it out to anyone who calls you.
+          </p>
+        </div>
+      ) : (
+        <p id={hintId} className="font-sans text-base leading-relaxed text-muted-foreground">
+          We will text a sign-in code to your saved number, {maskedPhone}.
+        </p>
+      )}
+
+      {error && (
+        <div
+          id={errorId}
+          role="alert"
+          aria-live="assertive"
+          className="rounded-lg border border-destructive/40 bg-destructive/10 px-4 py-3"
+        >
+          <p className="font-sans text-base text-destructive-foreground">{error}</p>
+        </div>
+      )}
+
+      <Button
+        type="submit"
+        size="lg"
+        disabled={busy}
+        style={{ minHeight: PRIMARY_TAP_TARGET, fontSize: SECONDARY_TEXT_SIZE }}
+        className="w-full bg-primary font-mono font-semibold tracking-wide text-primary-foreground hover:bg-primary/90"
+      >
+        {busy ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            {codeSent ? 'Checking...' : 'Sending...'}
+          </>
+        ) : codeSent ? (
+          'Sign In'
+        ) : (
+          'Text Me a Code'
+        )}
+      </Button>
+
+      <Button
+        type="button"
+        variant="ghost"
+        disabled={busy}
+        onClick={() => void handleSendCode(codeSent ? sentChannel : 'voice')}
+        style={{ minHeight: PRIMARY_TAP_TARGET, fontSize: SECONDARY_TEXT_SIZE }}
+        className="w-full font-sans font-semibold text-muted-foreground hover:text-foreground"
+      >
+        {codeSent ? 'Send a new code' : 'Landline? Call me with the code'}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,179 @@
+'use client'
+
+import { useId, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { Label } from '@/components/ui/label'
+import { MIN_TAP_TARGET, SECONDARY_TEXT_SIZE } from '@/lib/a11y'
+import type { RedactionMode } from '@/lib/redaction'
+import { TRANSCRIPT_RETENTION_DAY_OPTIONS, type TranscriptPurgeAction } from '@/lib/retention'
+
+export type TenantSettingsView = {
+  whisperCoaching: boolean
+  redactionMode: RedactionMode
+  transcriptRetentionDays: number
+  purgeAction: TranscriptPurgeAction
+}
+
+const REDACTION_MODE_OPTIONS: { value: RedactionMode; label: string }[] = [
+  { value: 'both', label: 'Before saving and before analysis (recommended)' },
+  { value: 'storage', label: 'Before saving only' },
+  { value: 'model', label: 'Before analysis only' },
+  { value: 'off', label: 'Never' },
+]
+
+const PURGE_ACTION_OPTIONS: { value: TranscriptPurgeAction; label: string }[] = [
+  { value: 'delete', label: 'Delete the transcript, keep the summary' },
+  { value: 'anonymize', label: 'Remove the words, keep who spoke when' },
+]
+
+const SELECT_CLASS_NAME =
+  'h-12 w-full rounded-md border border-input bg-transparent px-3 font-sans text-base text-foreground'
+
+/** Owner settings on the tenant page. Each change saves straight away. */
+export function TenantSettingsForm({ slug, initialSettings }: { slug: string; initialSettings: TenantSettingsView }) {
+  const headingId = useId()
+  const whisperHintId = useId()
+  const redactionId = useId()
+  const redactionHintId = useId()
+  const retentionId = useId()
+  const purgeActionId = useId()
+  const retentionHintId = useId()
+  const [settings, setSettings] = useState(initialSettings)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+  // A window set directly in the database stays selectable until it is changed.
+  const retentionDayOptions = TRANSCRIPT_RETENTION_DAY_OPTIONS.some(
+    (days) => days === initialSettings.transcriptRetentionDays,
+  )
+    ? [...TRANSCRIPT_RETENTION_DAY_OPTIONS]
+    : [initialSettings.transcriptRetentionDays, ...TRANSCRIPT_RETENTION_DAY_OPTIONS]
+
+  async function save(update: Partial<TenantSettingsView>) {
+    const previous = settings
+    setSaving(true)
+    setError('')
+    setSettings({ ...previous, ...update })
+
+    try {
+      const res = await fetch('/api/tenant/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ slug, ...update }),
+      })
+      const data = await res.json()
+
+      if (!res.ok || !data.ok) {
+        setSettings(previous)
+        setError(data.error || 'Could not save the setting. Please try again.')
+      }
+    } catch {
+      setSettings(previous)
+      setError('Connection failed. Check your network and try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <section
+      aria-labelledby={headingId}
+      aria-busy={saving}
+      className="mt-4 flex w-full flex-col gap-4 rounded-2xl border border-border bg-card/70 px-4 py-4"
+    >
+      <div className="flex items-center justify-between gap-3">
+        <h2 id={headingId} className="font-sans text-lg font-semibold text-foreground">
+          Settings
+        </h2>
+        {saving && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" aria-hidden="true" />}
+      </div>
+
+      <div>
+        <label className="flex items-center justify-between gap-3" style={{ minHeight: MIN_TAP_TARGET }}>
+          <span className="font-sans text-base font-semibold text-foreground">Speak warnings on the call</span>
+          <input
+            type="checkbox"
+            role="switch"
+            checked={settings.whisperCoaching}
+            disabled={saving}
+            aria-describedby={whisperHintId}
+            onChange={(event) => void save({ whisperCoaching: event.target.checked })}
+            className="h-6 w-6 accent-primary"
+          />
+        </label>
+        <p id={whisperHintId} className="mt-1 font-sans text-muted-foreground" style={{ fontSize: SECONDARY_TEXT_SIZE }}>
+          For when you hold the phone to your ear. Urgent advice, such as not reading out a code, is spoken on the
+          monitor call.
+        </p>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <Label htmlFor={redactionId} className="font-sans text-base">
+          Hide card numbers, codes and addresses
+        </Label>
+        <select
+          id={redactionId}
+          value={settings.redactionMode}
+          disabled={saving}
+          aria-describedby={redactionHintId}
+          onChange={(event) => void save({ redactionMode: event.target.value as RedactionMode })}
+          className={SELECT_CLASS_NAME}
+        >
+          {REDACTION_MODE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <p id={redactionHintId} className="font-sans text-muted-foreground" style={{ fontSize: SECONDARY_TEXT_SIZE }}>
+          Saving means the transcript kept with your case files. Analysis means what is sent to the coaching model.
+        </p>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <Label htmlFor={retentionId} className="font-sans text-base">
+          Keep call transcripts for
+        </Label>
+        <select
+          id={retentionId}
+          value={settings.transcriptRetentionDays}
+          disabled={saving}
+          aria-describedby={retentionHintId}
+          onChange={(event) => void save({ transcriptRetentionDays: Number(event.target.value) })}
+          className={SELECT_CLASS_NAME}
+        >
+          {retentionDayOptions.map((days) => (
+            <option key={days} value={days}>
+              {days} days
+            </option>
+          ))}
+        </select>
+        <Label htmlFor={purgeActionId} className="mt-2 font-sans text-base">
+          After that
+        </Label>
+        <select
+          id={purgeActionId}
+          value={settings.purgeAction}
+          disabled={saving}
+          aria-describedby={retentionHintId}
+          onChange={(event) => void save({ purgeAction: event.target.value as TranscriptPurgeAction })}
+          className={SELECT_CLASS_NAME}
+        >
+          {PURGE_ACTION_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <p id={retentionHintId} className="font-sans text-muted-foreground" style={{ fontSize: SECONDARY_TEXT_SIZE }}>
+          Case files keep their risk scores and post-call summary either way.
+        </p>
+      </div>
+
+      {error && (
+        <div role="alert" className="rounded-lg border border-destructive/30 bg-destructive/5 px-3 py-2">
+          <p className="font-sans text-base text-destructive">{error}</p>
+        </div>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,367 @@
+'use client'
+
+import { useId, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { maskPhone } from '@/lib/phone'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Loader2 } from 'lucide-react'
+import { BASE_TEXT_SIZE, MIN_TAP_TARGET, PRIMARY_TAP_TARGET, SECONDARY_TEXT_SIZE } from '@/lib/a11y'
+
+export type TrustedContactView = {
+  id: string
+  name: string
+  phoneNumber: string | null
+  email: string | null
+  // Caregiver access: invited but not yet opened, watching, or none.
+  viewer: 'invited' | 'watching' | null
+}
+
+type InviteLink = {
+  contactId: string
+  url: string
+  sent: boolean
+}
+
+const INPUT_CLASS_NAME =
+  'border-border bg-secondary font-sans text-foreground placeholder:text-muted-foreground focus-visible:ring-primary'
+const LABEL_CLASS_NAME = 'font-mono text-base font-semibold tracking-wide text-foreground'
+
+export function TrustedContactsForm({ slug, contacts }: { slug: string; contacts: TrustedContactView[] }) {
+  const router = useRouter()
+  const hintId = useId()
+  const errorId = useId()
+  const statusId = useId()
+
+  const [name, setName] = useState('')
+  const [phone, setPhone] = useState('')
+  const [email, setEmail] = useState('')
+  const [error, setError] = useState('')
+  const [statusMessage, setStatusMessage] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [removingId, setRemovingId] = useState<string | null>(null)
+  const [sharingId, setSharingId] = useState<string | null>(null)
+  const [inviteLink, setInviteLink] = useState<InviteLink | null>(null)
+
+  const describedBy = error ? `${hintId} ${errorId}` : hintId
+
+  async function handleAdd() {
+    setError('')
+    setBusy(true)
+    setStatusMessage('Adding contact.')
+
+    try {
+      const res = await fetch('/api/tenant/contacts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ slug, name, phoneNumber: phone, email }),
+      })
+
+      const data = await res.json()
+
+      if (!data.ok) {
+        setError(data.error || 'Could not add the contact. Please try again.')
+        setStatusMessage('Could not add the contact.')
+        return
+      }
+
+      setName('')
+      setPhone('')
+      setEmail('')
+      setStatusMessage(`${data.contact?.name ?? 'Contact'} added.`)
+      router.refresh()
+    } catch {
+      setError('Connection failed. Check your network and try again.')
+      setStatusMessage('Connection failed while adding the contact.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleRemove(contact: TrustedContactView) {
+    setError('')
+    setRemovingId(contact.id)
+    setStatusMessage(`Removing ${contact.name}.`)
+
+    try {
+      const params = new URLSearchParams({ slug, id: contact.id })
+      const res = await fetch(`/api/tenant/contacts?${params.toString()}`, { method: 'DELETE' })
+      const data = await res.json()
+
+      if (!data.ok) {
+        setError(data.error || 'Could not remove the contact. Please try again.')
+        setStatusMessage('Could not remove the contact.')
+        return
+      }
+
+      setStatusMessage(`${contact.name} removed.`)
+      router.refresh()
+    } catch {
+      setError('Connection failed. Check your network and try again.')
+      setStatusMessage('Connection failed while removing the contact.')
+    } finally {
+      setRemovingId(null)
+    }
+  }
+
+  async function handleInvite(contact: TrustedContactView) {
+    setError('')
+    setSharingId(contact.id)
+    setInviteLink(null)
+    setStatusMessage(`Inviting ${contact.name} to watch.`)
+
+    try {
+      const res = await fetch('/api/tenant/viewers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ slug, contactId: contact.id }),
+      })
+
+      const data = await res.json()
+
+      if (!data.ok) {
+        setError(data.error || 'Could not create the invite. Please try again.')
+        setStatusMessage('Could not create the invite.')
+        return
+      }
+
+      setInviteLink({ contactId: contact.id, url: String(data.inviteUrl), sent: Boolean(data.sent) })
+      setStatusMessage(data.sent ? `Invite sent to ${contact.name}.` : `Invite link ready for ${contact.name}.`)
+      router.refresh()
+    } catch {
+      setError('Connection failed. Check your network and try again.')
+      setStatusMessage('Connection failed while creating the invite.')
+    } finally {
+      setSharingId(null)
+    }
+  }
+
+  async function handleStopSharing(contact: TrustedContactView) {
+    setError('')
+    setSharingId(contact.id)
+    setStatusMessage(`Stopping sharing with ${contact.name}.`)
+
+    try {
+      const params = new URLSearchParams({ slug, contactId: contact.id })
+      const res = await fetch(`/api/tenant/viewers?${params.toString()}`, { method: 'DELETE' })
+      const data = await res.json()
+
+      if (!data.ok) {
+        setError(data.error || 'Could not stop sharing. Please try again.')
+        setStatusMessage('Could not stop sharing.')
+        return
+      }
+
+      if (inviteLink?.contactId === contact.id) setInviteLink(null)
+      setStatusMessage(`${contact.name} can no longer watch your calls.`)
+      router.refresh()
+    } catch {
+      setError('Connection failed. Check your network and try again.')
+      setStatusMessage('Connection failed while stopping sharing.')
+    } finally {
+      setSharingId(null)
+    }
+  }
+
+  const pending = removingId !== null || sharingId !== null
+
+  return (
+    <div className="flex w-full flex-col gap-6">
+      <p id={statusId} className="sr-only" role="status" aria-live="polite">
+        {statusMessage}
+      </p>
+
+      {contacts.length === 0 ? (
+        <p className="rounded-xl border border-border bg-card px-4 py-3 font-sans text-base text-muted-foreground">
+          No trusted contacts yet.
+        </p>
+      ) : (
+        <ul aria-label="Trusted contacts" className="flex flex-col gap-2">
+          {contacts.map((contact) => (
+            <li key={contact.id} className="flex flex-col gap-2 rounded-xl border border-border bg-card px-4 py-3">
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex min-w-0 flex-col">
+                  <p className="truncate font-sans text-base font-semibold text-foreground">{contact.name}</p>
+                  {contact.phoneNumber && (
+                    <p className="font-sans text-sm text-muted-foreground">{maskPhone(contact.phoneNumber)}</p>
+                  )}
+                  {contact.email && <p className="truncate font-sans text-sm text-muted-foreground">{contact.email}</p>}
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  disabled={pending}
+                  onClick={() => void handleRemove(contact)}
+                  aria-label={`Remove ${contact.name}`}
+                  style={{ minHeight: MIN_TAP_TARGET, fontSize: SECONDARY_TEXT_SIZE }}
+                  className="shrink-0 font-sans font-semibold text-muted-foreground hover:text-foreground"
+                >
+                  {removingId === contact.id ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Remove'}
+                </Button>
+              </div>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="font-sans text-sm text-muted-foreground">
+                  {contact.viewer === 'watching'
+                    ? 'Can watch your calls live'
+                    : contact.viewer === 'invited'
+                      ? 'Invited to watch, link not opened yet'
+                      : 'Cannot watch your calls'}
+                </p>
+                <div className="flex gap-1">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={pending}
+                    onClick={() => void handleInvite(contact)}
+                    aria-label={`${contact.viewer ? 'Send a new invite to' : 'Invite'} ${contact.name} to watch`}
+                    style={{ minHeight: MIN_TAP_TARGET, fontSize: SECONDARY_TEXT_SIZE }}
+                    className="font-sans font-semibold"
+                  >
+                    {sharingId === contact.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : contact.viewer ? (
+                      'New invite'
+                    ) : (
+                      'Invite to watch'
+                    )}
+                  </Button>
+                  {contact.viewer && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      disabled={pending}
+                      onClick={() => void handleStopSharing(contact)}
+                      aria-label={`Stop sharing calls with ${contact.name}`}
+                      style={{ minHeight: MIN_TAP_TARGET, fontSize: SECONDARY_TEXT_SIZE }}
+                      className="font-sans font-semibold text-muted-foreground hover:text-foreground"
+                    >
+                      Stop sharing
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {inviteLink?.contactId === contact.id && (
+                <div className="rounded-lg border border-primary/40 bg-primary/10 px-3 py-2">
+                  <p className="font-sans text-sm text-foreground">
+                    {inviteLink.sent
+                      ? `We sent ${contact.name} this link. You can also pass it on yourself:`
+                      : `We could not send the link. Pass it to ${contact.name} yourself:`}
+                  </p>
+                  <p className="mt-1 break-all font-mono text-sm text-foreground">{inviteLink.url}</p>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form
+        aria-busy={busy}
+        aria-labelledby="add-contact-title"
+        onSubmit={(e) => {
+          e.preventDefault()
+          void handleAdd()
+        }}
+        className="flex flex-col gap-4 rounded-2xl border border-border bg-card/70 px-4 py-4"
+      >
+        <h2 id="add-contact-title" className="font-sans text-lg font-semibold text-foreground">
+          Add a contact
+        </h2>
+
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="contact-name" className={LABEL_CLASS_NAME}>
+            Name
+          </Label>
+          <Input
+            id="contact-name"
+            type="text"
+            autoComplete="name"
+            value={name}
+            aria-invalid={Boolean(error)}
+            onChange={(e) => {
+              setName(e.target.value)
+              if (error) setError('')
+            }}
+            style={{ minHeight: MIN_TAP_TARGET, fontSize: BASE_TEXT_SIZE }}
+            className={INPUT_CLASS_NAME}
+          />
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="contact-phone" className={LABEL_CLASS_NAME}>
+            Mobile number
+          </Label>
+          <Input
+            id="contact-phone"
+            type="tel"
+            autoComplete="tel"
+            inputMode="tel"
+            placeholder="4155552671 or +14155552671"
+            value={phone}
+            aria-describedby={describedBy}
+            aria-invalid={Boolean(error)}
+            onChange={(e) => {
+              setPhone(e.target.value)
+              if (error) setError('')
+            }}
+            style={{ minHeight: MIN_TAP_TARGET, fontSize: BASE_TEXT_SIZE }}
+            className={INPUT_CLASS_NAME}
+          />
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="contact-email" className={LABEL_CLASS_NAME}>
+            Email
+          </Label>
+          <Input
+            id="contact-email"
+            type="email"
+            autoComplete="email"
+            value={email}
+            aria-describedby={describedBy}
+            aria-invalid={Boolean(error)}
+            onChange={(e) => {
+              setEmail(e.target.value)
+              if (error) setError('')
+            }}
+            style={{ minHeight: MIN_TAP_TARGET, fontSize: BASE_TEXT_SIZE }}
+            className={INPUT_CLASS_NAME}
+          />
+        </div>
+
+        <p id={hintId} className="font-sans text-base leading-relaxed text-muted-foreground">
+          A mobile number, an email address, or both. Let them know you added them.
+        </p>
+
+        {error && (
+          <div
+            id={errorId}
+            role="alert"
+            aria-live="assertive"
+            className="rounded-lg border border-destructive/40 bg-destructive/10 px-4 py-3"
+          >
+            <p className="font-sans text-base text-destructive-foreground">{error}</p>
+          </div>
+        )}
+
+        <Button
+          type="submit"
+          size="lg"
+          disabled={busy}
+          style={{ minHeight: PRIMARY_TAP_TARGET, fontSize: SECONDARY_TEXT_SIZE }}
+          className="w-full bg-primary font-mono font-semibold tracking-wide text-primary-foreground hover:bg-primary/90"
+        >
+          {busy ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Adding...
+            </>
+          ) : (
+            'Add Contact'
+          )}
+        </Button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,505 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { PostCallSummary } from '@/lib/live-types'
+import { createCallViewerClient } from '@/lib/supabase/client'
+import { mergeIncrementalTranscriptText, normalizeTranscriptText } from '@/lib/transcript-merge'
+
+export type RiskLevel = 'low' | 'medium' | 'high'
+
+export type TranscriptLine = {
+  id: string
+  speaker: 'caller' | 'other' | 'assistant' | 'unknown'
+  text: string
+  timestamp: number
+  isFinal: boolean
+  sourceIds?: string[]
+}
+
+export type LiveEvidence = {
+  source: 'heuristic' | 'model'
+  ruleId: string | null
+  chunkId: string
+  start: number
+  end: number
+  text: string
+  weight: number
+}
+
+export type LiveAdvice = {
+  riskScore: number
+  riskLevel: RiskLevel
+  scamType?: string
+  feedback: string
+  whatToSay: string
+  whatToDo: string
+  nextSteps: string[]
+  confidence: number
+  evidence?: LiveEvidence[]
+  scriptStage?: string | null
+  updatedAt: number
+}
+
+export type LiveEscalation = {
+  status: 'dialing' | 'joined' | 'ended' | 'failed'
+  contactId: string | null
+  error: string | null
+}
+
+type LiveSessionPayload = {
+  ok: boolean
+  status?: string
+  assistantMuted?: boolean
+  analyzing?: boolean
+  lastError?: string | null
+  updatedAt?: number
+  lastAdviceAt?: number | null
+  advice?: LiveAdvice
+  transcript?: TranscriptLine[]
+  summary?: PostCallSummary | null
+  escalation?: LiveEscalation | null
+  error?: string
+}
+
+export const MAX_TRANSCRIPT_LINES = 220
+const DEFAULT_VISIBLE_POLL_INTERVAL_MS = 800
+const DEFAULT_HIDDEN_POLL_INTERVAL_MS = 2_500
+const RECONNECT_NOTE = 'Live updates paused. Reconnecting...'
+const POLL_INTERVAL_VISIBLE_MS =
+  readPositiveInt(process.env.NEXT_PUBLIC_LIVE_POLL_VISIBLE_MS) ?? DEFAULT_VISIBLE_POLL_INTERVAL_MS
+const POLL_INTERVAL_HIDDEN_MS =
+  readPositiveInt(process.env.NEXT_PUBLIC_LIVE_POLL_HIDDEN_MS) ?? DEFAULT_HIDDEN_POLL_INTERVAL_MS
+
+function readPositiveInt(value: string | undefined): number | null {
+  if (!value?.trim()) {
+    return null
+  }
+
+  const parsed = Number.parseInt(value, 10)
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return null
+  }
+
+  return parsed
+}
+
+export function createDefaultAdvice(): LiveAdvice {
+  return {
+    riskScore: 20,
+    riskLevel: 'low',
+    feedback: 'Listening for risk signals. Stay calm and ask for verification.',
+    whatToSay: 'Can you share your full name, department, and official callback number?',
+    whatToDo: 'Do not share one-time codes, account numbers, or payment details.',
+    nextSteps: [
+      'Ask them to repeat their claim clearly.',
+      'Say you will verify using an official number.',
+    ],
+    confidence: 0.3,
+    updatedAt: Date.now(),
+  }
+}
+
+export function isTerminalStatus(status: string): boolean {
+  const normalized = status.toLowerCase()
+  return (
+    normalized.includes('end') ||
+    normalized.includes('complete') ||
+    normalized.includes('cancel') ||
+    normalized.includes('fail') ||
+    normalized.includes('error')
+  )
+}
+
+export function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+  return value as Record<string, unknown>
+}
+
+function toLiveEscalation(row: Record<string, unknown>): LiveEscalation | null {
+  const status = row.escalation_status
+  if (status !== 'dialing' && status !== 'joined' && status !== 'ended' && status !== 'failed') return null
+
+  return {
+    status,
+    contactId: typeof row.escalation_contact_id === 'string' ? row.escalation_contact_id : null,
+    error: typeof row.escalation_error === 'string' ? row.escalation_error : null,
+  }
+}
+
+function parseTimestampMs(value: unknown): number {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    if (value > 1_000_000_000_000) return Math.round(value)
+    if (value > 1_000_000_000) return Math.round(value * 1000)
+  }
+
+  if (typeof value === 'string') {
+    const asNumber = Number(value)
+    if (Number.isFinite(asNumber)) {
+      if (asNumber > 1_000_000_000_000) return Math.round(asNumber)
+      if (asNumber > 1_000_000_000) return Math.round(asNumber * 1000)
+    }
+
+    const asDate = Date.parse(value)
+    if (Number.isFinite(asDate)) {
+      return asDate
+    }
+  }
+
+  return Date.now()
+}
+
+function toSpeaker(value: unknown): TranscriptLine['speaker'] {
+  if (typeof value !== 'string') return 'unknown'
+  const normalized = value.toLowerCase()
+  if (normalized === 'caller') return 'caller'
+  if (normalized === 'other') return 'other'
+  if (normalized === 'assistant') return 'assistant'
+  return 'unknown'
+}
+
+function mergeTranscriptLine(lines: TranscriptLine[], nextLine: TranscriptLine): TranscriptLine[] {
+  const existingLine = lines.find((line) => line.id === nextLine.id)
+  const mergedLine = existingLine
+    ? {
+        ...nextLine,
+        speaker: nextLine.speaker === 'unknown' ? existingLine.speaker : nextLine.speaker,
+        text: mergeIncrementalTranscriptText(existingLine.text, nextLine.text, {
+          isFinal: nextLine.isFinal,
+        }),
+        timestamp: Math.max(existingLine.timestamp, nextLine.timestamp),
+        isFinal: existingLine.isFinal || nextLine.isFinal,
+      }
+    : nextLine
+
+  const merged = [...lines.filter((line) => line.id !== nextLine.id), mergedLine]
+
+  merged.sort((a, b) => {
+    if (a.timestamp !== b.timestamp) return a.timestamp - b.timestamp
+
+    const aNum = Number(a.id)
+    const bNum = Number(b.id)
+
+    if (Number.isFinite(aNum) && Number.isFinite(bNum)) {
+      return aNum - bNum
+    }
+
+    return a.id.localeCompare(b.id)
+  })
+
+  if (merged.length <= MAX_TRANSCRIPT_LINES) return merged
+  return merged.slice(-MAX_TRANSCRIPT_LINES)
+}
+
+/**
+ * Follow one call's live state: polls `/api/call/live` with the viewer token
+ * and applies Supabase Realtime row changes as they arrive. Shared by the
+ * protected person's panel and the caregiver view.
+ */
+export function useLiveSession({
+  slug,
+  callId,
+  viewerToken,
+  initialNote = '',
+  onStatus,
+  onExpired,
+}: {
+  slug: string
+  callId: string | null
+  viewerToken: string | null
+  // Shown until the call reports a note of its own.
+  initialNote?: string
+  // Called with every status the call reports, terminal or not.
+  onStatus?: (status: string) => void
+  // Called when the token no longer reads the call (expired or revoked).
+  onExpired?: () => void
+}) {
+  const [callStatus, setCallStatus] = useState('queued')
+  const [assistantMuted, setAssistantMuted] = useState(false)
+  const [analyzing, setAnalyzing] = useState(false)
+  const [note, setNote] = useState(initialNote)
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null)
+  const [advice, setAdvice] = useState<LiveAdvice>(createDefaultAdvice())
+  const [hasLiveAdvice, setHasLiveAdvice] = useState(false)
+  const [rawTranscript, setRawTranscript] = useState<TranscriptLine[]>([])
+  const [summary, setSummary] = useState<PostCallSummary | null>(null)
+  const [escalation, setEscalation] = useState<LiveEscalation | null>(null)
+  const onStatusRef = useRef(onStatus)
+  const onExpiredRef = useRef(onExpired)
+
+  useEffect(() => {
+    onStatusRef.current = onStatus
+    onExpiredRef.current = onExpired
+  }, [onExpired, onStatus])
+
+  const reset = useCallback(() => {
+    setCallStatus('queued')
+    setAssistantMuted(false)
+    setAnalyzing(false)
+    setNote('')
+    setLastUpdated(null)
+    setAdvice(createDefaultAdvice())
+    setHasLiveAdvice(false)
+    setRawTranscript([])
+    setSummary(null)
+    setEscalation(null)
+  }, [])
+
+  useEffect(() => {
+    if (!callId || !viewerToken) return
+    const activeCallId = callId
+    const activeViewerToken = viewerToken
+    const supabase = createCallViewerClient(activeViewerToken)
+
+    let cancelled = false
+    let inFlight = false
+
+    function applyStatus(status: string) {
+      setCallStatus(status)
+      onStatusRef.current?.(status)
+    }
+
+    function applySessionPayload(data: LiveSessionPayload) {
+      if (typeof data.status === 'string') {
+        applyStatus(data.status)
+      }
+
+      setAssistantMuted(Boolean(data.assistantMuted))
+      setAnalyzing(Boolean(data.analyzing))
+
+      if (typeof data.updatedAt === 'number') {
+        setLastUpdated(data.updatedAt)
+      }
+
+      if (data.lastAdviceAt === null) {
+        setHasLiveAdvice(false)
+      } else if (typeof data.lastAdviceAt === 'number' && Number.isFinite(data.lastAdviceAt)) {
+        setHasLiveAdvice(true)
+      }
+
+      if (data.advice) {
+        setAdvice(data.advice)
+      }
+
+      if (Array.isArray(data.transcript)) {
+        const normalized = data.transcript
+          .slice(-MAX_TRANSCRIPT_LINES)
+          .map((line) => ({
+            ...line,
+            text: normalizeTranscriptText(line.text),
+            isFinal: line.isFinal !== false,
+          }))
+
+        const merged = normalized.reduce<TranscriptLine[]>(
+          (previous, line) => mergeTranscriptLine(previous, line),
+          [],
+        )
+
+        setRawTranscript(merged)
+      }
+
+      if (data.summary) {
+        setSummary(data.summary)
+      }
+
+      if (data.escalation !== undefined) {
+        setEscalation(data.escalation)
+      }
+
+      if (data.lastError) {
+        setNote(data.lastError)
+      }
+    }
+
+    function applyLiveCallRow(row: Record<string, unknown>) {
+      if (typeof row.status === 'string') {
+        applyStatus(row.status)
+      }
+
+      if (typeof row.assistant_muted === 'boolean') {
+        setAssistantMuted(row.assistant_muted)
+      }
+
+      if (typeof row.analyzing === 'boolean') {
+        setAnalyzing(row.analyzing)
+      }
+
+      if (typeof row.updated_at === 'string') {
+        const updatedAt = Date.parse(row.updated_at)
+        if (Number.isFinite(updatedAt)) {
+          setLastUpdated(updatedAt)
+        }
+      }
+
+      if (row.last_advice_at === null) {
+        setHasLiveAdvice(false)
+      } else if (typeof row.last_advice_at === 'string') {
+        const lastAdviceAt = Date.parse(row.last_advice_at)
+        if (Number.isFinite(lastAdviceAt)) {
+          setHasLiveAdvice(true)
+        }
+      }
+
+      const advicePayload = asRecord(row.advice)
+      if (advicePayload) {
+        setAdvice(advicePayload as LiveAdvice)
+      }
+
+      const summaryPayload = asRecord(row.post_call_summary)
+      if (summaryPayload) {
+        setSummary(summaryPayload as PostCallSummary)
+      }
+
+      if ('escalation_status' in row) {
+        setEscalation(toLiveEscalation(row))
+      }
+
+      if (typeof row.last_error === 'string' && row.last_error.trim()) {
+        setNote(row.last_error)
+      }
+    }
+
+    function applyTranscriptRow(row: Record<string, unknown>) {
+      const rawId = row.id
+      const text = row.text
+
+      if ((typeof rawId !== 'number' && typeof rawId !== 'string') || typeof text !== 'string' || !text.trim()) {
+        return
+      }
+
+      const line: TranscriptLine = {
+        id: String(rawId),
+        speaker: toSpeaker(row.speaker),
+        text: normalizeTranscriptText(text),
+        timestamp: parseTimestampMs(row.timestamp_ms),
+        isFinal: typeof row.is_final === 'boolean' ? row.is_final : true,
+      }
+
+      setRawTranscript((previous) => mergeTranscriptLine(previous, line))
+    }
+
+    async function pollLiveSession() {
+      if (cancelled || inFlight) return
+      inFlight = true
+
+      try {
+        const res = await fetch(
+          `/api/call/live?slug=${encodeURIComponent(slug)}&callId=${encodeURIComponent(activeCallId)}`,
+          {
+            cache: 'no-store',
+            headers: { Authorization: `Bearer ${activeViewerToken}` },
+          }
+        )
+
+        const data: LiveSessionPayload = await res.json()
+
+        if (cancelled) return
+
+        if (!res.ok || !data.ok) {
+          if (res.status === 401 || res.status === 404) {
+            onExpiredRef.current?.()
+          }
+          return
+        }
+
+        applySessionPayload(data)
+      } catch {
+        if (!cancelled) {
+          setNote(RECONNECT_NOTE)
+        }
+      } finally {
+        inFlight = false
+      }
+    }
+
+    function getPollIntervalMs(): number {
+      if (document.visibilityState === 'hidden') {
+        return POLL_INTERVAL_HIDDEN_MS
+      }
+      return POLL_INTERVAL_VISIBLE_MS
+    }
+
+    let fallbackTimer = window.setInterval(() => {
+      void pollLiveSession()
+    }, getPollIntervalMs())
+
+    function restartFallbackTimer() {
+      window.clearInterval(fallbackTimer)
+      fallbackTimer = window.setInterval(() => {
+        void pollLiveSession()
+      }, getPollIntervalMs())
+    }
+
+    function handleVisibilityChange() {
+      restartFallbackTimer()
+      if (document.visibilityState === 'visible') {
+        void pollLiveSession()
+      }
+    }
+
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+
+    const channel = supabase
+      .channel(`live:${slug}:${activeCallId}:${Date.now()}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'live_calls',
+          filter: `call_sid=eq.${activeCallId}`,
+        },
+        (payload) => {
+          const row = asRecord(payload.new)
+          if (!row) return
+
+          applyLiveCallRow(row)
+        },
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'live_transcript_chunks',
+          filter: `call_sid=eq.${activeCallId}`,
+        },
+        (payload) => {
+          const row = asRecord(payload.new)
+          if (!row) return
+
+          applyTranscriptRow(row)
+        },
+      )
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          setNote((previous) => (previous === RECONNECT_NOTE ? '' : previous))
+          return
+        }
+      })
+
+    void pollLiveSession()
+
+    return () => {
+      cancelled = true
+      window.clearInterval(fallbackTimer)
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      void supabase.removeChannel(channel)
+    }
+  }, [callId, viewerToken, slug])
+
+  return {
+    callStatus,
+    setCallStatus,
+    assistantMuted,
+    analyzing,
+    note,
+    setNote,
+    lastUpdated,
+    advice,
+    hasLiveAdvice,
+    rawTranscript,
+    summary,
+    escalation,
+    reset,
+  }
+}
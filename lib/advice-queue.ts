@@ -0,0 +1,462 @@
+import type { ContactAlertReason } from '@/lib/contact-alerts'
+import { detectDisclosures } from '@/lib/disclosure'
+import {
+  EvidenceLedger,
+  createEvidenceLedger,
+  getDecayedEvidenceTotal,
+  recordEvidence,
+} from '@/lib/evidence-ledger'
+import { LiveCallRepository, LiveCallSummary } from '@/lib/live-call-repository'
+import {
+  ModelAdviceError,
+  generateHeuristicAdvice,
+  stabilizeAdvice,
+  withHeuristicSignals,
+} from '@/lib/live-coach'
+import {
+  CoachingAdvice,
+  PostCallSummary,
+  RiskLevel,
+  TranscriptChunk,
+  isTerminalStatus,
+  normalizeSessionStatus,
+} from '@/lib/live-types'
+import { RedactionMode, redactTranscript, redactsAtModel } from '@/lib/redaction'
+
+const RATE_LIMIT_BASE_BACKOFF_MS = 6_000
+const RATE_LIMIT_MAX_BACKOFF_MS = 60_000
+const RATE_LIMIT_STREAK_RESET_MS = 90_000
+const ADVICE_DELAYED_MESSAGE =
+  'Live analysis is delayed. Keep verifying through official channels.'
+const ADVICE_RATE_LIMITED_MESSAGE =
+  'Live analysis is temporarily rate-limited. Using local scoring for now.'
+// Spoken advice interrupts the conversation, so it stays rare.
+const WHISPER_MIN_INTERVAL_MS = 30_000
+const RISK_LEVEL_RANK: Record<RiskLevel, number> = { low: 0, medium: 1, high: 2 }
+
+export type AdviceRunState = {
+  running: boolean
+  pending: boolean
+  forceModel: boolean
+  lastAdviceTriggerAt: number
+  lastStableAdvice: CoachingAdvice | null
+  evidenceLedger: EvidenceLedger | null
+  lastModelRunAt: number
+  modelCooldownUntil: number
+  rateLimitStreak: number
+  lastRateLimitAt: number
+  terminal: boolean
+  summarized: boolean
+  alerted: ContactAlertReason[]
+  whisperedRiskLevel: RiskLevel
+  lastWhisperAt: number
+}
+
+export type AdviceClock = {
+  now: () => number
+}
+
+/** The slice of the live store the advice loop reads and writes. */
+export type AdviceStore = Pick<
+  LiveCallRepository,
+  | 'getLiveCallSummary'
+  | 'getTranscriptChunks'
+  | 'setLiveCallAdvice'
+  | 'setLiveCallAnalyzing'
+  | 'setPostCallSummary'
+  | 'recordDisclosures'
+>
+
+export type AdviceModel = (params: {
+  transcript: TranscriptChunk[]
+  previousAdvice?: CoachingAdvice
+}) => Promise<CoachingAdvice | null>
+
+export type AdviceSummarizer = (params: {
+  transcript: TranscriptChunk[]
+  advice: CoachingAdvice
+  peakRiskScore: number
+  now: number
+}) => Promise<PostCallSummary>
+
+export type AdviceRedactionLookup = (slug: string) => Promise<RedactionMode>
+
+export type AdviceAlerter = (params: {
+  callSid: string
+  slug: string
+  reason: ContactAlertReason
+  advice: CoachingAdvice
+  transcript: TranscriptChunk[]
+}) => Promise<void>
+
+export type AdviceWhisperer = (params: {
+  callSid: string
+  slug: string
+  advice: CoachingAdvice
+}) => Promise<void>
+
+export type AdviceQueueConfig = {
+  hasModel: boolean
+  /** Set when a model provider was configured but could not be created; shown as the advice's last error. */
+  modelConfigError?: string | null
+  modelMinIntervalMs: number
+  nonFinalAdviceMinIntervalMs: number
+  evidenceHalfLifeMs: number
+  transcriptLimit: number
+  summaryTranscriptLimit: number
+}
+
+export type AdviceQueue = {
+  trigger: (callSid: string, force?: boolean) => void
+}
+
+/**
+ * The per-call advice loop behind the Twilio webhook: throttles triggers,
+ * publishes heuristic advice immediately, paces model calls and backs off on
+ * rate limits. Time, storage and the model are injected so the same loop can
+ * run against Supabase in production or a virtual clock in the replay script.
+ */
+export function createAdviceQueue(deps: {
+  clock: AdviceClock
+  store: AdviceStore
+  model: AdviceModel
+  summarize?: AdviceSummarizer
+  /** Tenant redaction setting; without it transcripts reach the model as stored. */
+  getRedactionMode?: AdviceRedactionLookup
+  /** Tells the tenant's trusted contacts; called at most once per reason per call. */
+  alert?: AdviceAlerter
+  /** Speaks advice on the monitor leg; called when the risk level rises, at most every 30 seconds. */
+  whisper?: AdviceWhisperer
+  config: AdviceQueueConfig
+  states?: Map<string, AdviceRunState>
+}): AdviceQueue {
+  const { clock, store, model, summarize, getRedactionMode, alert, whisper, config } = deps
+  const states = deps.states ?? new Map<string, AdviceRunState>()
+
+  function getRateLimitBackoffMs(error: unknown, state: AdviceRunState): number {
+    if (!(error instanceof ModelAdviceError) || error.statusCode !== 429) {
+      state.rateLimitStreak = 0
+      state.lastRateLimitAt = 0
+      return 0
+    }
+
+    const now = clock.now()
+    if (now - state.lastRateLimitAt > RATE_LIMIT_STREAK_RESET_MS) {
+      state.rateLimitStreak = 0
+    }
+
+    state.rateLimitStreak += 1
+    state.lastRateLimitAt = now
+
+    const exponentialBackoffMs = Math.min(
+      RATE_LIMIT_MAX_BACKOFF_MS,
+      RATE_LIMIT_BASE_BACKOFF_MS * 2 ** (state.rateLimitStreak - 1),
+    )
+    const retryAfterMs = error.retryAfterMs ?? 0
+
+    return Math.max(exponentialBackoffMs, retryAfterMs)
+  }
+
+  // Heuristics run on the transcript as stored; only what leaves for the model
+  // provider is redacted here.
+  async function prepareModelTranscript(slug: string, transcript: TranscriptChunk[]): Promise<TranscriptChunk[]> {
+    const mode = getRedactionMode ? await getRedactionMode(slug) : 'off'
+    return redactsAtModel(mode) ? redactTranscript(transcript) : transcript
+  }
+
+  // Not awaited: contacts are told in the background so alert delivery never
+  // holds up the next advice update.
+  function raiseAlert(
+    callSid: string,
+    slug: string,
+    state: AdviceRunState,
+    reason: ContactAlertReason,
+    advice: CoachingAdvice,
+    transcript: TranscriptChunk[],
+  ) {
+    if (!alert || state.alerted.includes(reason)) return
+    // A disclosure always scores high, so that message already says it all.
+    state.alerted.push(...(reason === 'disclosure' ? (['disclosure', 'high-risk'] as const) : [reason]))
+    void alert({ callSid, slug, reason, advice, transcript }).catch(() => {})
+  }
+
+  // Not awaited either. Only a rise in risk level is spoken; a fall is
+  // remembered so the next rise is spoken again.
+  function whisperOnRiskRise(summary: LiveCallSummary, state: AdviceRunState, advice: CoachingAdvice) {
+    if (!whisper) return
+
+    const rank = RISK_LEVEL_RANK[advice.riskLevel]
+    if (rank < RISK_LEVEL_RANK[state.whisperedRiskLevel]) {
+      state.whisperedRiskLevel = advice.riskLevel
+      return
+    }
+    if (rank === RISK_LEVEL_RANK[state.whisperedRiskLevel]) return
+
+    const now = clock.now()
+    if (now - state.lastWhisperAt < WHISPER_MIN_INTERVAL_MS) return
+    // Updating the leg would pull it out of an escalation conference.
+    if (summary.escalationStatus === 'dialing' || summary.escalationStatus === 'joined') return
+
+    state.whisperedRiskLevel = advice.riskLevel
+    state.lastWhisperAt = now
+    void whisper({ callSid: summary.callSid, slug: summary.slug, advice }).catch(() => {})
+  }
+
+  function reactToAdvice(
+    summary: LiveCallSummary,
+    state: AdviceRunState,
+    advice: CoachingAdvice,
+    transcript: TranscriptChunk[],
+  ) {
+    if (advice.riskLevel === 'high') raiseAlert(summary.callSid, summary.slug, state, 'high-risk', advice, transcript)
+    if (!state.terminal) whisperOnRiskRise(summary, state, advice)
+  }
+
+  async function runAdviceCycle(callSid: string, state: AdviceRunState, forceModel: boolean) {
+    const summary = await store.getLiveCallSummary(callSid)
+
+    if (!summary) {
+      state.terminal = true
+      return
+    }
+
+    const normalizedStatus = normalizeSessionStatus(summary.status)
+    const callEnded = isTerminalStatus(normalizedStatus)
+    state.terminal = callEnded
+
+    if (!state.lastStableAdvice && summary.lastAdviceAt) {
+      state.lastStableAdvice = summary.advice
+    }
+
+    if (!state.evidenceLedger) {
+      state.evidenceLedger = summary.evidenceLedger
+    }
+
+    const transcript = (await store.getTranscriptChunks(callSid, config.transcriptLimit)).filter(
+      (chunk) => chunk.isFinal,
+    )
+    if (transcript.length === 0) {
+      return
+    }
+
+    const previousAdvice = state.lastStableAdvice ?? (summary.lastAdviceAt ? summary.advice : undefined)
+
+    const now = clock.now()
+    const rawHeuristicAdvice = generateHeuristicAdvice({
+      transcript,
+      previousAdvice,
+    })
+    const evidenceLedger = recordEvidence(
+      state.evidenceLedger ?? createEvidenceLedger(),
+      rawHeuristicAdvice.evidence,
+      { now, halfLifeMs: config.evidenceHalfLifeMs },
+    )
+    const evidenceTotal = getDecayedEvidenceTotal(evidenceLedger, now, config.evidenceHalfLifeMs)
+    state.evidenceLedger = evidenceLedger
+
+    const heuristicAdvice = stabilizeAdvice({
+      nextAdvice: rawHeuristicAdvice,
+      previousAdvice,
+      evidenceTotal,
+    })
+
+    const newDisclosures = detectDisclosures(transcript).filter(
+      (disclosure) => !previousAdvice?.disclosures.includes(disclosure.kind),
+    )
+    if (newDisclosures.length > 0) {
+      await store.recordDisclosures(
+        callSid,
+        newDisclosures.map((disclosure) => ({ kind: disclosure.kind, chunkId: disclosure.chunkId, detectedAt: now })),
+      ).catch(() => {})
+      raiseAlert(callSid, summary.slug, state, 'disclosure', heuristicAdvice, transcript)
+    }
+
+    const shouldRunModel =
+      config.hasModel &&
+      now >= state.modelCooldownUntil &&
+      (forceModel || callEnded || now - state.lastModelRunAt >= config.modelMinIntervalMs)
+
+    const shouldPublishHeuristic =
+      !config.hasModel ||
+      state.lastModelRunAt === 0 ||
+      !state.lastStableAdvice ||
+      now < state.modelCooldownUntil
+
+    if (shouldPublishHeuristic) {
+      await store.setLiveCallAdvice(callSid, heuristicAdvice, {
+        lastError: config.modelConfigError
+          ? `Live analysis is off: ${config.modelConfigError} Using local scoring for now.`
+          : null,
+        analyzing: false,
+        evidenceLedger,
+        source: 'heuristic',
+        rawRiskScore: rawHeuristicAdvice.riskScore,
+      }).catch(() => {})
+      state.lastStableAdvice = heuristicAdvice
+      reactToAdvice(summary, state, heuristicAdvice, transcript)
+    }
+
+    if (!shouldRunModel) {
+      return
+    }
+
+    await store.setLiveCallAnalyzing(callSid, true).catch(() => {})
+
+    try {
+      const modelBaselineAdvice = state.lastStableAdvice ?? heuristicAdvice
+      const modelAdvice = await model({
+        transcript: await prepareModelTranscript(summary.slug, transcript),
+        previousAdvice: modelBaselineAdvice,
+      })
+
+      if (!modelAdvice) {
+        state.lastModelRunAt = clock.now()
+        state.lastStableAdvice = heuristicAdvice
+        await store.setLiveCallAdvice(callSid, heuristicAdvice, {
+          lastError: null,
+          analyzing: false,
+          evidenceLedger,
+          source: 'heuristic',
+          rawRiskScore: rawHeuristicAdvice.riskScore,
+        }).catch(() => {})
+        await store.setLiveCallAnalyzing(callSid, false).catch(() => {})
+        reactToAdvice(summary, state, heuristicAdvice, transcript)
+        return
+      }
+
+      const stabilizedModelAdvice = stabilizeAdvice({
+        nextAdvice: withHeuristicSignals(modelAdvice, heuristicAdvice),
+        previousAdvice: modelBaselineAdvice,
+        evidenceTotal,
+      })
+
+      await store.setLiveCallAdvice(callSid, stabilizedModelAdvice, {
+        lastError: null,
+        analyzing: false,
+        evidenceLedger,
+        source: 'model',
+        rawRiskScore: modelAdvice.riskScore,
+      })
+      state.lastStableAdvice = stabilizedModelAdvice
+      reactToAdvice(summary, state, stabilizedModelAdvice, transcript)
+      state.lastModelRunAt = clock.now()
+      state.modelCooldownUntil = 0
+      state.rateLimitStreak = 0
+      state.lastRateLimitAt = 0
+    } catch (error) {
+      const failedAt = clock.now()
+      state.lastModelRunAt = failedAt
+      const backoffMs = getRateLimitBackoffMs(error, state)
+
+      if (backoffMs > 0) {
+        state.modelCooldownUntil = failedAt + backoffMs
+      }
+
+      await store.setLiveCallAdvice(callSid, heuristicAdvice, {
+        lastError: backoffMs > 0 ? ADVICE_RATE_LIMITED_MESSAGE : ADVICE_DELAYED_MESSAGE,
+        analyzing: false,
+        evidenceLedger,
+        source: 'heuristic',
+        rawRiskScore: rawHeuristicAdvice.riskScore,
+      }).catch(() => {})
+      state.lastStableAdvice = heuristicAdvice
+      reactToAdvice(summary, state, heuristicAdvice, transcript)
+    }
+  }
+
+  // Runs once per call after the final advice pass. The stored summary is
+  // checked too so a restarted server does not summarize the same call twice.
+  async function summarizeEndedCall(callSid: string, state: AdviceRunState) {
+    if (!summarize || state.summarized) return
+    state.summarized = true
+
+    const summary = await store.getLiveCallSummary(callSid)
+    if (!summary || summary.postCallSummary) return
+
+    const transcript = (await store.getTranscriptChunks(callSid, config.summaryTranscriptLimit)).filter(
+      (chunk) => chunk.isFinal,
+    )
+    const postCallSummary = await summarize({
+      transcript: await prepareModelTranscript(summary.slug, transcript),
+      advice: state.lastStableAdvice ?? summary.advice,
+      peakRiskScore: summary.peakRiskScore,
+      now: clock.now(),
+    })
+
+    await store.setPostCallSummary(callSid, postCallSummary)
+  }
+
+  async function processAdviceQueue(callSid: string) {
+    const current = states.get(callSid)
+
+    if (!current || current.running) {
+      return
+    }
+
+    current.running = true
+
+    try {
+      while (current.pending) {
+        current.pending = false
+        const forceModel = current.forceModel
+        current.forceModel = false
+        try {
+          await runAdviceCycle(callSid, current, forceModel)
+        } catch {
+          await store.setLiveCallAnalyzing(callSid, false).catch(() => {})
+        }
+      }
+
+      if (current.terminal) {
+        await summarizeEndedCall(callSid, current).catch(() => {})
+      }
+    } finally {
+      current.running = false
+
+      if (!current.pending && current.terminal) {
+        states.delete(callSid)
+      } else if (current.pending) {
+        void processAdviceQueue(callSid)
+      }
+    }
+  }
+
+  function trigger(callSid: string, force = false) {
+    const current = states.get(callSid) ?? {
+      running: false,
+      pending: false,
+      forceModel: false,
+      lastAdviceTriggerAt: 0,
+      lastStableAdvice: null,
+      evidenceLedger: null,
+      lastModelRunAt: 0,
+      modelCooldownUntil: 0,
+      rateLimitStreak: 0,
+      lastRateLimitAt: 0,
+      terminal: false,
+      summarized: false,
+      alerted: [],
+      whisperedRiskLevel: 'low',
+      lastWhisperAt: 0,
+    }
+    states.set(callSid, current)
+
+    const now = clock.now()
+    const lastAdviceTriggerAt = current.lastAdviceTriggerAt ?? 0
+    if (!force && now - lastAdviceTriggerAt < config.nonFinalAdviceMinIntervalMs) {
+      return
+    }
+
+    current.lastAdviceTriggerAt = now
+    current.pending = true
+    current.forceModel = current.forceModel || force
+
+    if (current.running) {
+      return
+    }
+
+    void processAdviceQueue(callSid)
+  }
+
+  return { trigger }
+}
@@ -0,0 +1,109 @@
+import { createHmac, timingSafeEqual } from 'node:crypto'
+
+/**
+ * Per-call viewer tokens: HS256 JWTs that let one browser read one call.
+ * They are signed with the Supabase JWT secret so Realtime accepts them as
+ * the subscriber's identity, and the RLS policies in
+ * scripts/012_call_viewer_access.sql only return rows whose `call_sid`
+ * matches the claim.
+ */
+export const CALL_VIEWER_TOKEN_TTL_SECONDS = 4 * 60 * 60
+
+// Postgres role the token runs as. Everything beyond the call's own rows
+// stays at anon's privileges.
+const CALL_VIEWER_ROLE = 'anon'
+const JWT_HEADER = { alg: 'HS256', typ: 'JWT' }
+
+export type CallViewerClaims = {
+  role: string
+  sub: string
+  call_sid: string
+  slug: string
+  iat: number
+  exp: number
+}
+
+export type CallViewerToken = {
+  token: string
+  expiresAt: number
+}
+
+export type CallViewerAccess = 'ok' | 'unconfigured' | 'denied'
+
+export function getCallViewerTokenSecret(): string | null {
+  return process.env.SUPABASE_JWT_SECRET?.trim() || null
+}
+
+function encodeSegment(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url')
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url')
+}
+
+export function signCallViewerToken(params: {
+  callSid: string
+  slug: string
+  secret: string
+  now?: number
+}): CallViewerToken {
+  const issuedAt = Math.floor((params.now ?? Date.now()) / 1000)
+  const claims: CallViewerClaims = {
+    role: CALL_VIEWER_ROLE,
+    sub: `call-viewer:${params.callSid}`,
+    call_sid: params.callSid,
+    slug: params.slug,
+    iat: issuedAt,
+    exp: issuedAt + CALL_VIEWER_TOKEN_TTL_SECONDS,
+  }
+  const payload = `${encodeSegment(JWT_HEADER)}.${encodeSegment(claims)}`
+
+  return {
+    token: `${payload}.${sign(payload, params.secret)}`,
+    expiresAt: claims.exp * 1000,
+  }
+}
+
+function parseClaims(segment: string): Partial<CallViewerClaims> | null {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'))
+    return parsed && typeof parsed === 'object' ? (parsed as Partial<CallViewerClaims>) : null
+  } catch {
+    return null
+  }
+}
+
+/** Claims of a valid, unexpired token for exactly this call, otherwise null. */
+export function verifyCallViewerToken(
+  token: string,
+  params: { callSid: string; slug: string; secret: string; now?: number },
+): CallViewerClaims | null {
+  const [header, body, signature, ...rest] = token.split('.')
+  if (!header || !body || !signature || rest.length > 0) return null
+
+  const expected = Buffer.from(sign(`${header}.${body}`, params.secret))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+
+  const headerClaims = parseClaims(header) as { alg?: unknown } | null
+  if (headerClaims?.alg !== JWT_HEADER.alg) return null
+
+  const claims = parseClaims(body)
+  if (!claims || typeof claims.exp !== 'number') return null
+  if (claims.exp * 1000 <= (params.now ?? Date.now())) return null
+  if (claims.call_sid !== params.callSid || claims.slug !== params.slug) return null
+
+  return claims as CallViewerClaims
+}
+
+/** Checks the `Authorization: Bearer <token>` header on a call read endpoint. */
+export function checkCallViewerAccess(headers: Headers, params: { callSid: string; slug: string }): CallViewerAccess {
+  const secret = getCallViewerTokenSecret()
+  if (!secret) return 'unconfigured'
+
+  const match = /^Bearer\s+(\S+)$/i.exec(headers.get('authorization')?.trim() ?? '')
+  if (!match) return 'denied'
+
+  return verifyCallViewerToken(match[1], { ...params, secret }) ? 'ok' : 'denied'
+}
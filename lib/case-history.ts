@@ -0,0 +1,66 @@
+import type { ListLiveCallsParams } from '@/lib/live-call-repository'
+import type { RiskLevel } from '@/lib/live-types'
+
+export const DEFAULT_CASE_PAGE_SIZE = 20
+const MAX_CASE_PAGE_SIZE = 100
+const DAY_MS = 86_400_000
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export type CaseHistoryQuery = Omit<ListLiveCallsParams, 'slug'>
+
+type SearchParamsLike = {
+  get: (name: string) => string | null
+}
+
+function parsePositiveInt(value: string | null): number | null {
+  if (!value?.trim()) return null
+
+  const parsed = Number.parseInt(value, 10)
+  if (!Number.isFinite(parsed) || parsed <= 0) return null
+
+  return parsed
+}
+
+function parseRiskLevel(value: string | null): RiskLevel | null {
+  return value === 'low' || value === 'medium' || value === 'high' ? value : null
+}
+
+// Accepts a `YYYY-MM-DD` date from a date input, an ISO timestamp, or epoch ms.
+// A date-only upper bound covers the whole day.
+function parseDateBound(value: string | null, bound: 'start' | 'end'): number | null {
+  const raw = value?.trim()
+  if (!raw) return null
+
+  if (DATE_ONLY_PATTERN.test(raw)) {
+    const start = Date.parse(`${raw}T00:00:00.000Z`)
+    if (!Number.isFinite(start)) return null
+    return bound === 'end' ? start + DAY_MS - 1 : start
+  }
+
+  const asNumber = Number(raw)
+  if (Number.isFinite(asNumber)) return asNumber
+
+  const asDate = Date.parse(raw)
+  return Number.isFinite(asDate) ? asDate : null
+}
+
+/**
+ * Shared by `GET /api/cases` and the case history page. Unknown or malformed
+ * filters are dropped rather than rejected so a stale link still lists cases.
+ */
+export function parseCaseHistoryQuery(searchParams: SearchParamsLike): CaseHistoryQuery {
+  return {
+    riskLevel: parseRiskLevel(searchParams.get('risk')),
+    from: parseDateBound(searchParams.get('from'), 'start'),
+    to: parseDateBound(searchParams.get('to'), 'end'),
+    page: parsePositiveInt(searchParams.get('page')) ?? 1,
+    pageSize: Math.min(parsePositiveInt(searchParams.get('pageSize')) ?? DEFAULT_CASE_PAGE_SIZE, MAX_CASE_PAGE_SIZE),
+  }
+}
+
+export function formatCaseDuration(ms: number | null): string {
+  if (ms === null) return '--'
+  const totalMinutes = Math.round(ms / 60_000)
+  if (totalMinutes < 1) return 'Under a minute'
+  return totalMinutes === 1 ? '1 minute' : `${totalMinutes} minutes`
+}
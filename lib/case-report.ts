@@ -0,0 +1,167 @@
+import { DISCLOSURE_PLAYBOOKS, isDisclosureKind } from '@/lib/disclosure'
+import { DISCLOSURE_SIGNAL_ID_PREFIX, SCAM_SCRIPT_SIGNAL_ID } from '@/lib/live-coach'
+import {
+  AdviceTimelineEvent,
+  CoachingAdvice,
+  LiveSessionSnapshot,
+  PostCallSummary,
+  RiskLevel,
+  SessionStatus,
+  TranscriptChunk,
+} from '@/lib/live-types'
+import { buildHeuristicPostCallSummary } from '@/lib/post-call-summary'
+import { RiskRuleCategory, getActiveRulePacks } from '@/lib/risk-rules'
+import { ScamType } from '@/lib/scam-types'
+
+export type CaseReportSignal = {
+  ruleId: string
+  label: string
+  category: RiskRuleCategory | null
+  firstSeenAt: number
+}
+
+export type CaseReportPeak = {
+  riskScore: number
+  riskLevel: RiskLevel
+  at: number
+  quote: TranscriptChunk | null
+}
+
+export type CaseReport = {
+  callId: string
+  slug: string
+  status: SessionStatus
+  startedAt: number | null
+  endedAt: number | null
+  durationMs: number | null
+  scamType: ScamType
+  finalAdvice: CoachingAdvice
+  peak: CaseReportPeak | null
+  timeline: AdviceTimelineEvent[]
+  signals: CaseReportSignal[]
+  transcript: TranscriptChunk[]
+  summary: PostCallSummary
+}
+
+const SIGNAL_CATEGORY_LABELS: Record<RiskRuleCategory, string> = {
+  payment: 'Asked for payment',
+  credentials: 'Asked for a code or password',
+  'personal-data': 'Asked for personal details',
+  'remote-access': 'Asked for access to a device',
+  urgency: 'Pressure to act right away',
+  threat: 'Threats or consequences',
+  secrecy: 'Asked to keep it secret',
+  impersonation: 'Claimed to be an official or company',
+  pretext: 'Described a made-up problem',
+}
+
+function buildRuleCategoryLookup(): Map<string, RiskRuleCategory> {
+  const lookup = new Map<string, RiskRuleCategory>()
+
+  for (const pack of getActiveRulePacks()) {
+    for (const rule of pack.rules) {
+      lookup.set(rule.id, rule.category)
+    }
+  }
+
+  return lookup
+}
+
+function collectSignals(timeline: AdviceTimelineEvent[], finalAdvice: CoachingAdvice): CaseReportSignal[] {
+  const categories = buildRuleCategoryLookup()
+  const firstSeen = new Map<string, number>()
+
+  for (const event of timeline) {
+    for (const ruleId of event.firedRuleIds) {
+      if (!firstSeen.has(ruleId)) firstSeen.set(ruleId, event.createdAt)
+    }
+  }
+
+  // Older calls have no timeline; fall back to whatever the final advice kept.
+  for (const ruleId of finalAdvice.firedRuleIds) {
+    if (!firstSeen.has(ruleId)) firstSeen.set(ruleId, finalAdvice.updatedAt)
+  }
+
+  return [...firstSeen].map(([ruleId, firstSeenAt]) => {
+    const category = categories.get(ruleId) ?? null
+    const disclosureKind = ruleId.startsWith(DISCLOSURE_SIGNAL_ID_PREFIX)
+      ? ruleId.slice(DISCLOSURE_SIGNAL_ID_PREFIX.length)
+      : null
+    const label =
+      ruleId === SCAM_SCRIPT_SIGNAL_ID
+        ? 'Followed a complete scam script'
+        : isDisclosureKind(disclosureKind)
+          ? `You shared ${DISCLOSURE_PLAYBOOKS[disclosureKind].label}`
+          : category
+            ? SIGNAL_CATEGORY_LABELS[category]
+            : ruleId
+
+    return { ruleId, label, category, firstSeenAt }
+  })
+}
+
+function findPeak(timeline: AdviceTimelineEvent[], transcript: TranscriptChunk[]): CaseReportPeak | null {
+  let peak: AdviceTimelineEvent | null = null
+
+  for (const event of timeline) {
+    if (!peak || event.riskScore > peak.riskScore) peak = event
+  }
+
+  if (!peak) return null
+
+  // The line that most likely pushed the score up is the last one heard
+  // before the peak was published.
+  let quote: TranscriptChunk | null = null
+  for (const chunk of transcript) {
+    if (chunk.isFinal && chunk.timestamp <= peak.createdAt) quote = chunk
+  }
+
+  return {
+    riskScore: peak.riskScore,
+    riskLevel: peak.riskLevel,
+    at: peak.createdAt,
+    quote,
+  }
+}
+
+export function buildCaseReport(params: {
+  session: LiveSessionSnapshot
+  timeline: AdviceTimelineEvent[]
+}): CaseReport {
+  const { session, timeline } = params
+  const transcript = session.transcript.filter((chunk) => chunk.isFinal)
+  const signals = collectSignals(timeline, session.advice)
+  const peak = findPeak(timeline, transcript)
+  const scamType =
+    [...timeline].reverse().find((event) => event.scamType !== 'unknown')?.scamType ?? session.advice.scamType
+
+  const startedAt = transcript[0]?.timestamp ?? timeline[0]?.createdAt ?? null
+  const endedAt =
+    session.status === 'ended' || session.status === 'failed'
+      ? Math.max(session.updatedAt, transcript[transcript.length - 1]?.timestamp ?? 0)
+      : null
+
+  return {
+    callId: session.callId,
+    slug: session.slug,
+    status: session.status,
+    startedAt,
+    endedAt,
+    durationMs: startedAt !== null && endedAt !== null ? Math.max(0, endedAt - startedAt) : null,
+    scamType,
+    finalAdvice: session.advice,
+    peak,
+    timeline,
+    signals,
+    transcript,
+    // Calls that ended before summaries were stored still get a recap.
+    summary:
+      session.summary ??
+      buildHeuristicPostCallSummary({
+        transcript,
+        advice: session.advice,
+        peakRiskScore: peak?.riskScore ?? session.advice.riskScore,
+        now: endedAt ?? session.updatedAt,
+      }),
+  }
+}
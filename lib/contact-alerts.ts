@@ -0,0 +1,165 @@
+import { BRAND_NAME } from '@/lib/brand'
+import { DISCLOSURE_PLAYBOOKS, DisclosureKind } from '@/lib/disclosure'
+import { collectTranscriptSignals } from '@/lib/live-coach'
+import type { CoachingAdvice, TranscriptChunk } from '@/lib/live-types'
+import { ContactNotification, Notifier, getNotifiers } from '@/lib/notifier'
+import { getConfiguredBaseUrl } from '@/lib/public-url'
+import { getScamTypeLabel } from '@/lib/scam-types'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { getTenantAccount } from '@/lib/tenant-auth'
+import { listTenantViewers } from '@/lib/tenant-viewers'
+import { TrustedContact, listTrustedContacts } from '@/lib/trusted-contacts'
+
+/**
+ * - `high-risk`: stabilized advice reached the `high` risk level
+ * - `disclosure`: the protected caller gave away sensitive data
+ */
+export type ContactAlertReason = 'high-risk' | 'disclosure'
+
+export type ContactAlert = {
+  reason: ContactAlertReason
+  riskScore: number
+  scamTypeLabel: string | null
+  claimedIdentity: string | null
+  disclosures: DisclosureKind[]
+  // Last four digits of the protected number, so contacts know whose call it is.
+  phoneLastFour: string | null
+  // The caregiver live view; only for contacts who accepted a viewer invite,
+  // since nobody else can open it.
+  watchUrl: string | null
+}
+
+const MAX_CLAIMED_IDENTITY_LENGTH = 80
+
+/** What the other party said about who they are, e.g. "calling from the IRS". */
+function findClaimedIdentity(transcript: TranscriptChunk[]): string | null {
+  const signal = collectTranscriptSignals(transcript).find(
+    (candidate) => candidate.weight > 0 && candidate.speaker !== 'caller' && candidate.category === 'impersonation',
+  )
+  if (!signal) return null
+
+  const text = signal.text.trim()
+  return text.length > MAX_CLAIMED_IDENTITY_LENGTH ? `${text.slice(0, MAX_CLAIMED_IDENTITY_LENGTH - 1)}…` : text
+}
+
+// Playbook labels address the caller ("your card number"); contacts read
+// about them in the third person.
+function describeDisclosure(kind: DisclosureKind): string {
+  return DISCLOSURE_PLAYBOOKS[kind].label.replace(/\byour\b/g, 'their')
+}
+
+export function formatContactAlert(alert: ContactAlert): ContactNotification {
+  const whose = alert.phoneLastFour ? `the phone ending ${alert.phoneLastFour}` : 'a phone you look out for'
+  const lines: string[] = []
+
+  if (alert.reason === 'disclosure' && alert.disclosures.length > 0) {
+    lines.push(
+      `${BRAND_NAME} alert: on a suspicious call to ${whose}, the person answering may have shared ${alert.disclosures.map(describeDisclosure).join(' and ')}.`,
+    )
+  } else {
+    lines.push(`${BRAND_NAME} alert: a call to ${whose} looks like a scam (risk ${alert.riskScore}/100).`)
+  }
+
+  if (alert.scamTypeLabel) lines.push(`Pattern: ${alert.scamTypeLabel}.`)
+  if (alert.claimedIdentity) lines.push(`The caller claimed: "${alert.claimedIdentity}".`)
+  lines.push('Please check on them.')
+  if (alert.watchUrl) lines.push(`Watch the call: ${alert.watchUrl}`)
+
+  return {
+    subject:
+      alert.reason === 'disclosure'
+        ? `${BRAND_NAME} alert: personal details shared on a suspicious call`
+        : `${BRAND_NAME} alert: possible scam call in progress`,
+    text: lines.join(' '),
+  }
+}
+
+// Inserts the de-dup row before sending; null means this contact already
+// got (or is getting) this alert for this call on this channel.
+async function claimDelivery(params: {
+  slug: string
+  callSid: string
+  contact: TrustedContact
+  notifier: Notifier
+  reason: ContactAlertReason
+}): Promise<number | null> {
+  const supabase = createAdminClient()
+  const { data, error } = await supabase
+    .from('trusted_contact_alerts')
+    .insert({
+      slug: params.slug,
+      call_sid: params.callSid,
+      contact_id: params.contact.id,
+      notifier: params.notifier.id,
+      reason: params.reason,
+    })
+    .select('id')
+    .single()
+
+  if (error?.code === '23505') return null
+  if (error) {
+    throw new Error(`Failed to record contact alert: ${error.message}`)
+  }
+
+  return (data as { id: number }).id
+}
+
+async function recordDeliveryError(id: number, message: string): Promise<void> {
+  const supabase = createAdminClient()
+  await supabase.from('trusted_contact_alerts').update({ error: message.slice(0, 500) }).eq('id', id)
+}
+
+/**
+ * Tell every trusted contact of the tenant about a dangerous call, once per
+ * call, reason and channel. A failed delivery is recorded on its alert row
+ * and not retried, so a flaky provider cannot turn into repeated messages.
+ */
+export async function sendContactAlerts(params: {
+  callSid: string
+  slug: string
+  reason: ContactAlertReason
+  advice: CoachingAdvice
+  transcript: TranscriptChunk[]
+}): Promise<void> {
+  const contacts = await listTrustedContacts(params.slug)
+  const notifiers = getNotifiers()
+  if (contacts.length === 0 || notifiers.length === 0) return
+
+  const tenant = await getTenantAccount(params.slug)
+  const baseUrl = getConfiguredBaseUrl()
+  const watchUrl = baseUrl ? `${baseUrl}/t/${params.slug}/watch` : null
+  const viewerContactIds = new Set(
+    (await listTenantViewers(params.slug).catch(() => []))
+      .filter((viewer) => viewer.acceptedAt !== null)
+      .map((viewer) => viewer.contactId),
+  )
+  const alert: ContactAlert = {
+    reason: params.reason,
+    riskScore: params.advice.riskScore,
+    scamTypeLabel: getScamTypeLabel(params.advice.scamType),
+    claimedIdentity: findClaimedIdentity(params.transcript),
+    disclosures: params.advice.disclosures,
+    phoneLastFour: tenant?.phoneNumber?.slice(-4) ?? null,
+    watchUrl: null,
+  }
+
+  const deliveries = contacts.flatMap((contact) =>
+    notifiers.filter((notifier) => notifier.canReach(contact)).map((notifier) => ({ contact, notifier })),
+  )
+
+  await Promise.all(
+    deliveries.map(async ({ contact, notifier }) => {
+      const alertId = await claimDelivery({ ...params, contact, notifier })
+      if (alertId === null) return
+
+      try {
+        await notifier.notify(
+          contact,
+          formatContactAlert({ ...alert, watchUrl: viewerContactIds.has(contact.id) ? watchUrl : null }),
+        )
+      } catch (error) {
+        await recordDeliveryError(alertId, error instanceof Error ? error.message : 'Unknown error').catch(() => {})
+      }
+    }),
+  )
+}
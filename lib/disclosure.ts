@@ -0,0 +1,214 @@
+import type { TranscriptChunk } from '@/lib/live-types'
+import { REDACTED_NUMBER_PATTERN, getRedactedDigitCount } from '@/lib/redaction'
+
+/** What the protected caller can give away on a call, most time-critical first. */
+export const DISCLOSURE_KINDS = ['remote-access', 'one-time-code', 'card-number', 'account-login', 'ssn'] as const
+
+export type DisclosureKind = (typeof DISCLOSURE_KINDS)[number]
+
+export type DisclosurePlaybook = {
+  // Reads after "You shared", e.g. "You shared your card number".
+  label: string
+  feedback: string
+  whatToSay: string
+  whatToDo: string
+  recoverySteps: string[]
+}
+
+export const DISCLOSURE_PLAYBOOKS: Record<DisclosureKind, DisclosurePlaybook> = {
+  'remote-access': {
+    label: 'access to your computer',
+    feedback: 'You may have let them into your computer. They can see and control it while it is connected.',
+    whatToSay: 'I am turning my computer off now. Goodbye.',
+    whatToDo: 'Hang up, then unplug your computer from the internet or switch it off.',
+    recoverySteps: [
+      'Uninstall the remote-access app they had you install.',
+      'Have the computer checked before you use it for banking again.',
+      'From another device, change your email and bank passwords.',
+    ],
+  },
+  'one-time-code': {
+    label: 'a one-time code',
+    feedback: 'You read out a one-time code. It can be used to get into your account within minutes.',
+    whatToSay: 'I am ending this call now.',
+    whatToDo: 'Hang up and call your bank on the number on your card right away.',
+    recoverySteps: [
+      'Ask your bank to lock the account the code was for.',
+      'Change that account password and sign out of other devices.',
+    ],
+  },
+  'card-number': {
+    label: 'your card number',
+    feedback: 'You read out a card number. Block the card before it can be used.',
+    whatToSay: 'I am ending this call now.',
+    whatToDo: 'Hang up and call the number on the back of your card to block it.',
+    recoverySteps: [
+      'Ask your bank to block the card and send a new one.',
+      'Check recent transactions and dispute any you do not recognize.',
+    ],
+  },
+  'account-login': {
+    label: 'an account password or PIN',
+    feedback: 'You shared a password or PIN. Change it before they can use it.',
+    whatToSay: 'I am ending this call now.',
+    whatToDo: 'Hang up and change that password or PIN right away.',
+    recoverySteps: [
+      'Change the password or PIN you shared, and anywhere else you use it.',
+      'Sign out of other devices and turn on two-step sign-in.',
+    ],
+  },
+  ssn: {
+    label: 'your Social Security number',
+    feedback: 'You shared part of your Social Security number. Protect your credit now.',
+    whatToSay: 'I am ending this call now.',
+    whatToDo: 'Hang up. Do not confirm any more personal details.',
+    recoverySteps: [
+      'Place a free credit freeze with Equifax, Experian and TransUnion.',
+      'Report it at IdentityTheft.gov for a recovery plan.',
+    ],
+  },
+}
+
+/** One thing the caller gave away, pointing at the line where it happened. */
+export type Disclosure = {
+  kind: DisclosureKind
+  chunkId: string
+  start: number
+  end: number
+  text: string
+}
+
+const DIGIT_TOKEN = String.raw`(?:\d|\b(?:zero|one|two|three|four|five|six|seven|eight|nine)\b)`
+const DIGIT_TOKEN_PATTERN = new RegExp(DIGIT_TOKEN, 'gi')
+const DIGIT_RUN_PATTERN = new RegExp(`${DIGIT_TOKEN}(?:[\\s,.-]*${DIGIT_TOKEN})*`, 'gi')
+const REDACTED_NUMBER_RUN_PATTERN = new RegExp(REDACTED_NUMBER_PATTERN.source, 'g')
+const MIN_DISCLOSED_DIGITS = 4
+const MIN_CARD_DIGITS = 13
+const MAX_CODE_DIGITS = 8
+
+const CARD_CONTEXT_PATTERN = /\b(?:card|credit|debit|visa|mastercard|amex|cvv|security code on the back)\b/i
+const SSN_CONTEXT_PATTERN = /\b(?:social(?: security)?|ssn)\b/i
+const LOGIN_CONTEXT_PATTERN = /\b(?:pin|passcode|password)\b/i
+// "Zip code" and "area code" are asked for on ordinary calls too.
+const CODE_CONTEXT_PATTERN = /\b(?:(?<!\b(?:zip|postal|area) )code|verification|one[- ]time|otp)\b/i
+const LOGIN_PROMPT_PATTERN = /\b(?:password|passcode|pin|username|user name|login|log[- ]?in)\b/i
+// Something has to follow "is"/"was": "I forgot what my PIN is" gives nothing away.
+const LOGIN_STATEMENT_PATTERN = /\b(?:password|passcode|pin|username|user name|login)\s+(?:is|was)\s+([\w@.-]+)/i
+const LOGIN_NON_VALUE_PATTERN = /^(?:not|nothing|something|none|private|secret|confidential|personal)$/i
+const REMOTE_ACCESS_APP_PATTERN =
+  /\b(?:anydesk|any desk|teamviewer|team viewer|ultraviewer|logmein|log me in|quick ?support|quick ?assist|screen ?connect|remote (?:access|desktop|support|control))\b/i
+const REMOTE_ACCESS_DONE_PATTERN = /\b(?:installed|downloaded|download(?:ing)? (?:it|now)|it'?s (?:installing|open|running)|i see (?:the|a) (?:code|number|id))\b/i
+const CALLER_AGREEMENT_PATTERN = /^\s*(?:ok(?:ay)?|yes|yeah|yep|sure|alright|all right|fine|done|got it)\b/i
+const CALLER_REFUSAL_PATTERN =
+  /\b(?:no|not|never|won't|wont|will not|don't|dont|do not|can't|cannot|refuse|wouldn't)\b/i
+
+function countDigits(text: string): number {
+  return text.match(DIGIT_TOKEN_PATTERN)?.length ?? 0
+}
+
+// Only the question being answered decides what a run of digits was; the
+// caller's own numbers (a phone number, an address) are not disclosures.
+function classifyDigitRun(digitCount: number, prompt: string): DisclosureKind | null {
+  if (digitCount < MIN_DISCLOSED_DIGITS) return null
+  if (SSN_CONTEXT_PATTERN.test(prompt) && digitCount < MIN_CARD_DIGITS) return 'ssn'
+  if (CARD_CONTEXT_PATTERN.test(prompt)) return 'card-number'
+  if (digitCount > MAX_CODE_DIGITS) return null
+  if (LOGIN_CONTEXT_PATTERN.test(prompt)) return 'account-login'
+  if (CODE_CONTEXT_PATTERN.test(prompt)) return 'one-time-code'
+  return null
+}
+
+function detectDigitDisclosure(chunk: TranscriptChunk, prompt: string): Disclosure | null {
+  if (!prompt || CALLER_REFUSAL_PATTERN.test(chunk.text)) return null
+
+  const runs = [
+    ...Array.from(chunk.text.matchAll(DIGIT_RUN_PATTERN), (match) => ({ match, digits: countDigits(match[0]) })),
+    // Transcripts redacted at storage time keep the digit count in the placeholder.
+    ...Array.from(chunk.text.matchAll(REDACTED_NUMBER_RUN_PATTERN), (match) => ({
+      match,
+      digits: getRedactedDigitCount(match[0]),
+    })),
+  ]
+
+  for (const { match, digits } of runs) {
+    const kind = classifyDigitRun(digits, prompt)
+    if (!kind) continue
+
+    const start = match.index ?? 0
+    return { kind, chunkId: chunk.id, start, end: start + match[0].length, text: match[0] }
+  }
+
+  return null
+}
+
+// The caller states a login value, and only after the other party asked for one.
+function detectLoginDisclosure(chunk: TranscriptChunk, prompt: string): Disclosure | null {
+  if (!LOGIN_PROMPT_PATTERN.test(prompt) || CALLER_REFUSAL_PATTERN.test(chunk.text)) return null
+
+  const match = LOGIN_STATEMENT_PATTERN.exec(chunk.text)
+  if (!match || LOGIN_NON_VALUE_PATTERN.test(match[1])) return null
+
+  const start = match.index
+  return { kind: 'account-login', chunkId: chunk.id, start, end: chunk.text.length, text: chunk.text.slice(start) }
+}
+
+// Either the caller names the app and says it is installed, or they go along
+// with the other party's install instructions without pushing back.
+function detectRemoteAccessDisclosure(chunk: TranscriptChunk, prompt: string): Disclosure | null {
+  if (CALLER_REFUSAL_PATTERN.test(chunk.text)) return null
+
+  const mentionsApp = REMOTE_ACCESS_APP_PATTERN.test(chunk.text)
+  const promptedForApp = REMOTE_ACCESS_APP_PATTERN.test(prompt)
+  const done = REMOTE_ACCESS_DONE_PATTERN.exec(chunk.text)
+  const agreed = CALLER_AGREEMENT_PATTERN.exec(chunk.text)
+  const match = (mentionsApp || promptedForApp) && done ? done : promptedForApp && agreed ? agreed : null
+
+  if (!match) return null
+
+  const start = match.index + (match[0].length - match[0].trimStart().length)
+  return { kind: 'remote-access', chunkId: chunk.id, start, end: match.index + match[0].length, text: match[0].trim() }
+}
+
+/**
+ * Walk the caller track and note the first time each kind of sensitive data
+ * was given away. The other party's most recent line is the prompt, so a bare
+ * "4 8 1 9 2 2" counts as a code only when they just asked for one, and not
+ * when the caller pushes back in the same breath.
+ */
+export function detectDisclosures(transcript: TranscriptChunk[]): Disclosure[] {
+  const found = new Map<DisclosureKind, Disclosure>()
+  let prompt = ''
+
+  for (const chunk of transcript) {
+    if (chunk.speaker === 'other' || chunk.speaker === 'unknown') {
+      prompt = chunk.text
+      continue
+    }
+
+    if (chunk.speaker !== 'caller') continue
+
+    const candidates = [
+      detectRemoteAccessDisclosure(chunk, prompt),
+      detectDigitDisclosure(chunk, prompt),
+      detectLoginDisclosure(chunk, prompt),
+    ]
+
+    for (const disclosure of candidates) {
+      if (disclosure && !found.has(disclosure.kind)) {
+        found.set(disclosure.kind, disclosure)
+      }
+    }
+  }
+
+  return Array.from(found.values())
+}
+
+export function isDisclosureKind(value: unknown): value is DisclosureKind {
+  return typeof value === 'string' && (DISCLOSURE_KINDS as readonly string[]).includes(value)
+}
+
+/** Disclosures in playbook priority order, without duplicates. */
+export function sortDisclosureKinds(kinds: Iterable<DisclosureKind>): DisclosureKind[] {
+  const present = new Set(kinds)
+  return DISCLOSURE_KINDS.filter((kind) => present.has(kind))
+}
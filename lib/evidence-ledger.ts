@@ -0,0 +1,135 @@
+import type { AdviceEvidence } from '@/lib/live-types'
+
+export type EvidenceLedgerEntry = {
+  key: string
+  signalId: string
+  chunkId: string
+  weight: number
+  observedAt: number
+}
+
+export type EvidenceLedger = {
+  entries: EvidenceLedgerEntry[]
+  updatedAt: number
+}
+
+const MAX_LEDGER_ENTRIES = 200
+const MIN_DECAYED_WEIGHT = 0.5
+
+export function createEvidenceLedger(): EvidenceLedger {
+  return {
+    entries: [],
+    updatedAt: 0,
+  }
+}
+
+function decayWeight(entry: EvidenceLedgerEntry, now: number, halfLifeMs: number): number {
+  const ageMs = Math.max(0, now - entry.observedAt)
+  return entry.weight * 0.5 ** (ageMs / halfLifeMs)
+}
+
+/**
+ * Add heuristic evidence to the ledger. Each signal/chunk pair is recorded
+ * once at the time it was first seen, so re-reading the same transcript window
+ * every cycle does not reset its decay clock.
+ */
+export function recordEvidence(
+  ledger: EvidenceLedger,
+  evidence: AdviceEvidence[],
+  params: {
+    now: number
+    halfLifeMs: number
+  },
+): EvidenceLedger {
+  const entries = new Map(ledger.entries.map((entry) => [entry.key, entry]))
+
+  for (const item of evidence) {
+    if (item.source !== 'heuristic' || !item.ruleId || item.weight === 0) continue
+
+    const key = `${item.ruleId}:${item.chunkId}`
+    const existing = entries.get(key)
+
+    if (existing && Math.abs(existing.weight) >= Math.abs(item.weight)) continue
+
+    entries.set(key, {
+      key,
+      signalId: item.ruleId,
+      chunkId: item.chunkId,
+      weight: item.weight,
+      observedAt: existing?.observedAt ?? params.now,
+    })
+  }
+
+  const retained = Array.from(entries.values())
+    .filter((entry) => Math.abs(decayWeight(entry, params.now, params.halfLifeMs)) >= MIN_DECAYED_WEIGHT)
+    .sort((a, b) => a.observedAt - b.observedAt)
+    .slice(-MAX_LEDGER_ENTRIES)
+
+  return {
+    entries: retained,
+    updatedAt: params.now,
+  }
+}
+
+/**
+ * Sum of decayed evidence, counting each signal once at its strongest. This
+ * mirrors how a single heuristic pass counts each fired rule once, so a phrase
+ * repeated across many chunks does not stack.
+ */
+export function getDecayedEvidenceTotal(ledger: EvidenceLedger, now: number, halfLifeMs: number): number {
+  const strongest = new Map<string, number>()
+
+  for (const entry of ledger.entries) {
+    const decayed = decayWeight(entry, now, halfLifeMs)
+    const existing = strongest.get(entry.signalId)
+
+    if (existing === undefined || Math.abs(decayed) > Math.abs(existing)) {
+      strongest.set(entry.signalId, decayed)
+    }
+  }
+
+  let total = 0
+  for (const weight of strongest.values()) {
+    total += weight
+  }
+
+  return total
+}
+
+export function toEvidenceLedger(payload: unknown): EvidenceLedger {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return createEvidenceLedger()
+  }
+
+  const data = payload as Record<string, unknown>
+  const entries = Array.isArray(data.entries)
+    ? data.entries.flatMap((item): EvidenceLedgerEntry[] => {
+        if (!item || typeof item !== 'object' || Array.isArray(item)) return []
+
+        const entry = item as Record<string, unknown>
+        if (
+          typeof entry.signalId !== 'string' ||
+          typeof entry.chunkId !== 'string' ||
+          typeof entry.weight !== 'number' ||
+          typeof entry.observedAt !== 'number'
+        ) {
+          return []
+        }
+
+        return [
+          {
+            key: `${entry.signalId}:${entry.chunkId}`,
+            signalId: entry.signalId,
+            chunkId: entry.chunkId,
+            weight: entry.weight,
+            observedAt: entry.observedAt,
+          },
+        ]
+      })
+    : []
+
+  return {
+    entries,
+    updatedAt: typeof data.updatedAt === 'number' ? data.updatedAt : 0,
+  }
+}
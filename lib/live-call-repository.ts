@@ -0,0 +1,165 @@
+import type { EvidenceLedger } from '@/lib/evidence-ledger'
+import type {
+  AdviceSource,
+  AdviceTimelineEvent,
+  CaseHistoryEntry,
+  CoachingAdvice,
+  DisclosureEvent,
+  EscalationStatus,
+  LiveSessionSnapshot,
+  PostCallSummary,
+  RiskLevel,
+  TranscriptChunk,
+  TranscriptSpeaker,
+} from '@/lib/live-types'
+import type { TranscriptPurgeAction } from '@/lib/retention'
+
+export type LiveCallSummary = {
+  callSid: string
+  slug: string
+  status: string
+  lastAdviceAt: number | null
+  advice: CoachingAdvice
+  evidenceLedger: EvidenceLedger
+  peakRiskScore: number
+  postCallSummary: PostCallSummary | null
+  escalationStatus: EscalationStatus | null
+}
+
+export type UpsertLiveCallSessionParams = {
+  callSid: string
+  slug: string
+  status?: string | null
+}
+
+export type SetLiveCallAdviceOptions = {
+  lastError?: string | null
+  analyzing?: boolean
+  evidenceLedger?: EvidenceLedger
+  /** Recorded on the advice timeline; defaults to `heuristic`. */
+  source?: AdviceSource
+  rawRiskScore?: number | null
+}
+
+export type SetLiveCallEscalationStatusOptions = {
+  /**
+   * The leg the update is about. Ignored when the call has moved on to another
+   * leg, so a stale callback cannot overwrite a newer escalation. Callbacks can
+   * beat `setLiveCallEscalationLeg`, so an unset leg is filled in from here.
+   */
+  contactCallSid?: string
+  error?: string | null
+}
+
+export type AppendTranscriptChunkParams = {
+  callSid: string
+  sourceEventId: string
+  speaker: TranscriptSpeaker
+  text: string
+  isFinal: boolean
+  timestamp: number
+}
+
+export type ListLiveCallsParams = {
+  slug: string
+  /** Filters on the peak risk level reached during the call. */
+  riskLevel?: RiskLevel | null
+  /** Inclusive bounds on the call start time, in epoch ms. */
+  from?: number | null
+  to?: number | null
+  /** Only calls that have not reached a terminal status (`ended_at` unset). */
+  openOnly?: boolean
+  page: number
+  pageSize: number
+}
+
+export type LiveCallPage = {
+  cases: CaseHistoryEntry[]
+  total: number
+}
+
+export type PurgeExpiredCallDataParams = {
+  slug: string
+  /** Calls started before this epoch ms are purged. */
+  before: number
+  action: TranscriptPurgeAction
+  limit: number
+}
+
+export type PurgeExpiredCallDataResult = {
+  callsPurged: number
+  transcriptChunks: number
+  adviceEvents: number
+}
+
+/**
+ * Durable live call state. `lib/live-store.ts` delegates to whichever
+ * implementation is active: Supabase in production, in-memory for local demos
+ * and tests.
+ */
+export type LiveCallRepository = {
+  upsertLiveCallSession: (params: UpsertLiveCallSessionParams) => Promise<void>
+  setLiveCallStatus: (callSid: string, status: string, lastError?: string | null) => Promise<void>
+  setLiveCallAnalyzing: (callSid: string, analyzing: boolean) => Promise<void>
+  setLiveCallAdvice: (callSid: string, advice: CoachingAdvice, options?: SetLiveCallAdviceOptions) => Promise<void>
+  setLiveCallError: (callSid: string, message: string) => Promise<void>
+  setPostCallSummary: (callSid: string, summary: PostCallSummary) => Promise<void>
+  /**
+   * Claims the call's conference bridge for a contact. Returns false when the
+   * call is unknown or over, or another contact is already dialing or joined.
+   */
+  startLiveCallEscalation: (callSid: string, contactId: string) => Promise<boolean>
+  setLiveCallEscalationLeg: (callSid: string, contactCallSid: string) => Promise<void>
+  setLiveCallEscalationStatus: (
+    callSid: string,
+    status: EscalationStatus,
+    options?: SetLiveCallEscalationStatusOptions,
+  ) => Promise<void>
+  /** Keeps the first event per kind; repeats of a kind already recorded are ignored. */
+  recordDisclosures: (callSid: string, events: DisclosureEvent[]) => Promise<void>
+  appendTranscriptChunk: (params: AppendTranscriptChunkParams) => Promise<void>
+  getTranscriptChunks: (callSid: string, limit: number) => Promise<TranscriptChunk[]>
+  getLiveCallSummary: (callSid: string) => Promise<LiveCallSummary | null>
+  getLiveSessionSnapshot: (
+    callSid: string,
+    slug: string,
+    transcriptLimit?: number,
+  ) => Promise<LiveSessionSnapshot | null>
+  /** Oldest first. Returns null when the call does not exist for the tenant. */
+  getAdviceTimeline: (callSid: string, slug: string, limit?: number) => Promise<AdviceTimelineEvent[] | null>
+  /** Newest first; `page` is 1-based. */
+  listLiveCalls: (params: ListLiveCallsParams) => Promise<LiveCallPage>
+  /**
+   * Deletes or anonymizes transcript chunks and advice events for up to
+   * `limit` expired calls, marks them purged and writes an audit record.
+   */
+  purgeExpiredCallData: (params: PurgeExpiredCallDataParams) => Promise<PurgeExpiredCallDataResult>
+}
+
+export function normalizeStoredSpeaker(value: TranscriptSpeaker): 'caller' | 'other' | 'unknown' {
+  if (value === 'caller') return 'caller'
+  if (value === 'other') return 'other'
+  return 'unknown'
+}
+
+export function parseTimestampMs(value: unknown): number {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    if (value > 1_000_000_000_000) return Math.round(value)
+    if (value > 1_000_000_000) return Math.round(value * 1000)
+  }
+
+  if (typeof value === 'string') {
+    const asNumber = Number(value)
+    if (Number.isFinite(asNumber)) {
+      if (asNumber > 1_000_000_000_000) return Math.round(asNumber)
+      if (asNumber > 1_000_000_000) return Math.round(asNumber * 1000)
+    }
+
+    const asDate = Date.parse(value)
+    if (Number.isFinite(asDate)) {
+      return asDate
+    }
+  }
+
+  return Date.now()
+}
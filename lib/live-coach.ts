@@ -1,36 +1,112 @@
 import { z } from 'zod'
-import { CoachingAdvice, TranscriptChunk, createDefaultAdvice, getRiskLevel } from '@/lib/live-types'
+import {
+  DISCLOSURE_PLAYBOOKS,
+  Disclosure,
+  DisclosureKind,
+  detectDisclosures,
+  sortDisclosureKinds,
+} from '@/lib/disclosure'
+import {
+  AdviceEvidence,
+  CoachingAdvice,
+  TranscriptChunk,
+  TranscriptSpeaker,
+  createDefaultAdvice,
+  getRiskLevel,
+} from '@/lib/live-types'
+import { LlmProvider, getLlmProvider } from '@/lib/llm-provider'
+import { REDACTED_NUMBER_PATTERN, REDACTION_PROMPT_NOTE } from '@/lib/redaction'
+import { RiskRule, RiskRuleCategory, RuleMatch, classifyScamType, matchRiskRules } from '@/lib/risk-rules'
+import { ScamSequence, detectScamSequence, getScamScriptStage } from '@/lib/scam-sequence'
+import { SCAM_TYPES, SCAM_TYPE_PLAYBOOKS, toScamType } from '@/lib/scam-types'
+
+export { ModelAdviceError } from '@/lib/llm-provider'
+
+const HEURISTIC_BASE_SCORE = 20
+const HEURISTIC_MIN_SCORE = 5
+const HEURISTIC_MAX_SCORE = 95
+const MAX_HEURISTIC_EVIDENCE = 12
+const MAX_MODEL_EVIDENCE = 6
+export const CALLER_READING_DIGITS_SIGNAL_ID = 'builtin.caller-reading-digits'
+const CALLER_READING_DIGITS_WEIGHT = 35
+const DISCLOSURE_REQUEST_CATEGORIES = new Set<RiskRuleCategory>(['credentials', 'personal-data', 'payment'])
+const DIGIT_RUN_PATTERN = /\d(?:[\s-]?\d){3,}/
+const CALLER_REFUSAL_SIGNAL_ID = 'builtin.caller-refusal'
+const CALLER_REFUSAL_WEIGHT = -6
+const NEGATION_WINDOW_BEFORE_WORDS = 4
+const NEGATION_WINDOW_AFTER_WORDS = 3
+const NEGATION_CUE_PATTERN =
+  /\b(?:no|not|never|won't|wont|will not|don't|dont|do not|can't|cannot|refuse|refusing|wouldn't|isn't|aren't|nobody|nothing)\b/i
+// Legitimate institutions often say "we will never ask for your code". Denials
+// only neutralize these categories; threats and urgency stay risky either way.
+const DENIABLE_CATEGORIES = new Set<RiskRuleCategory>([
+  'payment',
+  'credentials',
+  'personal-data',
+  'remote-access',
+])
+export const SCAM_SCRIPT_SIGNAL_ID = 'builtin.scam-script-complete'
+export const DISCLOSURE_SIGNAL_ID_PREFIX = 'builtin.disclosure.'
+const DISCLOSURE_WEIGHT = 40
+// Once something was given away the call is high risk no matter how polite
+// the rest of it sounds.
+const DISCLOSURE_MIN_SCORE = 70
+const SCAM_SCRIPT_IN_ORDER_WEIGHT = 20
+const SCAM_SCRIPT_OUT_OF_ORDER_WEIGHT = 12
+const SPOKEN_DIGIT_RUN_PATTERN =
+  /\b(?:zero|one|two|three|four|five|six|seven|eight|nine)(?:[\s,-]+(?:zero|one|two|three|four|five|six|seven|eight|nine)\b){3,}/i
+
+// A request only counts fully when the other party makes it. The protected
+// caller repeating or refusing a phrase is weak evidence on its own.
+const SPEAKER_WEIGHT: Record<TranscriptSpeaker, number> = {
+  other: 1,
+  unknown: 0.75,
+  caller: 0.35,
+  assistant: 0,
+}
+
+/** A heuristic signal as seen by call-level consumers such as post-call summaries. */
+export type TranscriptSignal = {
+  id: string
+  category: RiskRuleCategory | null
+  speaker: TranscriptSpeaker
+  chunkId: string
+  text: string
+  weight: number
+}
+
+type HeuristicSignal = {
+  id: string
+  rule: RiskRule | null
+  speaker: TranscriptSpeaker
+  chunkId: string
+  start: number
+  end: number
+  text: string
+  weight: number
+}
 
 const parsedAdviceSchema = z.object({
   riskScore: z.number().min(0).max(100),
   riskLevel: z.enum(['low', 'medium', 'high']).optional(),
+  scamType: z.enum([...SCAM_TYPES, 'unknown']).optional().catch(undefined),
   feedback: z.string().min(1).max(220),
   whatToSay: z.string().min(1).max(220),
   whatToDo: z.string().min(1).max(220),
   nextSteps: z.array(z.string().min(1).max(120)).max(2).default([]),
   confidence: z.number().min(0).max(1).optional(),
+  evidence: z
+    .array(
+      z.object({
+        chunkId: z.coerce.string().min(1),
+        quote: z.string().min(1).max(160),
+        weight: z.number().min(0).max(100).optional(),
+      }),
+    )
+    .max(MAX_MODEL_EVIDENCE)
+    .default([]),
 })
 
-const HIGH_RISK_PATTERNS = [
-  /gift card/i,
-  /wire transfer/i,
-  /crypto|bitcoin/i,
-  /one[- ]?time pass(code)?|otp|verification code/i,
-  /social security|ssn/i,
-  /bank account|routing number/i,
-  /remote access|screen share|install (this|our) app/i,
-  /urgent|immediately|act now|final warning/i,
-  /arrest|warrant|lawsuit|jail/i,
-]
-
-const MEDIUM_RISK_PATTERNS = [
-  /keep this confidential|don't tell/i,
-  /suspicious activity/i,
-  /refund department|tech support/i,
-  /pay now|security hold/i,
-  /confirm your identity/i,
-]
-
 const RISK_SYSTEM_PROMPT = [
   'You are a real-time anti-scam call coach for older adults.',
   'Input is a running transcript between a caller (user) and another party.',
@@ -45,46 +121,35 @@ const RISK_SYSTEM_PROMPT = [
   'Score movement rule: usually change riskScore by at most 8 points per update.',
   'Only exceed that when there is explicit scam evidence like OTP requests, payment demands, credential harvesting, remote access, legal threats, or urgency with secrecy.',
   'If there is no meaningful new evidence, keep riskScore near previous riskScore.',
+  'Refusals by the user (for example "I will never give you my SSN") are de-escalation signals, not scam evidence.',
+  REDACTION_PROMPT_NOTE,
+  'Classify the scam type only when the storyline is clear; otherwise use "unknown".',
+  'Tailor "whatToSay" to the scam type, for example calling the bank on the number on the card for bank fraud.',
   'Output fields:',
   '{',
   '  "riskScore": number 0-100,',
   '  "riskLevel": "low" | "medium" | "high",',
+  `  "scamType": ${[...SCAM_TYPES, 'unknown'].map((value) => `"${value}"`).join(' | ')},`,
   '  "feedback": short sentence with current risk read,',
   '  "whatToSay": one sentence user can say right now,',
   '  "whatToDo": one sentence action user should take now,',
   '  "nextSteps": array of up to 2 short items,',
-  '  "confidence": number 0-1',
+  '  "confidence": number 0-1,',
+  '  "evidence": array of up to 6 { "chunkId": id in [brackets] before the line, "quote": exact words from that line that raised risk, "weight": number 0-100 }',
   '}',
+  'Only cite evidence that appears verbatim in the transcript. Use an empty array when nothing is risky.',
 ].join('\n')
 
-export class ModelAdviceError extends Error {
-  statusCode: number | null
-  retryAfterMs: number | null
-
-  constructor(
-    message: string,
-    params?: {
-      statusCode?: number | null
-      retryAfterMs?: number | null
-    },
-  ) {
-    super(message)
-    this.name = 'ModelAdviceError'
-    this.statusCode = params?.statusCode ?? null
-    this.retryAfterMs = params?.retryAfterMs ?? null
-  }
-}
-
 function getRecentTranscript(transcript: TranscriptChunk[], maxEntries = 40): TranscriptChunk[] {
   if (transcript.length <= maxEntries) return transcript
   return transcript.slice(-maxEntries)
 }
 
-function formatTranscriptForModel(transcript: TranscriptChunk[]): string {
+export function formatTranscriptForModel(transcript: TranscriptChunk[]): string {
   return transcript
     .map((entry) => {
       const speaker = entry.speaker === 'caller' ? 'Caller' : entry.speaker === 'other' ? 'Other party' : entry.speaker
-      return `${speaker}: ${entry.text}`
+      return `[${entry.id}] ${speaker}: ${entry.text}`
     })
     .join('\n')
 }
@@ -93,7 +158,7 @@ function clamp(value: number, min: number, max: number): number {
   return Math.min(max, Math.max(min, value))
 }
 
-function parseJsonObject(text: string): unknown {
+export function parseJsonObject(text: string): unknown {
   const direct = text.trim()
 
   if (direct.startsWith('{') && direct.endsWith('}')) {
@@ -113,24 +178,6 @@ function parseJsonObject(text: string): unknown {
   throw new Error('No JSON object found in model response')
 }
 
-function parseRetryAfterMs(headerValue: string | null): number | null {
-  if (!headerValue) {
-    return null
-  }
-
-  const asSeconds = Number(headerValue)
-  if (Number.isFinite(asSeconds) && asSeconds >= 0) {
-    return Math.round(asSeconds * 1000)
-  }
-
-  const asDate = Date.parse(headerValue)
-  if (!Number.isNaN(asDate)) {
-    return Math.max(0, asDate - Date.now())
-  }
-
-  return null
-}
-
 function normalizeActionText(value: string): string {
   return value.replace(/\s+/g, ' ').trim()
 }
@@ -155,7 +202,11 @@ function buildActionQueue(nextAdvice: CoachingAdvice, previousAdvice?: CoachingA
 
   add(nextAdvice.whatToDo)
 
-  if (previousAdvice) {
+  // A fresh disclosure resets the queue so damage-control steps are not pushed
+  // down by the prevention advice that came before it.
+  const newDisclosure = nextAdvice.disclosures.some((kind) => !previousAdvice?.disclosures.includes(kind))
+
+  if (previousAdvice && !newDisclosure) {
     add(previousAdvice.whatToDo)
     for (const step of previousAdvice.nextSteps) {
       add(step)
@@ -177,8 +228,15 @@ function smoothRiskScore(params: {
   nextScore: number
   confidence: number
   previousAdvice?: CoachingAdvice
+  evidenceTotal?: number
 }): number {
-  const targetScore = clamp(Math.round(params.nextScore), 0, 100)
+  // Durable evidence sets a floor: a demand that scrolled out of the transcript
+  // window keeps holding the score up until its weight decays.
+  const evidenceFloor =
+    params.evidenceTotal === undefined
+      ? 0
+      : clamp(Math.round(HEURISTIC_BASE_SCORE + params.evidenceTotal), HEURISTIC_MIN_SCORE, HEURISTIC_MAX_SCORE)
+  const targetScore = clamp(Math.round(Math.max(params.nextScore, evidenceFloor)), 0, 100)
   const previous = params.previousAdvice
 
   if (!previous) {
@@ -216,39 +274,365 @@ function smoothRiskScore(params: {
   return clamp(previousScore + Math.sign(delta) * maxStep, 0, 100)
 }
 
+function toHeuristicSignals(matches: RuleMatch[]): HeuristicSignal[] {
+  return matches.map((match) => ({
+    id: match.rule.id,
+    rule: match.rule,
+    speaker: match.speaker,
+    chunkId: match.chunkId,
+    start: match.start,
+    end: match.end,
+    text: match.text,
+    weight: match.rule.weight * SPEAKER_WEIGHT[match.speaker],
+  }))
+}
+
+function readClauseBefore(text: string, index: number): string {
+  const before = text.slice(0, index)
+  const boundary = Math.max(...['.', '!', '?', ';', ','].map((mark) => before.lastIndexOf(mark)))
+  return before
+    .slice(boundary + 1)
+    .trim()
+    .split(/\s+/)
+    .slice(-NEGATION_WINDOW_BEFORE_WORDS)
+    .join(' ')
+}
+
+function readClauseAfter(text: string, index: number): string {
+  const after = text.slice(index)
+  // A question mark does not end the window: "Gift cards? No way." is one refusal.
+  const boundary = after.search(/[.!;]/)
+  return (boundary >= 0 ? after.slice(0, boundary) : after)
+    .trim()
+    .split(/\s+/)
+    .slice(0, NEGATION_WINDOW_AFTER_WORDS)
+    .join(' ')
+}
+
+function isNegatedMatch(text: string, signal: HeuristicSignal): boolean {
+  if (NEGATION_CUE_PATTERN.test(readClauseBefore(text, signal.start))) {
+    return true
+  }
+
+  // "Gift cards? No way." only reads as a refusal from the caller's side.
+  return signal.speaker === 'caller' && NEGATION_CUE_PATTERN.test(readClauseAfter(text, signal.end))
+}
+
+/**
+ * Re-read each match in the words around it. A caller refusing becomes a
+ * small de-escalation signal; the other party denying a request ("we will
+ * never ask for your PIN") stops counting as evidence.
+ */
+function applyNegation(signals: HeuristicSignal[], transcript: TranscriptChunk[]): HeuristicSignal[] {
+  const chunksById = new Map(transcript.map((chunk) => [chunk.id, chunk]))
+  const resolved: HeuristicSignal[] = []
+
+  for (const signal of signals) {
+    const chunk = chunksById.get(signal.chunkId)
+    if (!chunk || !signal.rule || signal.weight <= 0 || !isNegatedMatch(chunk.text, signal)) {
+      resolved.push(signal)
+      continue
+    }
+
+    if (signal.speaker === 'caller') {
+      resolved.push({
+        ...signal,
+        id: CALLER_REFUSAL_SIGNAL_ID,
+        rule: null,
+        weight: CALLER_REFUSAL_WEIGHT,
+      })
+      continue
+    }
+
+    if (!DENIABLE_CATEGORIES.has(signal.rule.category)) {
+      resolved.push(signal)
+    }
+  }
+
+  return resolved
+}
+
+function collectFiredSignals(signals: HeuristicSignal[]): HeuristicSignal[] {
+  const fired = new Map<string, HeuristicSignal>()
+
+  for (const signal of signals) {
+    const existing = fired.get(signal.id)
+    if (!existing || Math.abs(signal.weight) > Math.abs(existing.weight)) {
+      fired.set(signal.id, signal)
+    }
+  }
+
+  return Array.from(fired.values())
+}
+
+function pickAdviceTemplate(signals: HeuristicSignal[]) {
+  let best: HeuristicSignal | null = null
+
+  for (const signal of signals) {
+    if (!signal.rule?.advice || signal.weight <= 0) continue
+    if (!best || signal.weight > best.weight) {
+      best = signal
+    }
+  }
+
+  return best?.rule?.advice ?? null
+}
+
+/**
+ * The caller reading digits aloud right after the other party asked for a
+ * code, account, or card number is the moment a scam succeeds, so it gets its
+ * own signal instead of waiting for a rule pack to notice.
+ */
+function detectCallerReadingDigits(
+  transcript: TranscriptChunk[],
+  signals: HeuristicSignal[],
+): HeuristicSignal | null {
+  const requestChunkIds = new Set(
+    signals
+      .filter((signal) => signal.speaker !== 'caller' && signal.rule && DISCLOSURE_REQUEST_CATEGORIES.has(signal.rule.category))
+      .map((signal) => signal.chunkId),
+  )
+
+  let requestIndex = -1
+  transcript.forEach((chunk, index) => {
+    if (requestChunkIds.has(chunk.id)) {
+      requestIndex = index
+    }
+  })
+
+  if (requestIndex < 0) {
+    return null
+  }
+
+  let detected: HeuristicSignal | null = null
+
+  for (const chunk of transcript.slice(requestIndex + 1)) {
+    if (chunk.speaker !== 'caller') continue
+
+    const match =
+      DIGIT_RUN_PATTERN.exec(chunk.text) ??
+      SPOKEN_DIGIT_RUN_PATTERN.exec(chunk.text) ??
+      REDACTED_NUMBER_PATTERN.exec(chunk.text)
+    if (!match) continue
+
+    detected = {
+      id: CALLER_READING_DIGITS_SIGNAL_ID,
+      rule: null,
+      speaker: 'caller',
+      chunkId: chunk.id,
+      start: match.index,
+      end: match.index + match[0].length,
+      text: match[0],
+      weight: CALLER_READING_DIGITS_WEIGHT,
+    }
+  }
+
+  return detected
+}
+
+/**
+ * Completing the whole arc is stronger evidence than any one of its stages, so
+ * it adds its own signal on top of the per-rule weights. The signal points at
+ * the match that completed the arc.
+ */
+function detectScamScriptCompletion(
+  sequence: ScamSequence,
+  signals: HeuristicSignal[],
+): HeuristicSignal | null {
+  if (!sequence.completed) {
+    return null
+  }
+
+  const last = sequence.stages[sequence.stages.length - 1]
+  const completing = signals.find(
+    (signal) =>
+      signal.chunkId === last.chunkId &&
+      signal.speaker !== 'caller' &&
+      signal.weight > 0 &&
+      signal.rule &&
+      getScamScriptStage(signal.rule.category) === last.stage,
+  )
+
+  if (!completing) {
+    return null
+  }
+
+  return {
+    ...completing,
+    id: SCAM_SCRIPT_SIGNAL_ID,
+    rule: null,
+    weight: sequence.inOrder ? SCAM_SCRIPT_IN_ORDER_WEIGHT : SCAM_SCRIPT_OUT_OF_ORDER_WEIGHT,
+  }
+}
+
+function toDisclosureSignal(disclosure: Disclosure): HeuristicSignal {
+  return {
+    id: `${DISCLOSURE_SIGNAL_ID_PREFIX}${disclosure.kind}`,
+    rule: null,
+    speaker: 'caller',
+    chunkId: disclosure.chunkId,
+    start: disclosure.start,
+    end: disclosure.end,
+    text: disclosure.text,
+    weight: DISCLOSURE_WEIGHT,
+  }
+}
+
+/**
+ * Prevention advice is useless once data is out. The most urgent disclosure
+ * leads; the first steps for the others follow.
+ */
+function buildDamageControlCoaching(kinds: DisclosureKind[]) {
+  const [primary, ...others] = kinds.map((kind) => DISCLOSURE_PLAYBOOKS[kind])
+  const sharedLabels = kinds.map((kind) => DISCLOSURE_PLAYBOOKS[kind].label)
+
+  return {
+    feedback:
+      kinds.length > 1
+        ? `You shared ${sharedLabels.slice(0, -1).join(', ')} and ${sharedLabels[sharedLabels.length - 1]}. ${primary.feedback}`
+        : primary.feedback,
+    whatToSay: primary.whatToSay,
+    whatToDo: primary.whatToDo,
+    nextSteps: [...others.map((playbook) => playbook.whatToDo), ...primary.recoverySteps].slice(0, 2),
+  }
+}
+
+function toHeuristicEvidence(signals: HeuristicSignal[]): AdviceEvidence[] {
+  return signals.slice(-MAX_HEURISTIC_EVIDENCE).map((signal) => ({
+    source: 'heuristic',
+    ruleId: signal.id,
+    chunkId: signal.chunkId,
+    start: signal.start,
+    end: signal.end,
+    text: signal.text,
+    weight: Math.round(signal.weight),
+  }))
+}
+
 function buildHeuristicAdvice(transcript: TranscriptChunk[], previousAdvice?: CoachingAdvice): CoachingAdvice {
   const base = previousAdvice ?? createDefaultAdvice()
-  const combined = transcript
-    .slice(-10)
-    .map((entry) => entry.text.toLowerCase())
-    .join(' ')
+  const window = transcript.slice(-10)
+  const windowChunkIds = new Set(window.map((chunk) => chunk.id))
+  // Single rules score over the recent window, but the script arc can take the
+  // whole call to play out, so stages are tracked across the full transcript.
+  const transcriptSignals = applyNegation(toHeuristicSignals(matchRiskRules(transcript)), transcript)
+  const signals = transcriptSignals.filter((signal) => windowChunkIds.has(signal.chunkId))
+  const sequence = detectScamSequence(
+    transcript,
+    transcriptSignals.flatMap((signal) => (signal.rule ? [{ ...signal, category: signal.rule.category }] : [])),
+  )
+  const readingDigits = detectCallerReadingDigits(window, signals)
+  const scriptCompletion = detectScamScriptCompletion(sequence, transcriptSignals)
+  const disclosures = detectDisclosures(transcript)
+  const disclosureSignals = disclosures
+    .filter((disclosure) => windowChunkIds.has(disclosure.chunkId))
+    .map(toDisclosureSignal)
+  const disclosureKinds = sortDisclosureKinds([
+    ...base.disclosures,
+    ...disclosures.map((disclosure) => disclosure.kind),
+  ])
+
+  signals.push(...disclosureSignals)
+
+  // A recognized disclosure already carries the weight of the digits read out.
+  if (readingDigits && !disclosureSignals.some((signal) => signal.chunkId === readingDigits.chunkId)) {
+    signals.push(readingDigits)
+  }
+
+  if (scriptCompletion) {
+    signals.push(scriptCompletion)
+  }
+
+  const firedSignals = collectFiredSignals(signals)
+  const firedRuleIds = firedSignals.map((signal) => signal.id)
+  const evidence = toHeuristicEvidence(signals)
 
-  let score = 20
+  let score = HEURISTIC_BASE_SCORE
 
-  for (const pattern of HIGH_RISK_PATTERNS) {
-    if (pattern.test(combined)) score += 15
+  for (const signal of firedSignals) {
+    score += signal.weight
   }
 
-  for (const pattern of MEDIUM_RISK_PATTERNS) {
-    if (pattern.test(combined)) score += 8
+  if (disclosureKinds.length > 0) {
+    score = Math.max(score, DISCLOSURE_MIN_SCORE)
   }
 
-  score = clamp(score, 5, 95)
+  score = clamp(Math.round(score), HEURISTIC_MIN_SCORE, HEURISTIC_MAX_SCORE)
   const riskLevel = getRiskLevel(score)
+  const template = pickAdviceTemplate(firedSignals)
+  const scamType = classifyScamType(
+    firedSignals.map((signal) => ({ typology: signal.rule?.typology ?? null, weight: signal.weight })),
+  )
+  const playbook = scamType === 'unknown' ? null : SCAM_TYPE_PLAYBOOKS[scamType]
+  const scriptStage = sequence.currentStage
+  const scriptStages = sequence.stages.map((observation) => observation.stage)
+
+  if (disclosureKinds.length > 0) {
+    return {
+      riskScore: score,
+      riskLevel,
+      scamType,
+      ...buildDamageControlCoaching(disclosureKinds),
+      confidence: 0.65,
+      firedRuleIds,
+      evidence,
+      scriptStage,
+      scriptStages,
+      disclosures: disclosureKinds,
+      updatedAt: Date.now(),
+    }
+  }
+
+  if (readingDigits) {
+    return {
+      riskScore: score,
+      riskLevel,
+      scamType,
+      feedback: 'You may be reading out a code or number they asked for. Stop now.',
+      whatToSay: 'I am not going to share that. Goodbye.',
+      whatToDo: 'Stop reading numbers out loud and hang up now.',
+      nextSteps: [
+        'Call your bank using the number on your card.',
+        'Change any password or PIN you started to share.',
+      ],
+      confidence: 0.6,
+      firedRuleIds,
+      evidence,
+      scriptStage,
+      scriptStages,
+      disclosures: disclosureKinds,
+      updatedAt: Date.now(),
+    }
+  }
 
   if (riskLevel === 'high') {
     return {
       riskScore: score,
       riskLevel,
-      feedback: 'High scam pressure detected. Pause and verify through official channels only.',
-      whatToSay: 'I am ending this call and contacting the organization using the number on its official website.',
-      whatToDo: 'Do not send money or share codes. End the call now.',
+      scamType,
+      feedback:
+        (scriptCompletion
+          ? 'This call has followed a full scam script: authority, a problem, pressure, secrecy, then payment.'
+          : null) ??
+        template?.feedback ??
+        playbook?.feedback ??
+        'High scam pressure detected. Pause and verify through official channels only.',
+      whatToSay:
+        playbook?.whatToSay ??
+        template?.whatToSay ??
+        'I am ending this call and contacting the organization using the number on its official website.',
+      whatToDo: template?.whatToDo ?? playbook?.whatToDo ?? 'Do not send money or share codes. End the call now.',
       nextSteps: [
         'Hang up and call the official number yourself.',
         'Change sensitive passwords if anything was shared.',
         'Tell a trusted contact what happened.',
       ],
       confidence: 0.55,
+      firedRuleIds,
+      evidence,
+      scriptStage,
+      scriptStages,
+      disclosures: disclosureKinds,
       updatedAt: Date.now(),
     }
   }
@@ -257,14 +641,26 @@ function buildHeuristicAdvice(transcript: TranscriptChunk[], previousAdvice?: Co
     return {
       riskScore: score,
       riskLevel,
-      feedback: 'Some warning signs detected. Keep control of the call and verify identity.',
-      whatToSay: 'Please give me your full name, case number, and a public callback number.',
-      whatToDo: 'Do not confirm personal data until you verify independently.',
+      scamType,
+      feedback:
+        template?.feedback ??
+        playbook?.feedback ??
+        'Some warning signs detected. Keep control of the call and verify identity.',
+      whatToSay:
+        playbook?.whatToSay ??
+        template?.whatToSay ??
+        'Please give me your full name, case number, and a public callback number.',
+      whatToDo: template?.whatToDo ?? 'Do not confirm personal data until you verify independently.',
       nextSteps: [
         'Write down their claim and callback number.',
         'Hang up and verify using a known official contact.',
       ],
       confidence: 0.5,
+      firedRuleIds,
+      evidence,
+      scriptStage,
+      scriptStages,
+      disclosures: disclosureKinds,
       updatedAt: Date.now(),
     }
   }
@@ -272,54 +668,156 @@ function buildHeuristicAdvice(transcript: TranscriptChunk[], previousAdvice?: Co
   return {
     riskScore: score,
     riskLevel,
+    scamType,
     feedback: base.feedback,
     whatToSay: base.whatToSay,
     whatToDo: base.whatToDo,
     nextSteps: base.nextSteps,
     confidence: 0.45,
+    firedRuleIds,
+    evidence,
+    scriptStage,
+    scriptStages,
+    disclosures: disclosureKinds,
     updatedAt: Date.now(),
   }
 }
 
-function sanitizeAdvice(parsed: z.infer<typeof parsedAdviceSchema>): CoachingAdvice {
+function resolveModelEvidence(
+  cited: z.infer<typeof parsedAdviceSchema>['evidence'],
+  transcript: TranscriptChunk[],
+): AdviceEvidence[] {
+  const chunksById = new Map(transcript.map((chunk) => [chunk.id, chunk]))
+  const resolved: AdviceEvidence[] = []
+
+  for (const item of cited) {
+    const chunk = chunksById.get(item.chunkId.trim())
+    if (!chunk) continue
+
+    const quote = normalizeActionText(item.quote)
+    const start = chunk.text.toLowerCase().indexOf(quote.toLowerCase())
+    if (!quote || start < 0) continue
+
+    resolved.push({
+      source: 'model',
+      ruleId: null,
+      chunkId: chunk.id,
+      start,
+      end: start + quote.length,
+      text: chunk.text.slice(start, start + quote.length),
+      weight: Math.round(item.weight ?? 0),
+    })
+  }
+
+  return resolved
+}
+
+function sanitizeAdvice(
+  parsed: z.infer<typeof parsedAdviceSchema>,
+  transcript: TranscriptChunk[],
+): CoachingAdvice {
   const riskScore = clamp(Math.round(parsed.riskScore), 0, 100)
 
   return {
     riskScore,
     riskLevel: parsed.riskLevel ?? getRiskLevel(riskScore),
+    scamType: toScamType(parsed.scamType),
     feedback: parsed.feedback,
     whatToSay: parsed.whatToSay,
     whatToDo: parsed.whatToDo,
     nextSteps: parsed.nextSteps,
     confidence: clamp(parsed.confidence ?? 0.5, 0, 1),
+    firedRuleIds: [],
+    evidence: resolveModelEvidence(parsed.evidence, transcript),
+    scriptStage: null,
+    scriptStages: [],
+    disclosures: [],
     updatedAt: Date.now(),
   }
 }
 
+/**
+ * Carry the heuristic layer's fired rules and evidence into model advice so
+ * the published snapshot explains every risk contribution, not just the
+ * model's citations. After a disclosure the damage-control playbook and its
+ * score floor win over whatever the model suggested.
+ */
+export function withHeuristicSignals(modelAdvice: CoachingAdvice, heuristicAdvice: CoachingAdvice): CoachingAdvice {
+  const damageControl =
+    heuristicAdvice.disclosures.length > 0
+      ? {
+          riskScore: Math.max(modelAdvice.riskScore, heuristicAdvice.riskScore),
+          riskLevel: getRiskLevel(Math.max(modelAdvice.riskScore, heuristicAdvice.riskScore)),
+          feedback: heuristicAdvice.feedback,
+          whatToSay: heuristicAdvice.whatToSay,
+          whatToDo: heuristicAdvice.whatToDo,
+          nextSteps: heuristicAdvice.nextSteps,
+        }
+      : null
+
+  return {
+    ...modelAdvice,
+    ...damageControl,
+    scamType: modelAdvice.scamType === 'unknown' ? heuristicAdvice.scamType : modelAdvice.scamType,
+    firedRuleIds: heuristicAdvice.firedRuleIds,
+    evidence: [...heuristicAdvice.evidence, ...modelAdvice.evidence],
+    scriptStage: heuristicAdvice.scriptStage,
+    scriptStages: heuristicAdvice.scriptStages,
+    disclosures: heuristicAdvice.disclosures,
+  }
+}
+
 export function stabilizeAdvice(params: {
   nextAdvice: CoachingAdvice
   previousAdvice?: CoachingAdvice
+  evidenceTotal?: number
 }): CoachingAdvice {
-  const { nextAdvice, previousAdvice } = params
+  const { nextAdvice, previousAdvice, evidenceTotal } = params
   const confidence = clamp(nextAdvice.confidence, 0, 1)
   const stabilizedRiskScore = smoothRiskScore({
     nextScore: nextAdvice.riskScore,
     confidence,
     previousAdvice,
+    evidenceTotal,
   })
   const actionQueue = buildActionQueue(nextAdvice, previousAdvice)
+  const disclosures = sortDisclosureKinds([...(previousAdvice?.disclosures ?? []), ...nextAdvice.disclosures])
+  // No ramp-up after a disclosure: damage-control coaching is shown at high risk.
+  const riskScore = disclosures.length > 0 ? Math.max(stabilizedRiskScore, DISCLOSURE_MIN_SCORE) : stabilizedRiskScore
 
   return {
     ...nextAdvice,
-    riskScore: stabilizedRiskScore,
-    riskLevel: getRiskLevel(stabilizedRiskScore),
+    riskScore,
+    riskLevel: getRiskLevel(riskScore),
+    // Keep the last confident classification until new evidence names another type.
+    scamType: nextAdvice.scamType === 'unknown' ? (previousAdvice?.scamType ?? 'unknown') : nextAdvice.scamType,
     whatToDo: actionQueue[0],
     nextSteps: actionQueue.slice(1, 3),
     confidence,
+    disclosures,
     updatedAt: Date.now(),
   }
 }
 
+/**
+ * Every signal that still counts across the whole call, after negation, plus
+ * the caller reading digits aloud. Unlike live advice this is not limited to
+ * the recent window.
+ */
+export function collectTranscriptSignals(transcript: TranscriptChunk[]): TranscriptSignal[] {
+  const signals = applyNegation(toHeuristicSignals(matchRiskRules(transcript)), transcript)
+  const readingDigits = detectCallerReadingDigits(transcript, signals)
+
+  return [...signals, ...(readingDigits ? [readingDigits] : [])].map((signal) => ({
+    id: signal.id,
+    category: signal.rule?.category ?? null,
+    speaker: signal.speaker,
+    chunkId: signal.chunkId,
+    text: signal.text,
+    weight: signal.weight,
+  }))
+}
+
 export function generateHeuristicAdvice(params: {
   transcript: TranscriptChunk[]
   previousAdvice?: CoachingAdvice
@@ -337,18 +835,13 @@ export function generateHeuristicAdvice(params: {
 export async function generateModelAdvice(params: {
   transcript: TranscriptChunk[]
   previousAdvice?: CoachingAdvice
+  provider?: LlmProvider | null
 }): Promise<CoachingAdvice | null> {
   const { transcript, previousAdvice } = params
+  const provider = params.provider === undefined ? getLlmProvider() : params.provider
   const recentTranscript = getRecentTranscript(transcript)
 
-  if (recentTranscript.length === 0) {
-    return null
-  }
-
-  const groqApiKey = process.env.GROQ_API_KEY
-  const model = process.env.GROQ_MODEL || 'meta-llama/llama-4-scout-17b-16e-instruct'
-
-  if (!groqApiKey) {
+  if (recentTranscript.length === 0 || !provider) {
     return null
   }
 
@@ -358,6 +851,8 @@ export async function generateModelAdvice(params: {
     ? JSON.stringify({
         riskScore: previousAdvice.riskScore,
         riskLevel: previousAdvice.riskLevel,
+        scamType: previousAdvice.scamType,
+        scriptStage: previousAdvice.scriptStage,
         feedback: previousAdvice.feedback,
         whatToSay: previousAdvice.whatToSay,
         whatToDo: previousAdvice.whatToDo,
@@ -368,65 +863,41 @@ export async function generateModelAdvice(params: {
     : 'none'
 
   try {
-    const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${groqApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      signal: AbortSignal.timeout(8_000),
-      body: JSON.stringify({
-        model,
-        temperature: 0.15,
-        max_tokens: 240,
-        messages: [
-          {
-            role: 'system',
-            content: RISK_SYSTEM_PROMPT,
-          },
-          {
-            role: 'user',
-            content: [
-              'Previous advice snapshot (for continuity):',
-              previousAdviceBlock,
-              '',
-              'Latest transcript delta (prioritize this for changes):',
-              latestDeltaBlock || 'none',
-              '',
-              'Conversation transcript (latest chunk at bottom):',
-              transcriptBlock,
-              '',
-              'Return updated JSON advice now.',
-            ].join('\n'),
-          },
-        ],
-      }),
+    const content = await provider.complete({
+      temperature: 0.15,
+      messages: [
+        {
+          role: 'system',
+          content: RISK_SYSTEM_PROMPT,
+        },
+        {
+          role: 'user',
+          content: [
+            'Previous advice snapshot (for continuity):',
+            previousAdviceBlock,
+            '',
+            'Latest transcript delta (prioritize this for changes):',
+            latestDeltaBlock || 'none',
+            '',
+            'Conversation transcript (latest chunk at bottom):',
+            transcriptBlock,
+            '',
+            'Return updated JSON advice now.',
+          ].join('\n'),
+        },
+      ],
     })
 
-    if (!response.ok) {
-      throw new ModelAdviceError(`Groq request failed with status ${response.status}`, {
-        statusCode: response.status,
-        retryAfterMs: parseRetryAfterMs(response.headers.get('retry-after')),
-      })
-    }
-
-    const payload = await response.json()
-    const content = payload?.choices?.[0]?.message?.content
-
-    if (typeof content !== 'string' || !content.trim()) {
-      throw new Error('Groq response did not include message content')
-    }
-
     const rawJson = parseJsonObject(content)
     const parsed = parsedAdviceSchema.parse(rawJson)
 
-    return sanitizeAdvice(parsed)
+    return sanitizeAdvice(parsed, recentTranscript)
   } catch (error) {
     if (error instanceof Error && error.message) {
       throw error
     }
 
-    throw new Error('Groq advice generation failed')
+    throw new Error('Model advice generation failed')
   }
 }
 
@@ -450,7 +921,7 @@ export async function generateLiveAdvice(params: {
     }
 
     return stabilizeAdvice({
-      nextAdvice: modelAdvice,
+      nextAdvice: withHeuristicSignals(modelAdvice, heuristic),
       previousAdvice: heuristic,
     })
   } catch {
@@ -1,376 +1,141 @@
-import { createAdminClient } from '@/lib/supabase/admin'
 import {
+  AppendTranscriptChunkParams,
+  ListLiveCallsParams,
+  LiveCallPage,
+  LiveCallRepository,
+  LiveCallSummary,
+  PurgeExpiredCallDataParams,
+  PurgeExpiredCallDataResult,
+  SetLiveCallAdviceOptions,
+  SetLiveCallEscalationStatusOptions,
+  UpsertLiveCallSessionParams,
+} from '@/lib/live-call-repository'
+import {
+  AdviceTimelineEvent,
   CoachingAdvice,
+  DisclosureEvent,
+  EscalationStatus,
   LiveSessionSnapshot,
+  PostCallSummary,
   TranscriptChunk,
-  TranscriptSpeaker,
-  createDefaultAdvice,
-  getRiskLevel,
-  normalizeSessionStatus,
 } from '@/lib/live-types'
-import { mergeIncrementalTranscriptText, normalizeTranscriptText } from '@/lib/transcript-merge'
-
-type LiveCallRow = {
-  call_sid: string
-  slug: string
-  status: string
-  assistant_muted: boolean
-  analyzing: boolean
-  last_error: string | null
-  advice: unknown
-  updated_at: string
-  last_advice_at: string | null
-}
-
-type TranscriptRow = {
-  id: number
-  speaker: string
-  text: string
-  timestamp_ms: number
-  is_final: boolean
-}
-
-type TranscriptChunkUpdateRow = {
-  speaker: string
-  text: string
-  timestamp_ms: number
-  is_final: boolean
-}
-
-function toSpeaker(value: string): TranscriptSpeaker {
-  const normalized = value.toLowerCase()
-  if (normalized === 'caller') return 'caller'
-  if (normalized === 'other') return 'other'
-  return 'unknown'
-}
-
-function normalizeSpeaker(value: TranscriptSpeaker): 'caller' | 'other' | 'unknown' {
-  if (value === 'caller') return 'caller'
-  if (value === 'other') return 'other'
-  return 'unknown'
-}
+import { createInMemoryLiveCallRepository } from '@/lib/memory-live-call-repository'
+import { createSupabaseLiveCallRepository } from '@/lib/supabase-live-call-repository'
 
-function clamp(value: number, min: number, max: number): number {
-  return Math.min(max, Math.max(min, value))
+type LiveStoreCache = typeof globalThis & {
+  __liveCallRepository?: LiveCallRepository
 }
 
-function toAdvice(payload: unknown): CoachingAdvice {
-  const fallback = createDefaultAdvice()
+function createRepositoryFromEnv(): LiveCallRepository {
+  const driver = process.env.LIVE_CALL_STORE?.trim().toLowerCase()
 
-  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
-    return fallback
+  if (driver === 'memory') {
+    return createInMemoryLiveCallRepository()
   }
 
-  const data = payload as Record<string, unknown>
-  const riskScoreRaw = typeof data.riskScore === 'number' ? data.riskScore : fallback.riskScore
-  const riskScore = clamp(Math.round(riskScoreRaw), 0, 100)
-
-  const nextSteps = Array.isArray(data.nextSteps)
-    ? data.nextSteps.filter((step): step is string => typeof step === 'string' && step.trim().length > 0).slice(0, 2)
-    : fallback.nextSteps
-
-  const riskLevel =
-    typeof data.riskLevel === 'string' && ['low', 'medium', 'high'].includes(data.riskLevel)
-      ? (data.riskLevel as 'low' | 'medium' | 'high')
-      : getRiskLevel(riskScore)
-
-  return {
-    riskScore,
-    riskLevel,
-    feedback: typeof data.feedback === 'string' && data.feedback.trim() ? data.feedback : fallback.feedback,
-    whatToSay:
-      typeof data.whatToSay === 'string' && data.whatToSay.trim() ? data.whatToSay : fallback.whatToSay,
-    whatToDo: typeof data.whatToDo === 'string' && data.whatToDo.trim() ? data.whatToDo : fallback.whatToDo,
-    nextSteps,
-    confidence:
-      typeof data.confidence === 'number' ? clamp(data.confidence, 0, 1) : fallback.confidence,
-    updatedAt:
-      typeof data.updatedAt === 'number' && Number.isFinite(data.updatedAt)
-        ? Math.round(data.updatedAt)
-        : Date.now(),
+  if (driver && driver !== 'supabase') {
+    throw new Error(`Unknown LIVE_CALL_STORE "${driver}". Expected "supabase" or "memory".`)
   }
-}
 
-function parseTimestampMs(value: unknown): number {
-  if (typeof value === 'number' && Number.isFinite(value)) {
-    if (value > 1_000_000_000_000) return Math.round(value)
-    if (value > 1_000_000_000) return Math.round(value * 1000)
-  }
+  return createSupabaseLiveCallRepository()
+}
 
-  if (typeof value === 'string') {
-    const asNumber = Number(value)
-    if (Number.isFinite(asNumber)) {
-      if (asNumber > 1_000_000_000_000) return Math.round(asNumber)
-      if (asNumber > 1_000_000_000) return Math.round(asNumber * 1000)
-    }
+/**
+ * The active repository is cached on `globalThis` so every route module in a
+ * dev server shares one in-memory store.
+ */
+export function getLiveCallRepository(): LiveCallRepository {
+  const globalCache = globalThis as LiveStoreCache
 
-    const asDate = Date.parse(value)
-    if (Number.isFinite(asDate)) {
-      return asDate
-    }
+  if (!globalCache.__liveCallRepository) {
+    globalCache.__liveCallRepository = createRepositoryFromEnv()
   }
 
-  return Date.now()
+  return globalCache.__liveCallRepository
 }
 
-export async function upsertLiveCallSession(params: {
-  callSid: string
-  slug: string
-  status?: string | null
-}) {
-  const supabase = createAdminClient()
-  const now = new Date().toISOString()
-
-  const payload: Record<string, unknown> = {
-    call_sid: params.callSid,
-    slug: params.slug,
-    assistant_muted: true,
-    updated_at: now,
-  }
+/** Swap the active repository, e.g. for an in-memory store in tests. Pass null to reset. */
+export function setLiveCallRepository(repository: LiveCallRepository | null) {
+  const globalCache = globalThis as LiveStoreCache
+  globalCache.__liveCallRepository = repository ?? undefined
+}
 
-  if (params.status) {
-    payload.status = normalizeSessionStatus(params.status)
-  }
+export function upsertLiveCallSession(params: UpsertLiveCallSessionParams) {
+  return getLiveCallRepository().upsertLiveCallSession(params)
+}
 
-  const { error } = await supabase
-    .from('live_calls')
-    .upsert(payload, { onConflict: 'call_sid' })
+export function setLiveCallStatus(callSid: string, status: string, lastError?: string | null) {
+  return getLiveCallRepository().setLiveCallStatus(callSid, status, lastError)
+}
 
-  if (error) {
-    throw new Error(`Failed to upsert live call session: ${error.message}`)
-  }
+export function setLiveCallAnalyzing(callSid: string, analyzing: boolean) {
+  return getLiveCallRepository().setLiveCallAnalyzing(callSid, analyzing)
 }
 
-export async function setLiveCallStatus(callSid: string, status: string, lastError?: string | null) {
-  const supabase = createAdminClient()
-  const updates: Record<string, unknown> = {
-    status: normalizeSessionStatus(status),
-    updated_at: new Date().toISOString(),
-  }
+export function setLiveCallAdvice(callSid: string, advice: CoachingAdvice, options: SetLiveCallAdviceOptions = {}) {
+  return getLiveCallRepository().setLiveCallAdvice(callSid, advice, options)
+}
 
-  if (lastError !== undefined) {
-    updates.last_error = lastError
-  }
+export function setLiveCallError(callSid: string, message: string) {
+  return getLiveCallRepository().setLiveCallError(callSid, message)
+}
 
-  const { error } = await supabase.from('live_calls').update(updates).eq('call_sid', callSid)
-  if (error) {
-    throw new Error(`Failed to update live call status: ${error.message}`)
-  }
+export function setPostCallSummary(callSid: string, summary: PostCallSummary) {
+  return getLiveCallRepository().setPostCallSummary(callSid, summary)
 }
 
-export async function setLiveCallAnalyzing(callSid: string, analyzing: boolean) {
-  const supabase = createAdminClient()
-  const { error } = await supabase
-    .from('live_calls')
-    .update({
-      analyzing,
-      updated_at: new Date().toISOString(),
-    })
-    .eq('call_sid', callSid)
+export function startLiveCallEscalation(callSid: string, contactId: string): Promise<boolean> {
+  return getLiveCallRepository().startLiveCallEscalation(callSid, contactId)
+}
 
-  if (error) {
-    throw new Error(`Failed to update analyzing state: ${error.message}`)
-  }
+export function setLiveCallEscalationLeg(callSid: string, contactCallSid: string) {
+  return getLiveCallRepository().setLiveCallEscalationLeg(callSid, contactCallSid)
 }
 
-export async function setLiveCallAdvice(
+export function setLiveCallEscalationStatus(
   callSid: string,
-  advice: CoachingAdvice,
-  options: {
-    lastError?: string | null
-    analyzing?: boolean
-  } = {},
+  status: EscalationStatus,
+  options: SetLiveCallEscalationStatusOptions = {},
 ) {
-  const supabase = createAdminClient()
-  const nowIso = new Date().toISOString()
-  const { lastError = null, analyzing = false } = options
-
-  const { error } = await supabase
-    .from('live_calls')
-    .update({
-      advice,
-      last_error: lastError,
-      analyzing,
-      last_advice_at: nowIso,
-      updated_at: nowIso,
-    })
-    .eq('call_sid', callSid)
-
-  if (error) {
-    throw new Error(`Failed to store live advice: ${error.message}`)
-  }
+  return getLiveCallRepository().setLiveCallEscalationStatus(callSid, status, options)
 }
 
-export async function setLiveCallError(callSid: string, message: string) {
-  const supabase = createAdminClient()
-  const { error } = await supabase
-    .from('live_calls')
-    .update({
-      status: 'failed',
-      last_error: message,
-      analyzing: false,
-      updated_at: new Date().toISOString(),
-    })
-    .eq('call_sid', callSid)
-
-  if (error) {
-    throw new Error(`Failed to store live call error: ${error.message}`)
-  }
+export function recordDisclosures(callSid: string, events: DisclosureEvent[]) {
+  return getLiveCallRepository().recordDisclosures(callSid, events)
 }
 
-export async function appendTranscriptChunk(params: {
-  callSid: string
-  sourceEventId: string
-  speaker: TranscriptSpeaker
-  text: string
-  isFinal: boolean
-  timestamp: number
-}) {
-  const content = normalizeTranscriptText(params.text)
-  if (!content) return
-
-  const supabase = createAdminClient()
-  const { data: existingRow, error: existingError } = await supabase
-    .from('live_transcript_chunks')
-    .select('speaker, text, timestamp_ms, is_final')
-    .eq('call_sid', params.callSid)
-    .eq('source_event_id', params.sourceEventId)
-    .maybeSingle()
-
-  if (existingError) {
-    throw new Error(`Failed to load existing transcript chunk: ${existingError.message}`)
-  }
-
-  const existing = (existingRow as TranscriptChunkUpdateRow | null) ?? null
-  const mergedText =
-    existing && typeof existing.text === 'string'
-      ? mergeIncrementalTranscriptText(existing.text, content, {
-          isFinal: params.isFinal,
-        })
-      : content
-  const existingSpeaker =
-    existing && typeof existing.speaker === 'string'
-      ? normalizeSpeaker(toSpeaker(existing.speaker))
-      : 'unknown'
-  const mergedSpeaker =
-    normalizeSpeaker(params.speaker) === 'unknown' ? existingSpeaker : normalizeSpeaker(params.speaker)
-  const mergedIsFinal = Boolean(params.isFinal || existing?.is_final)
-  const mergedTimestamp = Math.max(
-    parseTimestampMs(existing?.timestamp_ms ?? 0),
-    parseTimestampMs(params.timestamp),
-  )
-
-  const payload = {
-    call_sid: params.callSid,
-    source_event_id: params.sourceEventId,
-    speaker: mergedSpeaker,
-    text: mergedText,
-    is_final: mergedIsFinal,
-    timestamp_ms: mergedTimestamp,
-  }
-
-  const { error } = await supabase
-    .from('live_transcript_chunks')
-    .upsert(payload, { onConflict: 'call_sid,source_event_id' })
-
-  if (error) {
-    throw new Error(`Failed to append transcript chunk: ${error.message}`)
-  }
+export function appendTranscriptChunk(params: AppendTranscriptChunkParams) {
+  return getLiveCallRepository().appendTranscriptChunk(params)
 }
 
-export async function getTranscriptChunks(callSid: string, limit: number): Promise<TranscriptChunk[]> {
-  const supabase = createAdminClient()
-  const { data, error } = await supabase
-    .from('live_transcript_chunks')
-    .select('id, speaker, text, timestamp_ms, is_final')
-    .eq('call_sid', callSid)
-    .order('id', { ascending: false })
-    .limit(limit)
-
-  if (error) {
-    throw new Error(`Failed to load transcript chunks: ${error.message}`)
-  }
-
-  const rows = (data ?? []) as TranscriptRow[]
-
-  return rows
-    .slice()
-    .reverse()
-    .map((row) => ({
-      id: String(row.id),
-      speaker: toSpeaker(row.speaker),
-      text: row.text,
-      timestamp: parseTimestampMs(row.timestamp_ms),
-      isFinal: Boolean(row.is_final),
-    }))
+export function getTranscriptChunks(callSid: string, limit: number): Promise<TranscriptChunk[]> {
+  return getLiveCallRepository().getTranscriptChunks(callSid, limit)
 }
 
-export async function getLiveCallSummary(callSid: string): Promise<{
-  callSid: string
-  slug: string
-  status: string
-  lastAdviceAt: number | null
-  advice: CoachingAdvice
-} | null> {
-  const supabase = createAdminClient()
-  const { data, error } = await supabase
-    .from('live_calls')
-    .select('call_sid, slug, status, last_advice_at, advice')
-    .eq('call_sid', callSid)
-    .maybeSingle()
-
-  if (error) {
-    throw new Error(`Failed to load live call summary: ${error.message}`)
-  }
-
-  if (!data) return null
-
-  return {
-    callSid: String(data.call_sid),
-    slug: String(data.slug),
-    status: String(data.status),
-    lastAdviceAt: data.last_advice_at ? Date.parse(String(data.last_advice_at)) : null,
-    advice: toAdvice(data.advice),
-  }
+export function getLiveCallSummary(callSid: string): Promise<LiveCallSummary | null> {
+  return getLiveCallRepository().getLiveCallSummary(callSid)
 }
 
-export async function getLiveSessionSnapshot(
+export function getLiveSessionSnapshot(
   callSid: string,
   slug: string,
   transcriptLimit = 25,
 ): Promise<LiveSessionSnapshot | null> {
-  const supabase = createAdminClient()
-  const { data, error } = await supabase
-    .from('live_calls')
-    .select('call_sid, slug, status, assistant_muted, analyzing, last_error, advice, updated_at, last_advice_at')
-    .eq('call_sid', callSid)
-    .eq('slug', slug)
-    .maybeSingle()
-
-  if (error) {
-    throw new Error(`Failed to load live session: ${error.message}`)
-  }
-
-  if (!data) {
-    return null
-  }
+  return getLiveCallRepository().getLiveSessionSnapshot(callSid, slug, transcriptLimit)
+}
 
-  const row = data as LiveCallRow
-  const transcript = await getTranscriptChunks(callSid, transcriptLimit)
+export function getAdviceTimeline(
+  callSid: string,
+  slug: string,
+  limit?: number,
+): Promise<AdviceTimelineEvent[] | null> {
+  return getLiveCallRepository().getAdviceTimeline(callSid, slug, limit)
+}
 
-  const updatedAt = Date.parse(row.updated_at)
+export function listLiveCalls(params: ListLiveCallsParams): Promise<LiveCallPage> {
+  return getLiveCallRepository().listLiveCalls(params)
+}
 
-  return {
-    callId: row.call_sid,
-    slug: row.slug,
-    status: normalizeSessionStatus(row.status),
-    assistantMuted: row.assistant_muted,
-    analyzing: row.analyzing,
-    lastError: row.last_error,
-    updatedAt: Number.isFinite(updatedAt) ? updatedAt : Date.now(),
-    lastAdviceAt: row.last_advice_at ? Date.parse(row.last_advice_at) : null,
-    version: 1,
-    advice: toAdvice(row.advice),
-    transcript,
-  }
+export function purgeExpiredCallData(params: PurgeExpiredCallDataParams): Promise<PurgeExpiredCallDataResult> {
+  return getLiveCallRepository().purgeExpiredCallData(params)
 }
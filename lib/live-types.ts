@@ -1,3 +1,7 @@
+import type { DisclosureKind } from '@/lib/disclosure'
+import type { ScamScriptStage } from '@/lib/scam-sequence'
+import type { ScamType } from '@/lib/scam-types'
+
 export type RiskLevel = 'low' | 'medium' | 'high'
 
 export type SessionStatus =
@@ -18,17 +22,75 @@ export type TranscriptChunk = {
   isFinal: boolean
 }
 
+export type AdviceSource = 'heuristic' | 'model'
+
+export type AdviceEvidence = {
+  source: AdviceSource
+  ruleId: string | null
+  chunkId: string
+  start: number
+  end: number
+  text: string
+  weight: number
+}
+
 export type CoachingAdvice = {
   riskScore: number
   riskLevel: RiskLevel
+  scamType: ScamType
   feedback: string
   whatToSay: string
   whatToDo: string
   nextSteps: string[]
   confidence: number
+  firedRuleIds: string[]
+  evidence: AdviceEvidence[]
+  scriptStage: ScamScriptStage | null
+  scriptStages: ScamScriptStage[]
+  // Sticky for the rest of the call: once set, coaching switches to damage control.
+  disclosures: DisclosureKind[]
   updatedAt: number
 }
 
+/** First time the caller gave away a kind of sensitive data on a call. */
+export type DisclosureEvent = {
+  kind: DisclosureKind
+  chunkId: string
+  detectedAt: number
+}
+
+export type CallVerdict = 'likely-scam' | 'suspicious' | 'no-scam-detected'
+
+export const CALL_VERDICT_LABELS: Record<CallVerdict, string> = {
+  'likely-scam': 'Likely a scam',
+  suspicious: 'Suspicious',
+  'no-scam-detected': 'No scam detected',
+}
+
+/** Call-level recap written once when the call ends. */
+export type PostCallSummary = {
+  source: AdviceSource
+  claimedIdentity: string | null
+  requests: string[]
+  disclosures: string[]
+  verdict: CallVerdict
+  verdictReason: string
+  recoverySteps: string[]
+  generatedAt: number
+}
+
+/** Progress of a trusted contact dialed into the call's conference bridge. */
+export type EscalationStatus = 'dialing' | 'joined' | 'ended' | 'failed'
+
+export type CallEscalation = {
+  status: EscalationStatus
+  contactId: string | null
+  // The contact's own call leg; null until Twilio has accepted it.
+  contactCallSid: string | null
+  error: string | null
+  startedAt: number
+}
+
 export type LiveSessionSnapshot = {
   callId: string
   slug: string
@@ -41,6 +103,35 @@ export type LiveSessionSnapshot = {
   version: number
   advice: CoachingAdvice
   transcript: TranscriptChunk[]
+  summary: PostCallSummary | null
+  escalation: CallEscalation | null
+}
+
+/** One published advice update; `rawRiskScore` is the score before stabilization. */
+export type AdviceTimelineEvent = {
+  id: string
+  source: AdviceSource
+  rawRiskScore: number | null
+  riskScore: number
+  riskLevel: RiskLevel
+  confidence: number
+  scamType: ScamType
+  scriptStage: ScamScriptStage | null
+  firedRuleIds: string[]
+  error: string | null
+  createdAt: number
+}
+
+/** One row of a tenant's case history; duration is null until the call ends. */
+export type CaseHistoryEntry = {
+  callId: string
+  status: SessionStatus
+  startedAt: number
+  endedAt: number | null
+  durationMs: number | null
+  peakRiskScore: number
+  peakRiskLevel: RiskLevel
+  scamType: ScamType
 }
 
 export function getRiskLevel(score: number): RiskLevel {
@@ -55,6 +146,7 @@ export function createDefaultAdvice(): CoachingAdvice {
   return {
     riskScore: 20,
     riskLevel: 'low',
+    scamType: 'unknown',
     feedback: 'Listening for risk signals. Stay calm and ask verifying questions.',
     whatToSay: 'Can you verify your company, case number, and callback number?',
     whatToDo: 'Do not share codes, account logins, or payment details.',
@@ -63,6 +155,11 @@ export function createDefaultAdvice(): CoachingAdvice {
       'Say you will call back using an official number.',
     ],
     confidence: 0.3,
+    firedRuleIds: [],
+    evidence: [],
+    scriptStage: null,
+    scriptStages: [],
+    disclosures: [],
     updatedAt: now,
   }
 }
@@ -92,3 +189,26 @@ export function normalizeSessionStatus(rawStatus: string | undefined | null): Se
 export function isTerminalStatus(status: SessionStatus): boolean {
   return status === 'ended' || status === 'failed'
 }
+
+export function isEscalationStatus(value: unknown): value is EscalationStatus {
+  return value === 'dialing' || value === 'joined' || value === 'ended' || value === 'failed'
+}
+
+/** Map a Twilio status for the contact's leg onto the escalation status. */
+export function toEscalationStatus(rawStatus: string | undefined | null): EscalationStatus {
+  const normalized = (rawStatus ?? '').toLowerCase()
+
+  // Checked before `answer`: an unanswered leg reports `no-answer`.
+  if (
+    normalized.includes('no-answer') ||
+    normalized.includes('busy') ||
+    normalized.includes('fail') ||
+    normalized.includes('cancel')
+  ) {
+    return 'failed'
+  }
+  if (normalized.includes('complete') || normalized.includes('end')) return 'ended'
+  if (normalized.includes('in-progress') || normalized.includes('answer')) return 'joined'
+
+  return 'dialing'
+}
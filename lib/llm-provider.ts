@@ -0,0 +1,288 @@
+export const LLM_PROVIDER_IDS = ['groq', 'openai-compatible', 'fake'] as const
+
+export type LlmProviderId = (typeof LLM_PROVIDER_IDS)[number]
+
+export type LlmChatMessage = {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export type LlmChatRequest = {
+  messages: LlmChatMessage[]
+  temperature: number
+}
+
+export type LlmProvider = {
+  id: LlmProviderId
+  model: string
+  timeoutMs: number
+  maxTokens: number
+  complete: (request: LlmChatRequest) => Promise<string>
+}
+
+export type FakeLlmProviderOptions = {
+  model?: string
+  response?: string | ((request: LlmChatRequest) => string)
+  statusCode?: number | null
+  retryAfterMs?: number | null
+}
+
+const DEFAULT_GROQ_MODEL = 'meta-llama/llama-4-scout-17b-16e-instruct'
+const GROQ_BASE_URL = 'https://api.groq.com/openai/v1'
+const DEFAULT_GROQ_TIMEOUT_MS = 8_000
+// Local llama.cpp/Ollama servers are much slower to first token than Groq.
+const DEFAULT_OPENAI_COMPATIBLE_TIMEOUT_MS = 20_000
+const DEFAULT_MAX_TOKENS = 360
+
+const DEFAULT_FAKE_RESPONSE = JSON.stringify({
+  riskScore: 30,
+  riskLevel: 'low',
+  scamType: 'unknown',
+  feedback: 'No clear scam evidence yet. Keep verifying who is calling.',
+  whatToSay: 'Can you give me a callback number I can check myself?',
+  whatToDo: 'Do not share codes, account logins, or payment details.',
+  nextSteps: [],
+  confidence: 0.5,
+  evidence: [],
+})
+
+export class ModelAdviceError extends Error {
+  statusCode: number | null
+  retryAfterMs: number | null
+
+  constructor(
+    message: string,
+    params?: {
+      statusCode?: number | null
+      retryAfterMs?: number | null
+    },
+  ) {
+    super(message)
+    this.name = 'ModelAdviceError'
+    this.statusCode = params?.statusCode ?? null
+    this.retryAfterMs = params?.retryAfterMs ?? null
+  }
+}
+
+function parsePositiveInt(value: string | undefined): number | null {
+  if (!value?.trim()) {
+    return null
+  }
+
+  const parsed = Number.parseInt(value, 10)
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return null
+  }
+
+  return parsed
+}
+
+function parseRetryAfterMs(headerValue: string | null): number | null {
+  if (!headerValue) {
+    return null
+  }
+
+  const asSeconds = Number(headerValue)
+  if (Number.isFinite(asSeconds) && asSeconds >= 0) {
+    return Math.round(asSeconds * 1000)
+  }
+
+  const asDate = Date.parse(headerValue)
+  if (!Number.isNaN(asDate)) {
+    return Math.max(0, asDate - Date.now())
+  }
+
+  return null
+}
+
+function isTimeoutError(error: unknown): boolean {
+  return error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')
+}
+
+function createChatCompletionsProvider(config: {
+  id: LlmProviderId
+  label: string
+  baseUrl: string
+  apiKey: string | null
+  model: string
+  timeoutMs: number
+  maxTokens: number
+}): LlmProvider {
+  const url = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`
+
+  return {
+    id: config.id,
+    model: config.model,
+    timeoutMs: config.timeoutMs,
+    maxTokens: config.maxTokens,
+    async complete(request) {
+      let response: Response
+
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          headers: {
+            ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+            'Content-Type': 'application/json',
+          },
+          signal: AbortSignal.timeout(config.timeoutMs),
+          body: JSON.stringify({
+            model: config.model,
+            temperature: request.temperature,
+            max_tokens: config.maxTokens,
+            messages: request.messages,
+          }),
+        })
+      } catch (error) {
+        if (isTimeoutError(error)) {
+          throw new ModelAdviceError(`${config.label} request timed out after ${config.timeoutMs}ms`)
+        }
+
+        throw new ModelAdviceError(
+          `${config.label} request failed: ${error instanceof Error ? error.message : 'network error'}`,
+        )
+      }
+
+      if (!response.ok) {
+        throw new ModelAdviceError(`${config.label} request failed with status ${response.status}`, {
+          statusCode: response.status,
+          retryAfterMs: parseRetryAfterMs(response.headers.get('retry-after')),
+        })
+      }
+
+      const payload = await response.json().catch(() => null)
+      const content = payload?.choices?.[0]?.message?.content
+
+      if (typeof content !== 'string' || !content.trim()) {
+        throw new ModelAdviceError(`${config.label} response did not include message content`)
+      }
+
+      return content
+    },
+  }
+}
+
+/**
+ * Deterministic provider for tests and offline demos. It never touches the
+ * network; `statusCode` makes every call fail the way an HTTP error would.
+ */
+export function createFakeLlmProvider(options: FakeLlmProviderOptions = {}): LlmProvider {
+  return {
+    id: 'fake',
+    model: options.model ?? 'fake',
+    timeoutMs: 0,
+    maxTokens: DEFAULT_MAX_TOKENS,
+    async complete(request) {
+      if (options.statusCode) {
+        throw new ModelAdviceError(`Fake provider failed with status ${options.statusCode}`, {
+          statusCode: options.statusCode,
+          retryAfterMs: options.retryAfterMs ?? null,
+        })
+      }
+
+      const response = options.response ?? DEFAULT_FAKE_RESPONSE
+      return typeof response === 'function' ? response(request) : response
+    },
+  }
+}
+
+function resolveProviderId(): LlmProviderId | null {
+  const explicit = process.env.LLM_PROVIDER?.trim().toLowerCase()
+
+  if (explicit) {
+    if (!(LLM_PROVIDER_IDS as readonly string[]).includes(explicit)) {
+      throw new Error(`Unknown LLM_PROVIDER "${explicit}". Expected one of: ${LLM_PROVIDER_IDS.join(', ')}.`)
+    }
+
+    return explicit as LlmProviderId
+  }
+
+  // Keep the original behaviour: a Groq key alone turns on model coaching.
+  if (process.env.GROQ_API_KEY?.trim()) return 'groq'
+  if (process.env.LLM_BASE_URL?.trim()) return 'openai-compatible'
+  return null
+}
+
+export function createLlmProviderFromEnv(): LlmProvider | null {
+  const providerId = resolveProviderId()
+
+  if (providerId === 'groq') {
+    // Only reachable without a key when LLM_PROVIDER=groq was set on purpose.
+    const apiKey = process.env.GROQ_API_KEY?.trim()
+    if (!apiKey) {
+      throw new Error('LLM_PROVIDER=groq requires GROQ_API_KEY.')
+    }
+
+    return createChatCompletionsProvider({
+      id: 'groq',
+      label: 'Groq',
+      baseUrl: GROQ_BASE_URL,
+      apiKey,
+      model: process.env.GROQ_MODEL || DEFAULT_GROQ_MODEL,
+      timeoutMs: parsePositiveInt(process.env.GROQ_TIMEOUT_MS) ?? DEFAULT_GROQ_TIMEOUT_MS,
+      maxTokens: parsePositiveInt(process.env.GROQ_MAX_TOKENS) ?? DEFAULT_MAX_TOKENS,
+    })
+  }
+
+  if (providerId === 'openai-compatible') {
+    const baseUrl = process.env.LLM_BASE_URL?.trim()
+    const model = process.env.LLM_MODEL?.trim()
+
+    if (!baseUrl || !model) {
+      throw new Error('LLM_PROVIDER=openai-compatible requires LLM_BASE_URL and LLM_MODEL.')
+    }
+
+    return createChatCompletionsProvider({
+      id: 'openai-compatible',
+      label: 'LLM',
+      baseUrl,
+      apiKey: process.env.LLM_API_KEY?.trim() || null,
+      model,
+      timeoutMs: parsePositiveInt(process.env.LLM_TIMEOUT_MS) ?? DEFAULT_OPENAI_COMPATIBLE_TIMEOUT_MS,
+      maxTokens: parsePositiveInt(process.env.LLM_MAX_TOKENS) ?? DEFAULT_MAX_TOKENS,
+    })
+  }
+
+  if (providerId === 'fake') {
+    return createFakeLlmProvider({
+      response: process.env.LLM_FAKE_RESPONSE?.trim() || undefined,
+      statusCode: parsePositiveInt(process.env.LLM_FAKE_STATUS),
+    })
+  }
+
+  return null
+}
+
+type ActiveLlmProvider = {
+  provider: LlmProvider | null
+  configError: string | null
+}
+
+let activeLlmProvider: ActiveLlmProvider | null = null
+
+// Resolved on first use rather than at import, and never throws: a config
+// mistake must not stop the webhook from loading, since heuristic coaching
+// works without a model.
+function resolveActiveLlmProvider(): ActiveLlmProvider {
+  if (!activeLlmProvider) {
+    try {
+      activeLlmProvider = { provider: createLlmProviderFromEnv(), configError: null }
+    } catch (error) {
+      activeLlmProvider = {
+        provider: null,
+        configError: error instanceof Error ? error.message : 'Invalid LLM provider configuration.',
+      }
+    }
+  }
+
+  return activeLlmProvider
+}
+
+export function getLlmProvider(): LlmProvider | null {
+  return resolveActiveLlmProvider().provider
+}
+
+/** Why the configured provider could not be created, or null when it was (or none is configured). */
+export function getLlmProviderConfigError(): string | null {
+  return resolveActiveLlmProvider().configError
+}
@@ -0,0 +1,393 @@
+import { EvidenceLedger, createEvidenceLedger } from '@/lib/evidence-ledger'
+import {
+  LiveCallPage,
+  LiveCallRepository,
+  normalizeStoredSpeaker,
+  parseTimestampMs,
+} from '@/lib/live-call-repository'
+import {
+  AdviceTimelineEvent,
+  CallEscalation,
+  CoachingAdvice,
+  DisclosureEvent,
+  PostCallSummary,
+  TranscriptChunk,
+  createDefaultAdvice,
+  getRiskLevel,
+  isTerminalStatus,
+  normalizeSessionStatus,
+} from '@/lib/live-types'
+import { PURGED_TRANSCRIPT_TEXT, TranscriptPurgeAction } from '@/lib/retention'
+import { ScamType } from '@/lib/scam-types'
+import { mergeIncrementalTranscriptText, normalizeTranscriptText } from '@/lib/transcript-merge'
+
+type MemoryLiveCall = {
+  callSid: string
+  slug: string
+  status: string
+  assistantMuted: boolean
+  analyzing: boolean
+  lastError: string | null
+  advice: CoachingAdvice
+  evidenceLedger: EvidenceLedger
+  lastAdviceAt: number | null
+  peakRiskScore: number
+  scamType: ScamType
+  postCallSummary: PostCallSummary | null
+  escalation: CallEscalation | null
+  createdAt: number
+  endedAt: number | null
+  transcriptPurgedAt: number | null
+  updatedAt: number
+}
+
+type MemoryPurgeAuditRecord = {
+  slug: string
+  action: TranscriptPurgeAction
+  cutoff: number
+  callSids: string[]
+  transcriptChunks: number
+  adviceEvents: number
+  purgedAt: number
+}
+
+type MemoryTranscriptChunk = {
+  id: number
+  sourceEventId: string
+  speaker: 'caller' | 'other' | 'unknown'
+  text: string
+  timestamp: number
+  isFinal: boolean
+}
+
+/**
+ * Process-local live call storage with the same semantics as the Supabase
+ * tables: upserts keyed by call SID, transcript chunks merged by source event
+ * id, and snapshots scoped to the tenant slug. Values are cloned on the way in
+ * and out so callers cannot mutate stored state.
+ */
+export function createInMemoryLiveCallRepository(options: { now?: () => number } = {}): LiveCallRepository {
+  const now = options.now ?? Date.now
+  const calls = new Map<string, MemoryLiveCall>()
+  const transcripts = new Map<string, MemoryTranscriptChunk[]>()
+  const adviceEvents = new Map<string, AdviceTimelineEvent[]>()
+  const disclosures = new Map<string, DisclosureEvent[]>()
+  const purgeAudit: MemoryPurgeAuditRecord[] = []
+  let nextChunkId = 1
+  let nextAdviceEventId = 1
+
+  function updateCall(callSid: string, updates: Partial<MemoryLiveCall>) {
+    const call = calls.get(callSid)
+    if (!call) return
+
+    const updatedAt = now()
+    Object.assign(call, updates, { updatedAt })
+
+    if (call.endedAt === null && isTerminalStatus(normalizeSessionStatus(call.status))) {
+      call.endedAt = updatedAt
+    }
+  }
+
+  function readTranscript(callSid: string, limit: number): TranscriptChunk[] {
+    return (transcripts.get(callSid) ?? []).slice(-limit).map((chunk) => ({
+      id: String(chunk.id),
+      speaker: chunk.speaker,
+      text: chunk.text,
+      timestamp: chunk.timestamp,
+      isFinal: chunk.isFinal,
+    }))
+  }
+
+  return {
+    async upsertLiveCallSession(params) {
+      const existing = calls.get(params.callSid)
+      const status = params.status ? normalizeSessionStatus(params.status) : null
+
+      if (existing) {
+        updateCall(params.callSid, {
+          slug: params.slug,
+          assistantMuted: true,
+          ...(status ? { status } : {}),
+        })
+        return
+      }
+
+      const createdAt = now()
+      calls.set(params.callSid, {
+        callSid: params.callSid,
+        slug: params.slug,
+        status: status ?? 'queued',
+        assistantMuted: true,
+        analyzing: false,
+        lastError: null,
+        advice: createDefaultAdvice(),
+        evidenceLedger: createEvidenceLedger(),
+        lastAdviceAt: null,
+        peakRiskScore: 0,
+        scamType: 'unknown',
+        postCallSummary: null,
+        escalation: null,
+        createdAt,
+        endedAt: null,
+        transcriptPurgedAt: null,
+        updatedAt: createdAt,
+      })
+    },
+
+    async setLiveCallStatus(callSid, status, lastError) {
+      updateCall(callSid, {
+        status: normalizeSessionStatus(status),
+        ...(lastError !== undefined ? { lastError } : {}),
+      })
+    },
+
+    async setLiveCallAnalyzing(callSid, analyzing) {
+      updateCall(callSid, { analyzing })
+    },
+
+    async setLiveCallAdvice(callSid, advice, adviceOptions = {}) {
+      const {
+        lastError = null,
+        analyzing = false,
+        evidenceLedger,
+        source = 'heuristic',
+        rawRiskScore = null,
+      } = adviceOptions
+      if (!calls.has(callSid)) return
+
+      const publishedAt = now()
+      const call = calls.get(callSid)
+      updateCall(callSid, {
+        advice: structuredClone(advice),
+        lastError,
+        analyzing,
+        lastAdviceAt: publishedAt,
+        peakRiskScore: Math.max(call?.peakRiskScore ?? 0, advice.riskScore),
+        ...(evidenceLedger ? { evidenceLedger: structuredClone(evidenceLedger) } : {}),
+        ...(advice.scamType !== 'unknown' ? { scamType: advice.scamType } : {}),
+      })
+
+      const events = adviceEvents.get(callSid) ?? []
+      adviceEvents.set(callSid, events)
+      events.push({
+        id: String(nextAdviceEventId++),
+        source,
+        rawRiskScore: rawRiskScore === null ? null : Math.min(100, Math.max(0, Math.round(rawRiskScore))),
+        riskScore: advice.riskScore,
+        riskLevel: advice.riskLevel,
+        confidence: advice.confidence,
+        scamType: advice.scamType,
+        scriptStage: advice.scriptStage,
+        firedRuleIds: [...advice.firedRuleIds],
+        error: lastError,
+        createdAt: publishedAt,
+      })
+    },
+
+    async setLiveCallError(callSid, message) {
+      updateCall(callSid, {
+        status: 'failed',
+        lastError: message,
+        analyzing: false,
+      })
+    },
+
+    async setPostCallSummary(callSid, summary) {
+      updateCall(callSid, { postCallSummary: structuredClone(summary) })
+    },
+
+    async startLiveCallEscalation(callSid, contactId) {
+      const call = calls.get(callSid)
+      if (!call || isTerminalStatus(normalizeSessionStatus(call.status))) return false
+      if (call.escalation?.status === 'dialing' || call.escalation?.status === 'joined') return false
+
+      updateCall(callSid, {
+        escalation: { status: 'dialing', contactId, contactCallSid: null, error: null, startedAt: now() },
+      })
+      return true
+    },
+
+    async setLiveCallEscalationLeg(callSid, contactCallSid) {
+      const escalation = calls.get(callSid)?.escalation
+      if (!escalation) return
+
+      updateCall(callSid, { escalation: { ...escalation, contactCallSid } })
+    },
+
+    async setLiveCallEscalationStatus(callSid, status, statusOptions = {}) {
+      const escalation = calls.get(callSid)?.escalation
+      if (!escalation) return
+      const { contactCallSid } = statusOptions
+      if (contactCallSid && escalation.contactCallSid && escalation.contactCallSid !== contactCallSid) return
+
+      updateCall(callSid, {
+        escalation: {
+          ...escalation,
+          status,
+          ...(contactCallSid ? { contactCallSid } : {}),
+          ...(statusOptions.error !== undefined ? { error: statusOptions.error } : {}),
+        },
+      })
+    },
+
+    async recordDisclosures(callSid, events) {
+      if (!calls.has(callSid)) return
+
+      const recorded = disclosures.get(callSid) ?? []
+      disclosures.set(callSid, recorded)
+
+      for (const event of events) {
+        if (recorded.some((existing) => existing.kind === event.kind)) continue
+        recorded.push({ ...event })
+      }
+    },
+
+    async appendTranscriptChunk(params) {
+      const content = normalizeTranscriptText(params.text)
+      if (!content) return
+
+      const chunks = transcripts.get(params.callSid) ?? []
+      transcripts.set(params.callSid, chunks)
+
+      const existing = chunks.find((chunk) => chunk.sourceEventId === params.sourceEventId)
+      const speaker = normalizeStoredSpeaker(params.speaker)
+
+      if (!existing) {
+        chunks.push({
+          id: nextChunkId++,
+          sourceEventId: params.sourceEventId,
+          speaker,
+          text: content,
+          timestamp: parseTimestampMs(params.timestamp),
+          isFinal: params.isFinal,
+        })
+        return
+      }
+
+      existing.text = mergeIncrementalTranscriptText(existing.text, content, { isFinal: params.isFinal })
+      existing.speaker = speaker === 'unknown' ? existing.speaker : speaker
+      existing.isFinal = existing.isFinal || params.isFinal
+      existing.timestamp = Math.max(existing.timestamp, parseTimestampMs(params.timestamp))
+    },
+
+    async getTranscriptChunks(callSid, limit) {
+      return readTranscript(callSid, limit)
+    },
+
+    async getLiveCallSummary(callSid) {
+      const call = calls.get(callSid)
+      if (!call) return null
+
+      return {
+        callSid: call.callSid,
+        slug: call.slug,
+        status: call.status,
+        lastAdviceAt: call.lastAdviceAt,
+        advice: structuredClone(call.advice),
+        evidenceLedger: structuredClone(call.evidenceLedger),
+        peakRiskScore: call.peakRiskScore,
+        postCallSummary: structuredClone(call.postCallSummary),
+        escalationStatus: call.escalation?.status ?? null,
+      }
+    },
+
+    async getLiveSessionSnapshot(callSid, slug, transcriptLimit = 25) {
+      const call = calls.get(callSid)
+      if (!call || call.slug !== slug) return null
+
+      return {
+        callId: call.callSid,
+        slug: call.slug,
+        status: normalizeSessionStatus(call.status),
+        assistantMuted: call.assistantMuted,
+        analyzing: call.analyzing,
+        lastError: call.lastError,
+        updatedAt: call.updatedAt,
+        lastAdviceAt: call.lastAdviceAt,
+        version: 1,
+        advice: structuredClone(call.advice),
+        transcript: readTranscript(callSid, transcriptLimit),
+        summary: structuredClone(call.postCallSummary),
+        escalation: structuredClone(call.escalation),
+      }
+    },
+
+    async getAdviceTimeline(callSid, slug, limit = 500) {
+      const call = calls.get(callSid)
+      if (!call || call.slug !== slug) return null
+
+      return structuredClone((adviceEvents.get(callSid) ?? []).slice(-limit))
+    },
+
+    async listLiveCalls(params): Promise<LiveCallPage> {
+      const matching = [...calls.values()]
+        .filter((call) => {
+          if (call.slug !== params.slug) return false
+          if (params.riskLevel && getRiskLevel(call.peakRiskScore) !== params.riskLevel) return false
+          if (params.from != null && call.createdAt < params.from) return false
+          if (params.to != null && call.createdAt > params.to) return false
+          if (params.openOnly && call.endedAt !== null) return false
+          return true
+        })
+        .sort((a, b) => b.createdAt - a.createdAt)
+      const offset = (params.page - 1) * params.pageSize
+
+      return {
+        cases: matching.slice(offset, offset + params.pageSize).map((call) => ({
+          callId: call.callSid,
+          status: normalizeSessionStatus(call.status),
+          startedAt: call.createdAt,
+          endedAt: call.endedAt,
+          durationMs: call.endedAt !== null ? call.endedAt - call.createdAt : null,
+          peakRiskScore: call.peakRiskScore,
+          peakRiskLevel: getRiskLevel(call.peakRiskScore),
+          scamType: call.scamType,
+        })),
+        total: matching.length,
+      }
+    },
+
+    async purgeExpiredCallData(params) {
+      const expired = [...calls.values()]
+        .filter(
+          (call) => call.slug === params.slug && call.createdAt < params.before && call.transcriptPurgedAt === null,
+        )
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .slice(0, params.limit)
+      let transcriptChunks = 0
+      let adviceEventCount = 0
+
+      for (const call of expired) {
+        const chunks = transcripts.get(call.callSid) ?? []
+        transcriptChunks += chunks.length
+        adviceEventCount += adviceEvents.get(call.callSid)?.length ?? 0
+
+        // Timeline events hold no transcript text here, so anonymizing only
+        // touches the chunks.
+        if (params.action === 'delete') {
+          transcripts.delete(call.callSid)
+          adviceEvents.delete(call.callSid)
+        } else {
+          for (const chunk of chunks) chunk.text = PURGED_TRANSCRIPT_TEXT
+        }
+
+        call.advice = { ...call.advice, evidence: [] }
+        call.transcriptPurgedAt = now()
+      }
+
+      if (expired.length > 0) {
+        purgeAudit.push({
+          slug: params.slug,
+          action: params.action,
+          cutoff: params.before,
+          callSids: expired.map((call) => call.callSid),
+          transcriptChunks,
+          adviceEvents: adviceEventCount,
+          purgedAt: now(),
+        })
+      }
+
+      return { callsPurged: expired.length, transcriptChunks, adviceEvents: adviceEventCount }
+    },
+  }
+}
@@ -0,0 +1,74 @@
+import { maskPhone } from '@/lib/phone'
+import { createTwilioSayCall, getTwilioConfig, sendTwilioSms } from '@/lib/twilio-api'
+
+export const MESSAGE_SENDER_IDS = ['twilio', 'local'] as const
+
+export type MessageSenderId = (typeof MESSAGE_SENDER_IDS)[number]
+
+/** Landlines cannot receive texts, so codes can also be read out in a call. */
+export const MESSAGE_CHANNELS = ['sms', 'voice'] as const
+
+export type MessageChannel = (typeof MESSAGE_CHANNELS)[number]
+
+export type OutboundMessage = {
+  to: string
+  channel: MessageChannel
+  body: string
+}
+
+export type MessageSender = {
+  id: MessageSenderId
+  send: (message: OutboundMessage) => Promise<void>
+}
+
+export function isMessageChannel(value: unknown): value is MessageChannel {
+  return typeof value === 'string' && (MESSAGE_CHANNELS as readonly string[]).includes(value)
+}
+
+export function createTwilioMessageSender(): MessageSender {
+  return {
+    id: 'twilio',
+    async send(message) {
+      if (message.channel === 'voice') {
+        await createTwilioSayCall({ to: message.to, say: message.body })
+        return
+      }
+
+      await sendTwilioSms({ to: message.to, body: message.body })
+    },
+  }
+}
+
+/** Development stand-in: nothing leaves the machine, messages go to the server log. */
+export function createLocalMessageSender(): MessageSender {
+  return {
+    id: 'local',
+    async send(message) {
+      console.info(`[${message.channel}:local] to ${maskPhone(message.to)}: ${message.body}`)
+    },
+  }
+}
+
+function resolveSenderId(): MessageSenderId | null {
+  const explicit = process.env.SMS_PROVIDER?.trim().toLowerCase()
+
+  if (explicit) {
+    if (!(MESSAGE_SENDER_IDS as readonly string[]).includes(explicit)) {
+      throw new Error(`Unknown SMS_PROVIDER "${explicit}". Expected one of: ${MESSAGE_SENDER_IDS.join(', ')}.`)
+    }
+
+    return explicit as MessageSenderId
+  }
+
+  if (getTwilioConfig()) return 'twilio'
+  // Never fall back to the log in production: codes would end up there.
+  return process.env.NODE_ENV === 'production' ? null : 'local'
+}
+
+export function getMessageSender(): MessageSender | null {
+  const senderId = resolveSenderId()
+
+  if (senderId === 'twilio') return getTwilioConfig() ? createTwilioMessageSender() : null
+  if (senderId === 'local') return createLocalMessageSender()
+  return null
+}
@@ -0,0 +1,126 @@
+import { MessageSender, getMessageSender } from '@/lib/message-sender'
+import { maskPhone } from '@/lib/phone'
+import type { TrustedContact } from '@/lib/trusted-contacts'
+
+export const NOTIFIER_IDS = ['sms', 'email', 'log'] as const
+
+export type NotifierId = (typeof NOTIFIER_IDS)[number]
+
+export type ContactNotification = {
+  subject: string
+  text: string
+}
+
+/** One way of reaching a trusted contact. */
+export type Notifier = {
+  id: NotifierId
+  canReach: (contact: TrustedContact) => boolean
+  notify: (contact: TrustedContact, notification: ContactNotification) => Promise<void>
+}
+
+type EmailConfig = {
+  apiKey: string
+  from: string
+}
+
+const RESEND_EMAILS_URL = 'https://api.resend.com/emails'
+
+export function getEmailConfig(): EmailConfig | null {
+  const apiKey = process.env.RESEND_API_KEY?.trim()
+  const from = process.env.ALERT_EMAIL_FROM?.trim()
+
+  if (!apiKey || !from) return null
+  return { apiKey, from }
+}
+
+/** Texts go through the same sender as sign-in codes. */
+export function createSmsNotifier(sender: MessageSender): Notifier {
+  return {
+    id: 'sms',
+    canReach: (contact) => Boolean(contact.phoneNumber),
+    async notify(contact, notification) {
+      if (!contact.phoneNumber) return
+      await sender.send({ to: contact.phoneNumber, channel: 'sms', body: notification.text })
+    },
+  }
+}
+
+export function createEmailNotifier(config: EmailConfig): Notifier {
+  return {
+    id: 'email',
+    canReach: (contact) => Boolean(contact.email),
+    async notify(contact, notification) {
+      if (!contact.email) return
+
+      const response = await fetch(RESEND_EMAILS_URL, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${config.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          from: config.from,
+          to: [contact.email],
+          subject: notification.subject,
+          text: notification.text,
+        }),
+        signal: AbortSignal.timeout(15_000),
+      })
+
+      if (!response.ok) {
+        throw new Error(`Failed to send alert email: email provider returned status ${response.status}`)
+      }
+    },
+  }
+}
+
+/** Development stand-in: alerts go to the server log instead of anyone's phone. */
+export function createLogNotifier(): Notifier {
+  return {
+    id: 'log',
+    canReach: () => true,
+    async notify(contact, notification) {
+      const to = contact.phoneNumber ? maskPhone(contact.phoneNumber) : (contact.email ?? 'no address')
+      console.info(`[alert:log] to ${contact.name} (${to}): ${notification.subject}\n${notification.text}`)
+    },
+  }
+}
+
+function resolveNotifierIds(): NotifierId[] {
+  const explicit = process.env.ALERT_NOTIFIERS?.trim().toLowerCase()
+
+  if (explicit) {
+    const ids = explicit.split(',').map((id) => id.trim()).filter(Boolean)
+    const unknown = ids.filter((id) => !(NOTIFIER_IDS as readonly string[]).includes(id))
+
+    if (unknown.length > 0) {
+      throw new Error(`Unknown ALERT_NOTIFIERS "${unknown.join(', ')}". Expected any of: ${NOTIFIER_IDS.join(', ')}.`)
+    }
+
+    return ids as NotifierId[]
+  }
+
+  const ids: NotifierId[] = []
+  if (getMessageSender()) ids.push('sms')
+  if (getEmailConfig()) ids.push('email')
+  // Never fall back to the log in production: contacts would silently hear nothing.
+  if (ids.length === 0 && process.env.NODE_ENV !== 'production') ids.push('log')
+  return ids
+}
+
+/** Every configured notifier; one that is listed but not configured is left out. */
+export function getNotifiers(): Notifier[] {
+  return resolveNotifierIds().flatMap((id): Notifier[] => {
+    if (id === 'sms') {
+      const sender = getMessageSender()
+      return sender ? [createSmsNotifier(sender)] : []
+    }
+
+    if (id === 'email') {
+      const config = getEmailConfig()
+      return config ? [createEmailNotifier(config)] : []
+    }
+
+    return [createLogNotifier()]
+  })
+}
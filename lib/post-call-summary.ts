@@ -0,0 +1,253 @@
+import { z } from 'zod'
+import { DISCLOSURE_PLAYBOOKS, detectDisclosures, sortDisclosureKinds } from '@/lib/disclosure'
+import {
+  CALLER_READING_DIGITS_SIGNAL_ID,
+  collectTranscriptSignals,
+  formatTranscriptForModel,
+  parseJsonObject,
+} from '@/lib/live-coach'
+import {
+  CallVerdict,
+  CoachingAdvice,
+  PostCallSummary,
+  TranscriptChunk,
+  getRiskLevel,
+} from '@/lib/live-types'
+import { LlmProvider, getLlmProvider } from '@/lib/llm-provider'
+import { REDACTION_PROMPT_NOTE } from '@/lib/redaction'
+import { RiskRuleCategory } from '@/lib/risk-rules'
+import { getScamTypeLabel } from '@/lib/scam-types'
+
+const CALL_VERDICTS = ['likely-scam', 'suspicious', 'no-scam-detected'] as const
+const MAX_SUMMARY_ITEMS = 5
+const MAX_SUMMARY_TRANSCRIPT_ENTRIES = 120
+
+const VERDICT_SEVERITY: Record<CallVerdict, number> = {
+  'no-scam-detected': 0,
+  suspicious: 1,
+  'likely-scam': 2,
+}
+
+const REQUEST_LABELS: Array<[RiskRuleCategory, string]> = [
+  ['payment', 'Payment'],
+  ['credentials', 'A code or password'],
+  ['personal-data', 'Personal details'],
+  ['remote-access', 'Access to your device'],
+]
+
+// Keyed by what the other party went after. Money and account access come
+// first because they are the most time-sensitive.
+const RECOVERY_STEPS: Array<[RiskRuleCategory, string]> = [
+  ['payment', 'If you sent money, gift cards or crypto, call your bank or card issuer now and ask them to stop or reverse it.'],
+  ['credentials', 'If you shared a code or password, change that password and sign out of other devices.'],
+  ['remote-access', 'If you let them into your computer, disconnect it from the internet and have it checked before banking on it.'],
+  ['personal-data', 'If you gave out your Social Security number or date of birth, place a free credit freeze with all three bureaus.'],
+]
+
+const DISCLOSURE_RECOVERY_STEP =
+  'You read out a number on the call. Call your bank on the number on your card and ask them to freeze the card or account.'
+
+const GENERAL_RECOVERY_STEPS = [
+  'Call back using an official number you look up yourself, not one they gave you.',
+  'Tell someone you trust about the call.',
+  'Report it at reportfraud.ftc.gov.',
+]
+
+const NO_SCAM_RECOVERY_STEPS = [
+  'No strong scam signals were heard on this call.',
+  'If anything they said still feels off, call back using an official number you look up yourself.',
+]
+
+const parsedSummarySchema = z.object({
+  claimedIdentity: z.string().min(1).max(120).nullable().optional().catch(null),
+  requests: z.array(z.string().min(1).max(160)).max(MAX_SUMMARY_ITEMS).default([]),
+  disclosures: z.array(z.string().min(1).max(160)).max(MAX_SUMMARY_ITEMS).default([]),
+  verdict: z.enum(CALL_VERDICTS),
+  verdictReason: z.string().min(1).max(280),
+  recoverySteps: z.array(z.string().min(1).max(200)).max(MAX_SUMMARY_ITEMS).default([]),
+})
+
+const SUMMARY_SYSTEM_PROMPT = [
+  'You write the post-call summary for an older adult who just finished a possibly fraudulent phone call.',
+  'Input is the full transcript between the caller (user) and another party, plus signals a rules engine already found.',
+  'Return JSON only, no markdown.',
+  'Use plain, calm language. Never repeat card numbers, codes, passwords or account numbers, even partially.',
+  REDACTION_PROMPT_NOTE,
+  '"disclosures" lists what the user actually gave away, not what was asked for. Use an empty array when nothing was shared.',
+  '"recoverySteps" are concrete things to do now, most urgent first, for example freezing a card, changing a password or placing a credit freeze.',
+  'Only use "likely-scam" when there is concrete evidence such as payment demands, code requests, remote access or threats.',
+  'Output fields:',
+  '{',
+  '  "claimedIdentity": who the other party claimed to be, or null,',
+  `  "requests": array of up to ${MAX_SUMMARY_ITEMS} short items they asked the user for,`,
+  `  "disclosures": array of up to ${MAX_SUMMARY_ITEMS} short items the user shared,`,
+  `  "verdict": ${CALL_VERDICTS.map((value) => `"${value}"`).join(' | ')},`,
+  '  "verdictReason": one or two sentences explaining the verdict,',
+  `  "recoverySteps": array of up to ${MAX_SUMMARY_ITEMS} short steps`,
+  '}',
+].join('\n')
+
+function getVerdict(peakRiskScore: number): CallVerdict {
+  const level = getRiskLevel(peakRiskScore)
+  if (level === 'high') return 'likely-scam'
+  if (level === 'medium') return 'suspicious'
+  return 'no-scam-detected'
+}
+
+function dedupe(items: string[]): string[] {
+  return [...new Set(items.map((item) => item.trim()).filter(Boolean))].slice(0, MAX_SUMMARY_ITEMS)
+}
+
+/**
+ * Rule-based recap from the whole transcript. Used on its own when no model is
+ * configured and as the fallback when the model call fails.
+ */
+export function buildHeuristicPostCallSummary(params: {
+  transcript: TranscriptChunk[]
+  advice: CoachingAdvice
+  peakRiskScore: number
+  now?: number
+}): PostCallSummary {
+  const { transcript, advice } = params
+  const signals = collectTranscriptSignals(transcript).filter((signal) => signal.weight > 0)
+  const otherPartySignals = signals.filter((signal) => signal.speaker !== 'caller')
+  const requestedCategories = new Set(otherPartySignals.flatMap((signal) => (signal.category ? [signal.category] : [])))
+
+  const claimedIdentity = otherPartySignals.find((signal) => signal.category === 'impersonation')?.text ?? null
+  const requests = REQUEST_LABELS.flatMap(([category, label]) => {
+    const signal = otherPartySignals.find((candidate) => candidate.category === category)
+    return signal ? [`${label} (“${signal.text}”)`] : []
+  })
+  const disclosedKinds = sortDisclosureKinds([
+    ...advice.disclosures,
+    ...detectDisclosures(transcript).map((disclosure) => disclosure.kind),
+  ])
+  const readDigits = signals.some((signal) => signal.id === CALLER_READING_DIGITS_SIGNAL_ID)
+  const disclosures =
+    disclosedKinds.length > 0
+      ? disclosedKinds.map((kind) => `You shared ${DISCLOSURE_PLAYBOOKS[kind].label}.`)
+      : readDigits
+        ? ['You read out a number or code after they asked for one.']
+        : []
+  const disclosureSteps =
+    disclosedKinds.length > 0
+      ? disclosedKinds.flatMap((kind) => DISCLOSURE_PLAYBOOKS[kind].recoverySteps)
+      : readDigits
+        ? [DISCLOSURE_RECOVERY_STEP]
+        : []
+
+  const verdict = getVerdict(Math.max(params.peakRiskScore, advice.riskScore))
+  const scamTypeLabel = getScamTypeLabel(advice.scamType)
+  const verdictReason =
+    verdict === 'likely-scam'
+      ? scamTypeLabel
+        ? `This call followed the pattern of a ${scamTypeLabel.toLowerCase()} scam.`
+        : 'This call had strong signs of a scam.'
+      : verdict === 'suspicious'
+        ? 'This call had some warning signs, but not enough to be sure it was a scam.'
+        : 'We did not hear the usual signs of a scam on this call.'
+
+  const recoverySteps =
+    verdict === 'no-scam-detected' && requests.length === 0 && disclosures.length === 0
+      ? NO_SCAM_RECOVERY_STEPS
+      : [
+          ...disclosureSteps,
+          ...RECOVERY_STEPS.filter(([category]) => requestedCategories.has(category)).map(([, step]) => step),
+          ...GENERAL_RECOVERY_STEPS,
+        ]
+
+  return {
+    source: 'heuristic',
+    claimedIdentity,
+    requests: dedupe(requests),
+    disclosures,
+    verdict,
+    verdictReason,
+    recoverySteps: dedupe(recoverySteps),
+    generatedAt: params.now ?? Date.now(),
+  }
+}
+
+export async function generateModelPostCallSummary(params: {
+  transcript: TranscriptChunk[]
+  heuristicSummary: PostCallSummary
+  provider?: LlmProvider | null
+}): Promise<PostCallSummary | null> {
+  const { heuristicSummary } = params
+  const provider = params.provider === undefined ? getLlmProvider() : params.provider
+  const transcript = params.transcript.slice(-MAX_SUMMARY_TRANSCRIPT_ENTRIES)
+
+  if (transcript.length === 0 || !provider) {
+    return null
+  }
+
+  const content = await provider.complete({
+    temperature: 0.1,
+    messages: [
+      {
+        role: 'system',
+        content: SUMMARY_SYSTEM_PROMPT,
+      },
+      {
+        role: 'user',
+        content: [
+          'Signals found by the rules engine:',
+          JSON.stringify({
+            claimedIdentity: heuristicSummary.claimedIdentity,
+            requests: heuristicSummary.requests,
+            disclosures: heuristicSummary.disclosures,
+            verdict: heuristicSummary.verdict,
+          }),
+          '',
+          'Full transcript:',
+          formatTranscriptForModel(transcript),
+          '',
+          'Return the JSON summary now.',
+        ].join('\n'),
+      },
+    ],
+  })
+
+  const parsed = parsedSummarySchema.parse(parseJsonObject(content))
+
+  // The model may add detail but never talks the verdict down or drops
+  // findings the rules engine is sure of.
+  const verdict =
+    VERDICT_SEVERITY[parsed.verdict] >= VERDICT_SEVERITY[heuristicSummary.verdict]
+      ? parsed.verdict
+      : heuristicSummary.verdict
+
+  return {
+    source: 'model',
+    claimedIdentity: parsed.claimedIdentity ?? heuristicSummary.claimedIdentity,
+    requests: parsed.requests.length > 0 ? dedupe(parsed.requests) : heuristicSummary.requests,
+    disclosures: dedupe([...heuristicSummary.disclosures, ...parsed.disclosures]),
+    verdict,
+    verdictReason: verdict === parsed.verdict ? parsed.verdictReason : heuristicSummary.verdictReason,
+    recoverySteps: parsed.recoverySteps.length > 0 ? dedupe(parsed.recoverySteps) : heuristicSummary.recoverySteps,
+    generatedAt: heuristicSummary.generatedAt,
+  }
+}
+
+/** Model summary when available, heuristic otherwise. Never throws. */
+export async function generatePostCallSummary(params: {
+  transcript: TranscriptChunk[]
+  advice: CoachingAdvice
+  peakRiskScore: number
+  now?: number
+  provider?: LlmProvider | null
+}): Promise<PostCallSummary> {
+  const heuristicSummary = buildHeuristicPostCallSummary(params)
+
+  try {
+    return (
+      (await generateModelPostCallSummary({
+        transcript: params.transcript,
+        heuristicSummary,
+        provider: params.provider,
+      })) ?? heuristicSummary
+    )
+  } catch {
+    return heuristicSummary
+  }
+}
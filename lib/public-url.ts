@@ -13,7 +13,8 @@ function normalizeBaseUrl(raw: string): string {
   return `https://${trimmed}`
 }
 
-function getConfiguredBaseUrl(): string | null {
+/** The configured public origin, for links sent outside a request (alerts, jobs). */
+export function getConfiguredBaseUrl(): string | null {
   for (const key of BASE_URL_ENV_KEYS) {
     const value = process.env[key]
     if (!value?.trim()) continue
@@ -58,3 +59,20 @@ export function getPublicBaseUrl(request: NextRequest): URL {
   return new URL(`${parsed.protocol}//${parsed.host}`)
 }
 
+
+/**
+ * For form posts that change who the browser is signed in as: the page that
+ * sent the request has to be ours. Browsers send `Origin` on form posts; the
+ * `Referer` covers the few that do not, and a request with neither is refused.
+ */
+export function isSameOriginRequest(request: NextRequest): boolean {
+  const expected = getPublicBaseUrl(request).origin
+  const source = request.headers.get('origin')?.trim() || request.headers.get('referer')?.trim()
+  if (!source || source === 'null') return false
+
+  try {
+    return new URL(source).origin === expected
+  } catch {
+    return false
+  }
+}
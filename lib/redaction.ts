@@ -0,0 +1,143 @@
+import type { TranscriptChunk } from '@/lib/live-types'
+
+/**
+ * Where a tenant's transcripts are redacted: before they are written to the
+ * database (`storage`), before they are sent to the LLM provider (`model`), or
+ * both. Heuristic scoring always sees the stored text.
+ */
+export const REDACTION_MODES = ['off', 'storage', 'model', 'both'] as const
+
+export type RedactionMode = (typeof REDACTION_MODES)[number]
+
+export const DEFAULT_REDACTION_MODE: RedactionMode = 'both'
+
+const CARD_PLACEHOLDER = '[CARD]'
+const SSN_PLACEHOLDER = '[SSN]'
+const EMAIL_PLACEHOLDER = '[EMAIL]'
+const ADDRESS_PLACEHOLDER = '[ADDRESS]'
+const CARD_PLACEHOLDER_DIGITS = 16
+const SSN_DIGITS = 9
+const MIN_REDACTED_DIGITS = 4
+const MIN_CARD_DIGITS = 13
+const MAX_CARD_DIGITS = 19
+
+const DIGIT_WORDS: Record<string, string> = {
+  zero: '0',
+  one: '1',
+  two: '2',
+  three: '3',
+  four: '4',
+  five: '5',
+  six: '6',
+  seven: '7',
+  eight: '8',
+  nine: '9',
+}
+
+const DIGIT_TOKEN = String.raw`(?:\d|\b(?:zero|one|two|three|four|five|six|seven|eight|nine)\b)`
+const DIGIT_TOKEN_PATTERN = new RegExp(DIGIT_TOKEN, 'gi')
+// Amounts such as "$5,000" are left alone; the lookbehind also stops a match
+// from starting in the middle of one.
+const DIGIT_RUN_PATTERN = new RegExp(`(?<![$€£\\d,.])${DIGIT_TOKEN}(?:[\\s,.-]*${DIGIT_TOKEN})*`, 'gi')
+const AMOUNT_SUFFIX_PATTERN = /^\s*(?:dollars|bucks|cents)\b/i
+const FORMATTED_SSN_PATTERN = /\b\d{3}[-\s]\d{2}[-\s]\d{4}\b/g
+const SSN_CONTEXT_PATTERN = /\b(?:social(?: security)?|ssn)\b/i
+// "Born 1950" or "since 2019" is harmless context, unless a code or PIN is being read out.
+const YEAR_PATTERN = /^(?:19|20)\d{2}$/
+const SECRET_CONTEXT_PATTERN = /\b(?:code|pin|passcode|password|verification)\b/i
+const EMAIL_PATTERN = /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g
+const SPOKEN_EMAIL_PATTERN = /\b[\w.+-]+\s+at\s+[\w-]+\s+dot\s+(?:com|net|org|edu|gov|us)\b/gi
+const STREET_ADDRESS_PATTERN =
+  /\b\d{1,6}\s+(?:[a-z][a-z0-9.'-]*\s+){1,4}(?:street|st|avenue|ave|road|rd|boulevard|blvd|lane|ln|drive|dr|court|terrace|parkway|pkwy|highway|hwy)\b\.?/gi
+
+/** Placeholders that stand for a run of digits; see `getRedactedDigitCount`. */
+export const REDACTED_NUMBER_PATTERN = /\[(?:CARD|SSN|DIGITS-\d+)\]/
+
+/** Shared by every prompt that may receive redacted transcript lines. */
+export const REDACTION_PROMPT_NOTE =
+  'Placeholders such as [CARD], [SSN], [DIGITS-6], [EMAIL] and [ADDRESS] replace personal data that was said aloud; treat them as if the real value was spoken.'
+
+export function isRedactionMode(value: unknown): value is RedactionMode {
+  return typeof value === 'string' && (REDACTION_MODES as readonly string[]).includes(value)
+}
+
+export function redactsAtStorage(mode: RedactionMode): boolean {
+  return mode === 'storage' || mode === 'both'
+}
+
+export function redactsAtModel(mode: RedactionMode): boolean {
+  return mode === 'model' || mode === 'both'
+}
+
+export function getRedactedDigitCount(placeholder: string): number {
+  if (placeholder === CARD_PLACEHOLDER) return CARD_PLACEHOLDER_DIGITS
+  if (placeholder === SSN_PLACEHOLDER) return SSN_DIGITS
+  const match = /^\[DIGITS-(\d+)\]$/.exec(placeholder)
+  return match ? Number.parseInt(match[1], 10) : 0
+}
+
+function toDigits(run: string): string {
+  return (run.match(DIGIT_TOKEN_PATTERN) ?? []).map((token) => DIGIT_WORDS[token.toLowerCase()] ?? token).join('')
+}
+
+export function passesLuhnCheck(digits: string): boolean {
+  let sum = 0
+  let double = false
+
+  for (let index = digits.length - 1; index >= 0; index -= 1) {
+    let value = digits.charCodeAt(index) - 48
+    if (value < 0 || value > 9) return false
+
+    if (double) {
+      value *= 2
+      if (value > 9) value -= 9
+    }
+
+    sum += value
+    double = !double
+  }
+
+  return digits.length > 0 && sum % 10 === 0
+}
+
+function redactDigitRun(run: string, suffix: string, ssnContext: boolean, secretContext: boolean): string {
+  if (AMOUNT_SUFFIX_PATTERN.test(suffix)) return run
+  if (!secretContext && YEAR_PATTERN.test(run)) return run
+
+  const digits = toDigits(run)
+  if (digits.length < MIN_REDACTED_DIGITS) return run
+
+  if (digits.length >= MIN_CARD_DIGITS && digits.length <= MAX_CARD_DIGITS && passesLuhnCheck(digits)) {
+    return CARD_PLACEHOLDER
+  }
+
+  if (digits.length === SSN_DIGITS && ssnContext) {
+    return SSN_PLACEHOLDER
+  }
+
+  return `[DIGITS-${digits.length}]`
+}
+
+/**
+ * Replace personal data with placeholders that keep its shape: a card number
+ * becomes `[CARD]` and a six-digit code `[DIGITS-6]`, so rules that look for
+ * the caller reading out numbers still fire on redacted text. Safe to run on
+ * text that was already redacted.
+ */
+export function redactText(text: string): string {
+  const ssnContext = SSN_CONTEXT_PATTERN.test(text)
+  const secretContext = SECRET_CONTEXT_PATTERN.test(text)
+
+  return text
+    .replace(EMAIL_PATTERN, EMAIL_PLACEHOLDER)
+    .replace(SPOKEN_EMAIL_PATTERN, EMAIL_PLACEHOLDER)
+    .replace(STREET_ADDRESS_PATTERN, ADDRESS_PLACEHOLDER)
+    .replace(FORMATTED_SSN_PATTERN, SSN_PLACEHOLDER)
+    .replace(DIGIT_RUN_PATTERN, (run: string, offset: number, whole: string) =>
+      redactDigitRun(run, whole.slice(offset + run.length), ssnContext, secretContext),
+    )
+}
+
+export function redactTranscript(transcript: TranscriptChunk[]): TranscriptChunk[] {
+  return transcript.map((chunk) => ({ ...chunk, text: redactText(chunk.text) }))
+}
@@ -0,0 +1,97 @@
+import type { LiveCallRepository } from '@/lib/live-call-repository'
+
+/**
+ * What happens to a call's transcript once it is past the tenant's retention
+ * window. Either way the case row and its post-call summary are kept.
+ */
+export const TRANSCRIPT_PURGE_ACTIONS = ['delete', 'anonymize'] as const
+
+export type TranscriptPurgeAction = (typeof TRANSCRIPT_PURGE_ACTIONS)[number]
+
+export const DEFAULT_TRANSCRIPT_RETENTION_DAYS = 30
+/** The windows an owner can pick; the database allows any value from 1 to 3650. */
+export const TRANSCRIPT_RETENTION_DAY_OPTIONS = [7, 30, 90] as const
+/** Chunk text after an `anonymize` purge; matches scripts/011_transcript_retention.sql. */
+export const PURGED_TRANSCRIPT_TEXT = '[removed]'
+const DAY_MS = 86_400_000
+const DEFAULT_PURGE_BATCH_SIZE = 200
+// Bounds a single cron run; whatever is left is picked up the next day.
+const MAX_PURGE_BATCHES_PER_TENANT = 10
+
+export type TenantRetentionPolicy = {
+  slug: string
+  transcriptRetentionDays: number
+  purgeAction: TranscriptPurgeAction
+}
+
+export type TenantPurgeResult = {
+  slug: string
+  action: TranscriptPurgeAction
+  cutoff: number
+  callsPurged: number
+  transcriptChunks: number
+  adviceEvents: number
+  error: string | null
+}
+
+export function isTranscriptPurgeAction(value: unknown): value is TranscriptPurgeAction {
+  return typeof value === 'string' && (TRANSCRIPT_PURGE_ACTIONS as readonly string[]).includes(value)
+}
+
+export function isTranscriptRetentionDayOption(value: unknown): value is number {
+  return typeof value === 'number' && (TRANSCRIPT_RETENTION_DAY_OPTIONS as readonly number[]).includes(value)
+}
+
+export function getRetentionCutoff(policy: TenantRetentionPolicy, now: number): number {
+  return now - policy.transcriptRetentionDays * DAY_MS
+}
+
+/**
+ * Purge every tenant's expired transcripts in batches. A failing tenant is
+ * reported in its result and does not stop the others.
+ */
+export async function runRetentionPurge(params: {
+  policies: TenantRetentionPolicy[]
+  store: Pick<LiveCallRepository, 'purgeExpiredCallData'>
+  now?: number
+  batchSize?: number
+}): Promise<TenantPurgeResult[]> {
+  const now = params.now ?? Date.now()
+  const batchSize = params.batchSize ?? DEFAULT_PURGE_BATCH_SIZE
+  const results: TenantPurgeResult[] = []
+
+  for (const policy of params.policies) {
+    const result: TenantPurgeResult = {
+      slug: policy.slug,
+      action: policy.purgeAction,
+      cutoff: getRetentionCutoff(policy, now),
+      callsPurged: 0,
+      transcriptChunks: 0,
+      adviceEvents: 0,
+      error: null,
+    }
+
+    try {
+      for (let batch = 0; batch < MAX_PURGE_BATCHES_PER_TENANT; batch += 1) {
+        const purged = await params.store.purgeExpiredCallData({
+          slug: policy.slug,
+          before: result.cutoff,
+          action: policy.purgeAction,
+          limit: batchSize,
+        })
+
+        result.callsPurged += purged.callsPurged
+        result.transcriptChunks += purged.transcriptChunks
+        result.adviceEvents += purged.adviceEvents
+
+        if (purged.callsPurged < batchSize) break
+      }
+    } catch (error) {
+      result.error = error instanceof Error && error.message ? error.message : 'Retention purge failed.'
+    }
+
+    results.push(result)
+  }
+
+  return results
+}
@@ -0,0 +1,240 @@
+import { z } from 'zod'
+import { TranscriptChunk, TranscriptSpeaker } from '@/lib/live-types'
+import { RULE_PACK_SOURCES } from '@/lib/rule-packs'
+import { KnownScamType, SCAM_TYPES, ScamType } from '@/lib/scam-types'
+
+export const RISK_RULE_CATEGORIES = [
+  'payment',
+  'credentials',
+  'personal-data',
+  'remote-access',
+  'urgency',
+  'threat',
+  'secrecy',
+  'impersonation',
+  'pretext',
+] as const
+
+export type RiskRuleCategory = (typeof RISK_RULE_CATEGORIES)[number]
+
+const RULE_SPEAKERS = ['caller', 'other', 'unknown'] as const
+
+const ruleAdviceTemplateSchema = z.object({
+  feedback: z.string().min(1).max(220).optional(),
+  whatToSay: z.string().min(1).max(220).optional(),
+  whatToDo: z.string().min(1).max(220).optional(),
+})
+
+const riskRuleSchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/, 'Rule ids must look like "<pack>.<rule>".'),
+    pattern: z.string().min(1),
+    flags: z.string().regex(/^[imsu]*$/, 'Only i, m, s and u regex flags are supported.').default('i'),
+    weight: z.number().min(-50).max(50),
+    category: z.enum(RISK_RULE_CATEGORIES),
+    speakers: z.array(z.enum(RULE_SPEAKERS)).min(1).default([...RULE_SPEAKERS]),
+    typology: z.enum(SCAM_TYPES).optional(),
+    advice: ruleAdviceTemplateSchema.optional(),
+  })
+  .superRefine((rule, ctx) => {
+    try {
+      new RegExp(rule.pattern, rule.flags)
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['pattern'],
+        message: error instanceof Error ? error.message : 'Invalid regular expression.',
+      })
+    }
+  })
+
+const rulePackSchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9-]+$/),
+    version: z.number().int().min(1),
+    description: z.string().optional(),
+    rules: z.array(riskRuleSchema).min(1),
+  })
+  .superRefine((pack, ctx) => {
+    const seen = new Set<string>()
+
+    pack.rules.forEach((rule, index) => {
+      if (!rule.id.startsWith(`${pack.id}.`)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['rules', index, 'id'],
+          message: `Rule id must be prefixed with "${pack.id}."`,
+        })
+      }
+
+      if (seen.has(rule.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['rules', index, 'id'],
+          message: `Duplicate rule id "${rule.id}".`,
+        })
+      }
+      seen.add(rule.id)
+    })
+  })
+
+export type RulePackDefinition = z.input<typeof rulePackSchema>
+export type RuleAdviceTemplate = z.infer<typeof ruleAdviceTemplateSchema>
+
+export type RiskRule = {
+  id: string
+  packId: string
+  pattern: RegExp
+  weight: number
+  category: RiskRuleCategory
+  speakers: ReadonlySet<TranscriptSpeaker>
+  typology: KnownScamType | null
+  advice: RuleAdviceTemplate | null
+}
+
+export type RulePack = {
+  id: string
+  version: number
+  description: string | null
+  rules: RiskRule[]
+}
+
+export type RuleMatch = {
+  rule: RiskRule
+  chunkId: string
+  speaker: TranscriptSpeaker
+  start: number
+  end: number
+  text: string
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ')
+}
+
+function compileRulePack(source: unknown, index: number): RulePack {
+  const parsed = rulePackSchema.safeParse(source)
+
+  if (!parsed.success) {
+    throw new Error(`Invalid risk rule pack at position ${index}: ${formatIssues(parsed.error)}`)
+  }
+
+  const pack = parsed.data
+
+  return {
+    id: pack.id,
+    version: pack.version,
+    description: pack.description ?? null,
+    rules: pack.rules.map((rule) => ({
+      id: rule.id,
+      packId: pack.id,
+      pattern: new RegExp(rule.pattern, rule.flags),
+      weight: rule.weight,
+      category: rule.category,
+      speakers: new Set<TranscriptSpeaker>(rule.speakers),
+      typology: rule.typology ?? null,
+      advice: rule.advice ?? null,
+    })),
+  }
+}
+
+function readEnabledPackIds(): Set<string> | null {
+  const raw = process.env.RISK_RULE_PACKS?.trim()
+  if (!raw) {
+    return null
+  }
+
+  const ids = raw
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean)
+
+  return ids.length > 0 ? new Set(ids) : null
+}
+
+export function loadRulePacks(sources: unknown[], enabledPackIds: Set<string> | null = null): RulePack[] {
+  const packs = sources.map((source, index) => compileRulePack(source, index))
+  const packIds = new Set<string>()
+  const ruleIds = new Set<string>()
+
+  for (const pack of packs) {
+    if (packIds.has(pack.id)) {
+      throw new Error(`Duplicate risk rule pack id "${pack.id}".`)
+    }
+    packIds.add(pack.id)
+
+    for (const rule of pack.rules) {
+      if (ruleIds.has(rule.id)) {
+        throw new Error(`Duplicate risk rule id "${rule.id}" across packs.`)
+      }
+      ruleIds.add(rule.id)
+    }
+  }
+
+  if (!enabledPackIds) {
+    return packs
+  }
+
+  return packs.filter((pack) => enabledPackIds.has(pack.id))
+}
+
+const ACTIVE_RULE_PACKS = loadRulePacks(RULE_PACK_SOURCES, readEnabledPackIds())
+
+export function getActiveRulePacks(): RulePack[] {
+  return ACTIVE_RULE_PACKS
+}
+
+export function matchRiskRules(
+  transcript: TranscriptChunk[],
+  packs: RulePack[] = ACTIVE_RULE_PACKS,
+): RuleMatch[] {
+  const matches: RuleMatch[] = []
+
+  for (const chunk of transcript) {
+    for (const pack of packs) {
+      for (const rule of pack.rules) {
+        if (!rule.speakers.has(chunk.speaker)) continue
+
+        const match = rule.pattern.exec(chunk.text)
+        if (!match) continue
+
+        matches.push({
+          rule,
+          chunkId: chunk.id,
+          speaker: chunk.speaker,
+          start: match.index,
+          end: match.index + match[0].length,
+          text: match[0],
+        })
+      }
+    }
+  }
+
+  return matches
+}
+
+/**
+ * Pick the scam typology with the most positive weight behind it. Ties go to
+ * the rule that fired first, which keeps the classification stable as new
+ * chunks arrive.
+ */
+export function classifyScamType(signals: Array<Pick<RiskRule, 'typology' | 'weight'>>): ScamType {
+  const totals = new Map<KnownScamType, number>()
+
+  for (const signal of signals) {
+    if (!signal.typology || signal.weight <= 0) continue
+    totals.set(signal.typology, (totals.get(signal.typology) ?? 0) + signal.weight)
+  }
+
+  let best: ScamType = 'unknown'
+  let bestTotal = 0
+
+  for (const [typology, total] of totals) {
+    if (total > bestTotal) {
+      best = typology
+      bestTotal = total
+    }
+  }
+
+  return best
+}
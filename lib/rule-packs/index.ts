@@ -0,0 +1,9 @@
+import corePack from '@/lib/rule-packs/core.json'
+import typologyPack from '@/lib/rule-packs/typology.json'
+
+/**
+ * Registered rule packs, in load order. Packs may be JSON files or TS modules
+ * exporting a `RulePackDefinition`; each is validated by `lib/risk-rules.ts`
+ * when the coaching module loads.
+ */
+export const RULE_PACK_SOURCES: unknown[] = [corePack, typologyPack]
@@ -0,0 +1,113 @@
+import type { TranscriptChunk, TranscriptSpeaker } from '@/lib/live-types'
+import type { RiskRuleCategory } from '@/lib/risk-rules'
+
+/**
+ * The classic phone-scam arc, in the order scammers usually work through it:
+ * claim authority, present a problem, add pressure, isolate the victim, then
+ * name the payment or access channel.
+ */
+export const SCAM_SCRIPT_STAGES = ['authority', 'problem', 'urgency', 'secrecy', 'payment'] as const
+
+export type ScamScriptStage = (typeof SCAM_SCRIPT_STAGES)[number]
+
+export const SCAM_SCRIPT_STAGE_LABELS: Record<ScamScriptStage, string> = {
+  authority: 'Claims authority',
+  problem: 'Describes a problem',
+  urgency: 'Adds pressure',
+  secrecy: 'Asks for secrecy',
+  payment: 'Asks for money or access',
+}
+
+const STAGE_BY_CATEGORY: Record<RiskRuleCategory, ScamScriptStage> = {
+  impersonation: 'authority',
+  pretext: 'problem',
+  threat: 'problem',
+  urgency: 'urgency',
+  secrecy: 'secrecy',
+  payment: 'payment',
+  credentials: 'payment',
+  'personal-data': 'payment',
+  'remote-access': 'payment',
+}
+
+export type StageObservationInput = {
+  category: RiskRuleCategory
+  speaker: TranscriptSpeaker
+  chunkId: string
+  weight: number
+}
+
+export type StageObservation = {
+  stage: ScamScriptStage
+  chunkId: string
+  chunkIndex: number
+}
+
+export type ScamSequence = {
+  // First sighting of each stage, in the order the stages were observed.
+  stages: StageObservation[]
+  currentStage: ScamScriptStage | null
+  completed: boolean
+  inOrder: boolean
+}
+
+export function getScamScriptStage(category: RiskRuleCategory): ScamScriptStage {
+  return STAGE_BY_CATEGORY[category]
+}
+
+export function isScamScriptStage(value: unknown): value is ScamScriptStage {
+  return typeof value === 'string' && (SCAM_SCRIPT_STAGES as readonly string[]).includes(value)
+}
+
+/**
+ * Walk the transcript in order and note where each stage of the scam arc first
+ * shows up. Only the other party's positive signals count: the protected
+ * caller repeating or refusing a demand does not advance the script.
+ */
+export function detectScamSequence(
+  transcript: TranscriptChunk[],
+  observations: StageObservationInput[],
+): ScamSequence {
+  const chunkIndexById = new Map(transcript.map((chunk, index) => [chunk.id, index]))
+  const firstSeen = new Map<ScamScriptStage, StageObservation>()
+  let current: StageObservation | null = null
+
+  for (const observation of observations) {
+    if (observation.speaker === 'caller' || observation.weight <= 0) continue
+
+    const chunkIndex = chunkIndexById.get(observation.chunkId)
+    if (chunkIndex === undefined) continue
+
+    const stage = getScamScriptStage(observation.category)
+    const existing = firstSeen.get(stage)
+    const seen: StageObservation = { stage, chunkId: observation.chunkId, chunkIndex }
+
+    if (!existing || chunkIndex < existing.chunkIndex) {
+      firstSeen.set(stage, seen)
+    }
+
+    if (
+      !current ||
+      chunkIndex > current.chunkIndex ||
+      (chunkIndex === current.chunkIndex &&
+        SCAM_SCRIPT_STAGES.indexOf(stage) > SCAM_SCRIPT_STAGES.indexOf(current.stage))
+    ) {
+      current = seen
+    }
+  }
+
+  const stages = Array.from(firstSeen.values()).sort((a, b) => a.chunkIndex - b.chunkIndex)
+  const inOrder = stages.every(
+    (observation, index) =>
+      index === 0 ||
+      stages[index - 1].chunkIndex === observation.chunkIndex ||
+      SCAM_SCRIPT_STAGES.indexOf(stages[index - 1].stage) <= SCAM_SCRIPT_STAGES.indexOf(observation.stage),
+  )
+
+  return {
+    stages,
+    currentStage: current?.stage ?? null,
+    completed: stages.length === SCAM_SCRIPT_STAGES.length,
+    inOrder,
+  }
+}
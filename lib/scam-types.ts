@@ -0,0 +1,84 @@
+export const SCAM_TYPES = [
+  'government-impersonation',
+  'tech-support',
+  'family-emergency',
+  'romance',
+  'bank-fraud',
+  'prize-lottery',
+  'utility-shutoff',
+  'crypto-investment',
+] as const
+
+export type KnownScamType = (typeof SCAM_TYPES)[number]
+export type ScamType = KnownScamType | 'unknown'
+
+export type ScamTypePlaybook = {
+  label: string
+  feedback: string
+  whatToSay: string
+  whatToDo: string
+}
+
+export const SCAM_TYPE_PLAYBOOKS: Record<KnownScamType, ScamTypePlaybook> = {
+  'government-impersonation': {
+    label: 'Government impersonation',
+    feedback: 'This sounds like a government impersonation scam. Agencies do not demand payment by phone.',
+    whatToSay: 'I will call the agency back using the number on its official website.',
+    whatToDo: 'Do not pay or confirm your Social Security number. Hang up and call the agency directly.',
+  },
+  'tech-support': {
+    label: 'Tech support',
+    feedback: 'This sounds like a tech support scam. Real companies do not call about viruses.',
+    whatToSay: 'I do not allow anyone to access my computer. I will contact support myself.',
+    whatToDo: 'Do not install anything or share your screen. Hang up now.',
+  },
+  'family-emergency': {
+    label: 'Family emergency',
+    feedback: 'This sounds like a family emergency scam. Voices and stories can be faked.',
+    whatToSay: 'I am going to hang up and call them directly on their own number.',
+    whatToDo: 'Call your family member or another relative on a number you already know.',
+  },
+  romance: {
+    label: 'Romance',
+    feedback: 'This sounds like a romance scam. Requests for money from an online partner are a warning sign.',
+    whatToSay: 'I do not send money to people I have not met in person.',
+    whatToDo: 'Do not send money or gift cards. Talk to someone you trust first.',
+  },
+  'bank-fraud': {
+    label: 'Bank fraud',
+    feedback: 'This sounds like a bank fraud scam. Your bank will never ask for a code it sent you.',
+    whatToSay: 'I will call my bank using the number on the back of my card.',
+    whatToDo: 'Do not share codes or move money. Hang up and call your bank directly.',
+  },
+  'prize-lottery': {
+    label: 'Prize or lottery',
+    feedback: 'This sounds like a prize scam. Real prizes never require a fee to collect.',
+    whatToSay: 'I do not pay fees to collect prizes. Please send everything in writing.',
+    whatToDo: 'Do not pay any fee or share bank details. End the call.',
+  },
+  'utility-shutoff': {
+    label: 'Utility shutoff',
+    feedback: 'This sounds like a utility shutoff scam. Utilities send written notices before disconnecting.',
+    whatToSay: 'I will call the utility using the number on my bill.',
+    whatToDo: 'Do not pay over the phone. Check your account using the number on your bill.',
+  },
+  'crypto-investment': {
+    label: 'Crypto investment',
+    feedback: 'This sounds like an investment scam. Guaranteed returns are a classic warning sign.',
+    whatToSay: 'I do not make investment decisions over the phone.',
+    whatToDo: 'Do not send crypto or install trading apps. End the call.',
+  },
+}
+
+export function isKnownScamType(value: unknown): value is KnownScamType {
+  return typeof value === 'string' && (SCAM_TYPES as readonly string[]).includes(value)
+}
+
+export function toScamType(value: unknown): ScamType {
+  return isKnownScamType(value) ? value : 'unknown'
+}
+
+export function getScamTypeLabel(scamType: ScamType): string | null {
+  if (scamType === 'unknown') return null
+  return SCAM_TYPE_PLAYBOOKS[scamType].label
+}
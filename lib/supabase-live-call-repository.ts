@@ -0,0 +1,813 @@
+import { isDisclosureKind } from '@/lib/disclosure'
+import { toEvidenceLedger } from '@/lib/evidence-ledger'
+import {
+  AppendTranscriptChunkParams,
+  ListLiveCallsParams,
+  LiveCallPage,
+  LiveCallRepository,
+  LiveCallSummary,
+  PurgeExpiredCallDataParams,
+  PurgeExpiredCallDataResult,
+  SetLiveCallAdviceOptions,
+  SetLiveCallEscalationStatusOptions,
+  UpsertLiveCallSessionParams,
+  normalizeStoredSpeaker,
+  parseTimestampMs,
+} from '@/lib/live-call-repository'
+import { createAdminClient } from '@/lib/supabase/admin'
+import {
+  AdviceEvidence,
+  AdviceTimelineEvent,
+  CallEscalation,
+  CallVerdict,
+  CaseHistoryEntry,
+  CoachingAdvice,
+  DisclosureEvent,
+  EscalationStatus,
+  LiveSessionSnapshot,
+  PostCallSummary,
+  TranscriptChunk,
+  TranscriptSpeaker,
+  createDefaultAdvice,
+  getRiskLevel,
+  isEscalationStatus,
+  isTerminalStatus,
+  normalizeSessionStatus,
+} from '@/lib/live-types'
+import { isScamScriptStage } from '@/lib/scam-sequence'
+import { toScamType } from '@/lib/scam-types'
+import { mergeIncrementalTranscriptText, normalizeTranscriptText } from '@/lib/transcript-merge'
+
+type LiveCallRow = {
+  call_sid: string
+  slug: string
+  status: string
+  assistant_muted: boolean
+  analyzing: boolean
+  last_error: string | null
+  advice: unknown
+  post_call_summary: unknown
+  updated_at: string
+  last_advice_at: string | null
+  escalation_status: string | null
+  escalation_contact_id: string | null
+  escalation_call_sid: string | null
+  escalation_error: string | null
+  escalated_at: string | null
+}
+
+type TranscriptRow = {
+  id: number
+  speaker: string
+  text: string
+  timestamp_ms: number
+  is_final: boolean
+}
+
+type AdviceEventRow = {
+  id: number
+  source: string
+  raw_risk_score: number | null
+  risk_score: number
+  confidence: number
+  error: string | null
+  advice: unknown
+  created_at: string
+}
+
+type CaseHistoryRow = {
+  call_sid: string
+  status: string
+  peak_risk_score: number
+  scam_type: string
+  created_at: string
+  ended_at: string | null
+}
+
+type PurgeResultRow = {
+  calls_purged: number
+  transcript_chunks: number
+  advice_events: number
+}
+
+type TranscriptChunkUpdateRow = {
+  speaker: string
+  text: string
+  timestamp_ms: number
+  is_final: boolean
+}
+
+function toSpeaker(value: string): TranscriptSpeaker {
+  const normalized = value.toLowerCase()
+  if (normalized === 'caller') return 'caller'
+  if (normalized === 'other') return 'other'
+  return 'unknown'
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
+
+function toEvidence(payload: unknown): AdviceEvidence[] {
+  if (!Array.isArray(payload)) {
+    return []
+  }
+
+  return payload.flatMap((item): AdviceEvidence[] => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return []
+
+    const data = item as Record<string, unknown>
+    const chunkId = typeof data.chunkId === 'string' || typeof data.chunkId === 'number' ? String(data.chunkId) : ''
+    const start = typeof data.start === 'number' ? Math.round(data.start) : -1
+    const end = typeof data.end === 'number' ? Math.round(data.end) : -1
+
+    if (!chunkId || start < 0 || end <= start || typeof data.text !== 'string') return []
+
+    return [
+      {
+        source: data.source === 'model' ? 'model' : 'heuristic',
+        ruleId: typeof data.ruleId === 'string' ? data.ruleId : null,
+        chunkId,
+        start,
+        end,
+        text: data.text,
+        weight: typeof data.weight === 'number' ? data.weight : 0,
+      },
+    ]
+  })
+}
+
+function toAdvice(payload: unknown): CoachingAdvice {
+  const fallback = createDefaultAdvice()
+
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return fallback
+  }
+
+  const data = payload as Record<string, unknown>
+  const riskScoreRaw = typeof data.riskScore === 'number' ? data.riskScore : fallback.riskScore
+  const riskScore = clamp(Math.round(riskScoreRaw), 0, 100)
+
+  const nextSteps = Array.isArray(data.nextSteps)
+    ? data.nextSteps.filter((step): step is string => typeof step === 'string' && step.trim().length > 0).slice(0, 2)
+    : fallback.nextSteps
+
+  const riskLevel =
+    typeof data.riskLevel === 'string' && ['low', 'medium', 'high'].includes(data.riskLevel)
+      ? (data.riskLevel as 'low' | 'medium' | 'high')
+      : getRiskLevel(riskScore)
+
+  return {
+    riskScore,
+    riskLevel,
+    scamType: toScamType(data.scamType),
+    feedback: typeof data.feedback === 'string' && data.feedback.trim() ? data.feedback : fallback.feedback,
+    whatToSay:
+      typeof data.whatToSay === 'string' && data.whatToSay.trim() ? data.whatToSay : fallback.whatToSay,
+    whatToDo: typeof data.whatToDo === 'string' && data.whatToDo.trim() ? data.whatToDo : fallback.whatToDo,
+    nextSteps,
+    confidence:
+      typeof data.confidence === 'number' ? clamp(data.confidence, 0, 1) : fallback.confidence,
+    firedRuleIds: Array.isArray(data.firedRuleIds)
+      ? data.firedRuleIds.filter((id): id is string => typeof id === 'string' && id.trim().length > 0)
+      : fallback.firedRuleIds,
+    evidence: toEvidence(data.evidence),
+    scriptStage: isScamScriptStage(data.scriptStage) ? data.scriptStage : fallback.scriptStage,
+    scriptStages: Array.isArray(data.scriptStages)
+      ? data.scriptStages.filter(isScamScriptStage)
+      : fallback.scriptStages,
+    disclosures: Array.isArray(data.disclosures) ? data.disclosures.filter(isDisclosureKind) : fallback.disclosures,
+    updatedAt:
+      typeof data.updatedAt === 'number' && Number.isFinite(data.updatedAt)
+        ? Math.round(data.updatedAt)
+        : Date.now(),
+  }
+}
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+    : []
+}
+
+function toPostCallSummary(payload: unknown): PostCallSummary | null {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return null
+  }
+
+  const data = payload as Record<string, unknown>
+  const verdict: CallVerdict | null =
+    data.verdict === 'likely-scam' || data.verdict === 'suspicious' || data.verdict === 'no-scam-detected'
+      ? data.verdict
+      : null
+
+  if (!verdict || typeof data.verdictReason !== 'string') {
+    return null
+  }
+
+  return {
+    source: data.source === 'model' ? 'model' : 'heuristic',
+    claimedIdentity: typeof data.claimedIdentity === 'string' && data.claimedIdentity.trim() ? data.claimedIdentity : null,
+    requests: toStringList(data.requests),
+    disclosures: toStringList(data.disclosures),
+    verdict,
+    verdictReason: data.verdictReason,
+    recoverySteps: toStringList(data.recoverySteps),
+    generatedAt:
+      typeof data.generatedAt === 'number' && Number.isFinite(data.generatedAt)
+        ? Math.round(data.generatedAt)
+        : Date.now(),
+  }
+}
+
+function toCallEscalation(row: LiveCallRow): CallEscalation | null {
+  if (!isEscalationStatus(row.escalation_status)) {
+    return null
+  }
+
+  const startedAt = row.escalated_at ? Date.parse(row.escalated_at) : Number.NaN
+
+  return {
+    status: row.escalation_status,
+    contactId: row.escalation_contact_id,
+    contactCallSid: row.escalation_call_sid,
+    error: row.escalation_error,
+    startedAt: Number.isFinite(startedAt) ? startedAt : Date.now(),
+  }
+}
+
+async function markLiveCallEnded(callSid: string, endedAt: string) {
+  const supabase = createAdminClient()
+  const { error } = await supabase
+    .from('live_calls')
+    .update({ ended_at: endedAt })
+    .eq('call_sid', callSid)
+    .is('ended_at', null)
+
+  if (error) {
+    throw new Error(`Failed to mark live call ended: ${error.message}`)
+  }
+}
+
+async function upsertLiveCallSession(params: UpsertLiveCallSessionParams) {
+  const supabase = createAdminClient()
+  const now = new Date().toISOString()
+
+  const payload: Record<string, unknown> = {
+    call_sid: params.callSid,
+    slug: params.slug,
+    assistant_muted: true,
+    updated_at: now,
+  }
+
+  if (params.status) {
+    payload.status = normalizeSessionStatus(params.status)
+  }
+
+  const { error } = await supabase
+    .from('live_calls')
+    .upsert(payload, { onConflict: 'call_sid' })
+
+  if (error) {
+    throw new Error(`Failed to upsert live call session: ${error.message}`)
+  }
+}
+
+async function setLiveCallStatus(callSid: string, status: string, lastError?: string | null) {
+  const supabase = createAdminClient()
+  const normalizedStatus = normalizeSessionStatus(status)
+  const nowIso = new Date().toISOString()
+  const updates: Record<string, unknown> = {
+    status: normalizedStatus,
+    updated_at: nowIso,
+  }
+
+  if (lastError !== undefined) {
+    updates.last_error = lastError
+  }
+
+  const { error } = await supabase.from('live_calls').update(updates).eq('call_sid', callSid)
+  if (error) {
+    throw new Error(`Failed to update live call status: ${error.message}`)
+  }
+
+  if (isTerminalStatus(normalizedStatus)) {
+    await markLiveCallEnded(callSid, nowIso)
+  }
+}
+
+async function setLiveCallAnalyzing(callSid: string, analyzing: boolean) {
+  const supabase = createAdminClient()
+  const { error } = await supabase
+    .from('live_calls')
+    .update({
+      analyzing,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('call_sid', callSid)
+
+  if (error) {
+    throw new Error(`Failed to update analyzing state: ${error.message}`)
+  }
+}
+
+async function setLiveCallAdvice(
+  callSid: string,
+  advice: CoachingAdvice,
+  options: SetLiveCallAdviceOptions = {},
+) {
+  const supabase = createAdminClient()
+  const nowIso = new Date().toISOString()
+  const { lastError = null, analyzing = false, evidenceLedger, source = 'heuristic', rawRiskScore = null } = options
+
+  const { error } = await supabase
+    .from('live_calls')
+    .update({
+      advice,
+      last_error: lastError,
+      analyzing,
+      last_advice_at: nowIso,
+      updated_at: nowIso,
+      ...(evidenceLedger ? { evidence_ledger: evidenceLedger } : {}),
+      ...(advice.scamType !== 'unknown' ? { scam_type: advice.scamType } : {}),
+    })
+    .eq('call_sid', callSid)
+
+  if (error) {
+    throw new Error(`Failed to store live advice: ${error.message}`)
+  }
+
+  // Conditional update so concurrent writers can only ever raise the peak.
+  const { error: peakError } = await supabase
+    .from('live_calls')
+    .update({ peak_risk_score: advice.riskScore, peak_risk_level: getRiskLevel(advice.riskScore) })
+    .eq('call_sid', callSid)
+    .lt('peak_risk_score', advice.riskScore)
+
+  if (peakError) {
+    throw new Error(`Failed to update peak risk: ${peakError.message}`)
+  }
+
+  const { error: eventError } = await supabase.from('live_call_advice_events').insert({
+    call_sid: callSid,
+    source,
+    raw_risk_score: rawRiskScore === null ? null : clamp(Math.round(rawRiskScore), 0, 100),
+    risk_score: advice.riskScore,
+    risk_level: advice.riskLevel,
+    confidence: advice.confidence,
+    error: lastError,
+    advice,
+    created_at: nowIso,
+  })
+
+  if (eventError) {
+    throw new Error(`Failed to record advice event: ${eventError.message}`)
+  }
+}
+
+async function setLiveCallError(callSid: string, message: string) {
+  const supabase = createAdminClient()
+  const nowIso = new Date().toISOString()
+  const { error } = await supabase
+    .from('live_calls')
+    .update({
+      status: 'failed',
+      last_error: message,
+      analyzing: false,
+      updated_at: nowIso,
+    })
+    .eq('call_sid', callSid)
+
+  if (error) {
+    throw new Error(`Failed to store live call error: ${error.message}`)
+  }
+
+  await markLiveCallEnded(callSid, nowIso)
+}
+
+async function setPostCallSummary(callSid: string, summary: PostCallSummary) {
+  const supabase = createAdminClient()
+  const { error } = await supabase
+    .from('live_calls')
+    .update({
+      post_call_summary: summary,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('call_sid', callSid)
+
+  if (error) {
+    throw new Error(`Failed to store post-call summary: ${error.message}`)
+  }
+}
+
+async function startLiveCallEscalation(callSid: string, contactId: string): Promise<boolean> {
+  const supabase = createAdminClient()
+  const nowIso = new Date().toISOString()
+
+  // Conditional update so two taps (or two devices) cannot dial twice.
+  const { data, error } = await supabase
+    .from('live_calls')
+    .update({
+      escalation_status: 'dialing',
+      escalation_contact_id: contactId,
+      escalation_call_sid: null,
+      escalation_error: null,
+      escalated_at: nowIso,
+      updated_at: nowIso,
+    })
+    .eq('call_sid', callSid)
+    .not('status', 'in', '(ended,failed)')
+    .or('escalation_status.is.null,escalation_status.in.(ended,failed)')
+    .select('call_sid')
+
+  if (error) {
+    throw new Error(`Failed to start call escalation: ${error.message}`)
+  }
+
+  return (data?.length ?? 0) > 0
+}
+
+async function setLiveCallEscalationLeg(callSid: string, contactCallSid: string) {
+  const supabase = createAdminClient()
+  const { error } = await supabase
+    .from('live_calls')
+    .update({
+      escalation_call_sid: contactCallSid,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('call_sid', callSid)
+    .not('escalation_status', 'is', null)
+
+  if (error) {
+    throw new Error(`Failed to store escalation leg: ${error.message}`)
+  }
+}
+
+async function setLiveCallEscalationStatus(
+  callSid: string,
+  status: EscalationStatus,
+  options: SetLiveCallEscalationStatusOptions = {},
+) {
+  const supabase = createAdminClient()
+  const updates: Record<string, unknown> = {
+    escalation_status: status,
+    updated_at: new Date().toISOString(),
+  }
+
+  if (options.error !== undefined) {
+    updates.escalation_error = options.error
+  }
+
+  if (options.contactCallSid) {
+    updates.escalation_call_sid = options.contactCallSid
+  }
+
+  let query = supabase
+    .from('live_calls')
+    .update(updates)
+    .eq('call_sid', callSid)
+    .not('escalation_status', 'is', null)
+
+  if (options.contactCallSid) {
+    query = query.or(`escalation_call_sid.is.null,escalation_call_sid.eq.${options.contactCallSid}`)
+  }
+
+  const { error } = await query
+
+  if (error) {
+    throw new Error(`Failed to update escalation status: ${error.message}`)
+  }
+}
+
+async function recordDisclosures(callSid: string, events: DisclosureEvent[]) {
+  if (events.length === 0) return
+
+  const supabase = createAdminClient()
+  const { error } = await supabase.from('live_call_disclosures').upsert(
+    events.map((event) => ({
+      call_sid: callSid,
+      kind: event.kind,
+      chunk_id: event.chunkId,
+      detected_at: new Date(event.detectedAt).toISOString(),
+    })),
+    { onConflict: 'call_sid,kind', ignoreDuplicates: true },
+  )
+
+  if (error) {
+    throw new Error(`Failed to record disclosures: ${error.message}`)
+  }
+}
+
+async function appendTranscriptChunk(params: AppendTranscriptChunkParams) {
+  const content = normalizeTranscriptText(params.text)
+  if (!content) return
+
+  const supabase = createAdminClient()
+  const { data: existingRow, error: existingError } = await supabase
+    .from('live_transcript_chunks')
+    .select('speaker, text, timestamp_ms, is_final')
+    .eq('call_sid', params.callSid)
+    .eq('source_event_id', params.sourceEventId)
+    .maybeSingle()
+
+  if (existingError) {
+    throw new Error(`Failed to load existing transcript chunk: ${existingError.message}`)
+  }
+
+  const existing = (existingRow as TranscriptChunkUpdateRow | null) ?? null
+  const mergedText =
+    existing && typeof existing.text === 'string'
+      ? mergeIncrementalTranscriptText(existing.text, content, {
+          isFinal: params.isFinal,
+        })
+      : content
+  const existingSpeaker =
+    existing && typeof existing.speaker === 'string'
+      ? normalizeStoredSpeaker(toSpeaker(existing.speaker))
+      : 'unknown'
+  const mergedSpeaker =
+    normalizeStoredSpeaker(params.speaker) === 'unknown' ? existingSpeaker : normalizeStoredSpeaker(params.speaker)
+  const mergedIsFinal = Boolean(params.isFinal || existing?.is_final)
+  const mergedTimestamp = Math.max(
+    parseTimestampMs(existing?.timestamp_ms ?? 0),
+    parseTimestampMs(params.timestamp),
+  )
+
+  const payload = {
+    call_sid: params.callSid,
+    source_event_id: params.sourceEventId,
+    speaker: mergedSpeaker,
+    text: mergedText,
+    is_final: mergedIsFinal,
+    timestamp_ms: mergedTimestamp,
+  }
+
+  const { error } = await supabase
+    .from('live_transcript_chunks')
+    .upsert(payload, { onConflict: 'call_sid,source_event_id' })
+
+  if (error) {
+    throw new Error(`Failed to append transcript chunk: ${error.message}`)
+  }
+}
+
+async function getTranscriptChunks(callSid: string, limit: number): Promise<TranscriptChunk[]> {
+  const supabase = createAdminClient()
+  const { data, error } = await supabase
+    .from('live_transcript_chunks')
+    .select('id, speaker, text, timestamp_ms, is_final')
+    .eq('call_sid', callSid)
+    .order('id', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to load transcript chunks: ${error.message}`)
+  }
+
+  const rows = (data ?? []) as TranscriptRow[]
+
+  return rows
+    .slice()
+    .reverse()
+    .map((row) => ({
+      id: String(row.id),
+      speaker: toSpeaker(row.speaker),
+      text: row.text,
+      timestamp: parseTimestampMs(row.timestamp_ms),
+      isFinal: Boolean(row.is_final),
+    }))
+}
+
+async function getLiveCallSummary(callSid: string): Promise<LiveCallSummary | null> {
+  const supabase = createAdminClient()
+  const { data, error } = await supabase
+    .from('live_calls')
+    .select(
+      'call_sid, slug, status, last_advice_at, advice, evidence_ledger, peak_risk_score, post_call_summary, escalation_status',
+    )
+    .eq('call_sid', callSid)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load live call summary: ${error.message}`)
+  }
+
+  if (!data) return null
+
+  return {
+    callSid: String(data.call_sid),
+    slug: String(data.slug),
+    status: String(data.status),
+    lastAdviceAt: data.last_advice_at ? Date.parse(String(data.last_advice_at)) : null,
+    advice: toAdvice(data.advice),
+    evidenceLedger: toEvidenceLedger(data.evidence_ledger),
+    peakRiskScore: typeof data.peak_risk_score === 'number' ? data.peak_risk_score : 0,
+    postCallSummary: toPostCallSummary(data.post_call_summary),
+    escalationStatus: isEscalationStatus(data.escalation_status) ? data.escalation_status : null,
+  }
+}
+
+async function getLiveSessionSnapshot(
+  callSid: string,
+  slug: string,
+  transcriptLimit = 25,
+): Promise<LiveSessionSnapshot | null> {
+  const supabase = createAdminClient()
+  const { data, error } = await supabase
+    .from('live_calls')
+    .select(
+      'call_sid, slug, status, assistant_muted, analyzing, last_error, advice, post_call_summary, updated_at, last_advice_at, escalation_status, escalation_contact_id, escalation_call_sid, escalation_error, escalated_at',
+    )
+    .eq('call_sid', callSid)
+    .eq('slug', slug)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load live session: ${error.message}`)
+  }
+
+  if (!data) {
+    return null
+  }
+
+  const row = data as LiveCallRow
+  const transcript = await getTranscriptChunks(callSid, transcriptLimit)
+
+  const updatedAt = Date.parse(row.updated_at)
+
+  return {
+    callId: row.call_sid,
+    slug: row.slug,
+    status: normalizeSessionStatus(row.status),
+    assistantMuted: row.assistant_muted,
+    analyzing: row.analyzing,
+    lastError: row.last_error,
+    updatedAt: Number.isFinite(updatedAt) ? updatedAt : Date.now(),
+    lastAdviceAt: row.last_advice_at ? Date.parse(row.last_advice_at) : null,
+    version: 1,
+    advice: toAdvice(row.advice),
+    transcript,
+    summary: toPostCallSummary(row.post_call_summary),
+    escalation: toCallEscalation(row),
+  }
+}
+
+async function getAdviceTimeline(
+  callSid: string,
+  slug: string,
+  limit = 500,
+): Promise<AdviceTimelineEvent[] | null> {
+  const supabase = createAdminClient()
+  const { data: call, error: callError } = await supabase
+    .from('live_calls')
+    .select('call_sid')
+    .eq('call_sid', callSid)
+    .eq('slug', slug)
+    .maybeSingle()
+
+  if (callError) {
+    throw new Error(`Failed to load live call: ${callError.message}`)
+  }
+
+  if (!call) {
+    return null
+  }
+
+  const { data, error } = await supabase
+    .from('live_call_advice_events')
+    .select('id, source, raw_risk_score, risk_score, confidence, error, advice, created_at')
+    .eq('call_sid', callSid)
+    .order('id', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to load advice timeline: ${error.message}`)
+  }
+
+  const rows = (data ?? []) as AdviceEventRow[]
+
+  return rows
+    .slice()
+    .reverse()
+    .map((row) => {
+      const advice = toAdvice(row.advice)
+      const createdAt = Date.parse(row.created_at)
+
+      return {
+        id: String(row.id),
+        source: row.source === 'model' ? 'model' : 'heuristic',
+        rawRiskScore: typeof row.raw_risk_score === 'number' ? row.raw_risk_score : null,
+        riskScore: clamp(Math.round(row.risk_score), 0, 100),
+        riskLevel: advice.riskLevel,
+        confidence: clamp(row.confidence, 0, 1),
+        scamType: advice.scamType,
+        scriptStage: advice.scriptStage,
+        firedRuleIds: advice.firedRuleIds,
+        error: row.error,
+        createdAt: Number.isFinite(createdAt) ? createdAt : advice.updatedAt,
+      }
+    })
+}
+
+function toCaseHistoryEntry(row: CaseHistoryRow): CaseHistoryEntry {
+  const startedAt = Date.parse(row.created_at)
+  const endedAt = row.ended_at ? Date.parse(row.ended_at) : null
+  const peakRiskScore = clamp(Math.round(row.peak_risk_score), 0, 100)
+
+  return {
+    callId: row.call_sid,
+    status: normalizeSessionStatus(row.status),
+    startedAt,
+    endedAt,
+    durationMs: endedAt !== null ? Math.max(0, endedAt - startedAt) : null,
+    peakRiskScore,
+    peakRiskLevel: getRiskLevel(peakRiskScore),
+    scamType: toScamType(row.scam_type),
+  }
+}
+
+async function listLiveCalls(params: ListLiveCallsParams): Promise<LiveCallPage> {
+  const supabase = createAdminClient()
+  const offset = (params.page - 1) * params.pageSize
+  let query = supabase
+    .from('live_calls')
+    .select('call_sid, status, peak_risk_score, scam_type, created_at, ended_at', {
+      count: 'exact',
+    })
+    .eq('slug', params.slug)
+
+  if (params.riskLevel) {
+    query = query.eq('peak_risk_level', params.riskLevel)
+  }
+
+  if (params.from != null) {
+    query = query.gte('created_at', new Date(params.from).toISOString())
+  }
+
+  if (params.to != null) {
+    query = query.lte('created_at', new Date(params.to).toISOString())
+  }
+
+  if (params.openOnly) {
+    query = query.is('ended_at', null)
+  }
+
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .range(offset, offset + params.pageSize - 1)
+
+  if (error) {
+    throw new Error(`Failed to list live calls: ${error.message}`)
+  }
+
+  return {
+    cases: ((data ?? []) as CaseHistoryRow[]).map(toCaseHistoryEntry),
+    total: count ?? 0,
+  }
+}
+
+// The purge runs as one database function so the data change, the purged
+// marker and the audit row commit together; see scripts/011_transcript_retention.sql.
+async function purgeExpiredCallData(params: PurgeExpiredCallDataParams): Promise<PurgeExpiredCallDataResult> {
+  const supabase = createAdminClient()
+  const { data, error } = await supabase.rpc('purge_expired_call_data', {
+    p_slug: params.slug,
+    p_cutoff: new Date(params.before).toISOString(),
+    p_action: params.action,
+    p_limit: params.limit,
+  })
+
+  if (error) {
+    throw new Error(`Failed to purge expired call data: ${error.message}`)
+  }
+
+  const row = (Array.isArray(data) ? data[0] : data) as PurgeResultRow | null | undefined
+
+  return {
+    callsPurged: row?.calls_purged ?? 0,
+    transcriptChunks: row?.transcript_chunks ?? 0,
+    adviceEvents: row?.advice_events ?? 0,
+  }
+}
+
+export function createSupabaseLiveCallRepository(): LiveCallRepository {
+  return {
+    upsertLiveCallSession,
+    setLiveCallStatus,
+    setLiveCallAnalyzing,
+    setLiveCallAdvice,
+    setLiveCallError,
+    setPostCallSummary,
+    startLiveCallEscalation,
+    setLiveCallEscalationLeg,
+    setLiveCallEscalationStatus,
+    recordDisclosures,
+    appendTranscriptChunk,
+    getTranscriptChunks,
+    getLiveCallSummary,
+    getLiveSessionSnapshot,
+    getAdviceTimeline,
+    listLiveCalls,
+    purgeExpiredCallData,
+  }
+}
@@ -1,4 +1,5 @@
 import { createBrowserClient } from '@supabase/ssr'
+import { createClient as createSupabaseClient } from '@supabase/supabase-js'
 
 export function createClient() {
   return createBrowserClient(
@@ -6,3 +7,18 @@ export function createClient() {
     process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
   )
 }
+
+/**
+ * Browser client that reads as one call's viewer token instead of the anon
+ * key, so Realtime only delivers rows the token's `call_sid` claim allows.
+ * Create one per call and drop it when the call is left.
+ */
+export function createCallViewerClient(viewerToken: string) {
+  return createSupabaseClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      accessToken: async () => viewerToken,
+    },
+  )
+}
@@ -0,0 +1,279 @@
+import { createHash, randomBytes } from 'node:crypto'
+import { cookies } from 'next/headers'
+import { notFound, redirect } from 'next/navigation'
+import { BRAND_NAME } from '@/lib/brand'
+import type { MessageChannel } from '@/lib/message-sender'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { createClient } from '@/lib/supabase/server'
+import { TenantViewer, getViewerBySession, getViewerCookieName } from '@/lib/tenant-viewers'
+import {
+  VERIFICATION_CODE_TTL_MS,
+  VerificationCodeCheck,
+  VerificationCodePurpose,
+  consumeVerificationCode,
+  createVerificationCode,
+  spellOutCode,
+} from '@/lib/verification-codes'
+
+/** Set by /start on the browser that created the tenant, to send it back there. */
+export const TENANT_COOKIE = 'tenant_slug'
+/**
+ * Also set by /start: the secret that lets that browser save the first
+ * number. The slug is guessable, so it is not proof on its own.
+ */
+export const TENANT_SETUP_COOKIE = 'tenant_setup'
+
+// Tenant accounts sign in with a code sent to their saved number; the email
+// only exists because Supabase Auth sessions are minted through magic links.
+const TENANT_AUTH_EMAIL_DOMAIN = 'tenants.invalid'
+
+export type TenantAccount = {
+  slug: string
+  name: string
+  phoneNumber: string | null
+  // Null until a code sent to `phoneNumber` has been entered.
+  phoneVerifiedAt: number | null
+  ownerUserId: string | null
+}
+
+/**
+ * - `owner`: signed in as the tenant's owner
+ * - `viewer`: a caregiver the owner invited; may watch calls, nothing else
+ * - `setup`: nobody owns the tenant or has saved a number yet, and this is
+ *   the browser that created it, so it may save the first number
+ * - `sign-in-required`: a code has to be sent to the saved number first
+ * - `not-found`: no such tenant, or no way to prove ownership of it
+ */
+export type TenantAccessStatus = 'owner' | 'viewer' | 'setup' | 'sign-in-required' | 'not-found'
+
+export type TenantAccess = {
+  status: TenantAccessStatus
+  tenant: TenantAccount | null
+  // Set only when `status` is `viewer`.
+  viewer?: TenantViewer
+}
+
+type TenantAccountRow = {
+  slug: string
+  name: string
+  phone_number: string | null
+  phone_verified_at: string | null
+  owner_user_id: string | null
+}
+
+export async function getTenantAccount(slug: string): Promise<TenantAccount | null> {
+  const supabase = createAdminClient()
+  const { data, error } = await supabase
+    .from('tenants')
+    .select('slug, name, phone_number, phone_verified_at, owner_user_id')
+    .eq('slug', slug)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load tenant: ${error.message}`)
+  }
+
+  if (!data) return null
+
+  const row = data as TenantAccountRow
+  return {
+    slug: row.slug,
+    name: row.name,
+    phoneNumber: row.phone_number,
+    phoneVerifiedAt: row.phone_verified_at ? Date.parse(row.phone_verified_at) : null,
+    ownerUserId: row.owner_user_id,
+  }
+}
+
+function hashSetupToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/** A new setup token for /start; only the hash is stored on the tenant. */
+export function createTenantSetupToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString('base64url')
+  return { token, tokenHash: hashSetupToken(token) }
+}
+
+async function isTenantSetupToken(slug: string, token: string): Promise<boolean> {
+  const supabase = createAdminClient()
+  const { data, error } = await supabase
+    .from('tenants')
+    .select('slug')
+    .eq('slug', slug)
+    .eq('setup_token_hash', hashSetupToken(token))
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to check setup token: ${error.message}`)
+  }
+
+  return Boolean(data)
+}
+
+/** Who the current request is to this tenant; see `TenantAccessStatus`. */
+export async function getTenantAccess(slug: string): Promise<TenantAccess> {
+  const tenant = await getTenantAccount(slug)
+  if (!tenant) return { status: 'not-found', tenant: null }
+
+  if (tenant.ownerUserId) {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (user?.id === tenant.ownerUserId) return { status: 'owner', tenant }
+
+    const cookieStore = await cookies()
+    const viewerSession = cookieStore.get(getViewerCookieName(slug))?.value
+    const viewer = viewerSession ? await getViewerBySession(slug, viewerSession) : null
+
+    return viewer ? { status: 'viewer', tenant, viewer } : { status: 'sign-in-required', tenant }
+  }
+
+  if (tenant.phoneNumber) {
+    return { status: 'sign-in-required', tenant }
+  }
+
+  const cookieStore = await cookies()
+  const setupToken = cookieStore.get(TENANT_SETUP_COOKIE)?.value
+  const isCreator = setupToken ? await isTenantSetupToken(slug, setupToken) : false
+
+  return { status: isCreator ? 'setup' : 'not-found', tenant }
+}
+
+/**
+ * For `/t/[slug]` pages only the owner may see. Everyone else is sent to
+ * setup or sign-in, whichever gets them in.
+ */
+export async function requireTenantOwner(slug: string): Promise<TenantAccount> {
+  const access = await getTenantAccess(slug)
+
+  if (access.status === 'not-found' || !access.tenant) notFound()
+  if (access.status === 'setup') redirect(`/t/${slug}/setup`)
+  if (access.status === 'sign-in-required') redirect(`/t/${slug}/sign-in`)
+  if (access.status === 'viewer') redirect(`/t/${slug}/watch`)
+
+  return access.tenant
+}
+
+/** What a code message says; `purpose` says what the code unlocks. */
+export function formatVerificationCodeMessage(
+  code: string,
+  purpose: VerificationCodePurpose,
+  channel: MessageChannel,
+): string {
+  const label = purpose === 'sign-in' ? 'sign-in code' : 'code to confirm this number'
+  const warning = 'Never read it out to anyone who calls you.'
+
+  if (channel === 'voice') {
+    return `Your ${BRAND_NAME} ${label} is ${spellOutCode(code)}. Again, ${spellOutCode(code)}. ${warning}`
+  }
+
+  return `Your ${BRAND_NAME} ${label} is ${code}. It expires in ${VERIFICATION_CODE_TTL_MS / 60_000} minutes. ${warning}`
+}
+
+/** Send a sign-in code to the tenant's saved number. */
+export async function createSignInCode(tenant: TenantAccount): Promise<string> {
+  if (!tenant.phoneNumber) {
+    throw new Error('Failed to create sign-in code: tenant has no phone number.')
+  }
+
+  return createVerificationCode({ purpose: 'sign-in', slug: tenant.slug, phoneNumber: tenant.phoneNumber })
+}
+
+/** A code sent to a number the tenant has since replaced no longer works. */
+export async function consumeSignInCode(tenant: TenantAccount, code: string): Promise<VerificationCodeCheck> {
+  const result = await consumeVerificationCode({ purpose: 'sign-in', slug: tenant.slug, code })
+  if (result.check === 'ok' && result.phoneNumber !== tenant.phoneNumber) return 'expired'
+  return result.check
+}
+
+/**
+ * Save a number the tenant has just proved they can receive codes on. A
+ * sign-in code to a number saved before verification existed counts too.
+ */
+export async function saveVerifiedPhoneNumber(slug: string, phoneNumber: string): Promise<void> {
+  const supabase = createAdminClient()
+  const now = new Date().toISOString()
+  const { error } = await supabase
+    .from('tenants')
+    .update({ phone_number: phoneNumber, phone_verified_at: now, updated_at: now })
+    .eq('slug', slug)
+
+  if (error) {
+    throw new Error(`Failed to save phone number: ${error.message}`)
+  }
+}
+
+function getTenantAuthEmail(slug: string): string {
+  return `${slug}@${TENANT_AUTH_EMAIL_DOMAIN}`
+}
+
+async function ensureTenantOwner(tenant: TenantAccount): Promise<string> {
+  const supabase = createAdminClient()
+
+  if (tenant.ownerUserId) {
+    const { data, error } = await supabase.auth.admin.getUserById(tenant.ownerUserId)
+    if (error || !data.user?.email) {
+      throw new Error(`Failed to load tenant owner: ${error?.message ?? 'user has no email'}`)
+    }
+
+    return data.user.email
+  }
+
+  const email = getTenantAuthEmail(tenant.slug)
+  const { data, error } = await supabase.auth.admin.createUser({
+    email,
+    email_confirm: true,
+    user_metadata: { tenant_slug: tenant.slug },
+  })
+
+  if (error || !data.user) {
+    throw new Error(`Failed to create tenant owner: ${error?.message ?? 'no user returned'}`)
+  }
+
+  // Two verified codes racing for an unowned tenant: only the first claim sticks.
+  const { data: claimed, error: claimError } = await supabase
+    .from('tenants')
+    .update({ owner_user_id: data.user.id, setup_token_hash: null, updated_at: new Date().toISOString() })
+    .eq('slug', tenant.slug)
+    .is('owner_user_id', null)
+    .select('slug')
+
+  if (claimError || !claimed?.length) {
+    await supabase.auth.admin.deleteUser(data.user.id)
+    throw new Error(`Failed to claim tenant: ${claimError?.message ?? 'already owned'}`)
+  }
+
+  return email
+}
+
+/**
+ * Sign the current request in as the tenant's owner, creating the owner on
+ * first sign-in. The session cookies are written through the server client.
+ */
+export async function startTenantSession(tenant: TenantAccount): Promise<void> {
+  const email = await ensureTenantOwner(tenant)
+  const admin = createAdminClient()
+  const { data, error } = await admin.auth.admin.generateLink({ type: 'magiclink', email })
+
+  if (error || !data.properties?.hashed_token) {
+    throw new Error(`Failed to create tenant session: ${error?.message ?? 'no token returned'}`)
+  }
+
+  const supabase = await createClient()
+  const { error: verifyError } = await supabase.auth.verifyOtp({
+    type: 'magiclink',
+    token_hash: data.properties.hashed_token,
+  })
+
+  if (verifyError) {
+    throw new Error(`Failed to create tenant session: ${verifyError.message}`)
+  }
+}
+
+export async function endTenantSession(): Promise<void> {
+  const supabase = await createClient()
+  await supabase.auth.signOut()
+}
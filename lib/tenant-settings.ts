@@ -0,0 +1,164 @@
+import { DEFAULT_REDACTION_MODE, RedactionMode, isRedactionMode } from '@/lib/redaction'
+import {
+  DEFAULT_TRANSCRIPT_RETENTION_DAYS,
+  TenantRetentionPolicy,
+  TranscriptPurgeAction,
+  isTranscriptPurgeAction,
+} from '@/lib/retention'
+import { createAdminClient } from '@/lib/supabase/admin'
+
+const SETTINGS_CACHE_TTL_MS = 60_000
+
+type CachedSetting<T> = {
+  value: T
+  expiresAt: number
+}
+
+type SettingCaches = {
+  redactionMode: Map<string, CachedSetting<RedactionMode>>
+  whisperCoaching: Map<string, CachedSetting<boolean>>
+}
+
+function getSettingCaches(): SettingCaches {
+  const globalCache = globalThis as typeof globalThis & {
+    __tenantSettingCaches?: SettingCaches
+  }
+
+  if (!globalCache.__tenantSettingCaches) {
+    globalCache.__tenantSettingCaches = { redactionMode: new Map(), whisperCoaching: new Map() }
+  }
+
+  return globalCache.__tenantSettingCaches
+}
+
+// Each setting has its own query, so a column missing from an older database
+// only costs that one setting its default.
+async function readCachedSetting<T>(
+  cache: Map<string, CachedSetting<T>>,
+  slug: string,
+  fallback: T,
+  read: () => Promise<T | null>,
+): Promise<T> {
+  const now = Date.now()
+  const cached = cache.get(slug)
+
+  if (cached && cached.expiresAt > now) {
+    return cached.value
+  }
+
+  let value = fallback
+
+  try {
+    value = (await read()) ?? fallback
+  } catch {
+    // Keep the default.
+  }
+
+  cache.set(slug, { value, expiresAt: now + SETTINGS_CACHE_TTL_MS })
+  return value
+}
+
+/**
+ * Read on every transcript event, so the value is cached briefly per slug.
+ * A failed or missing lookup falls back to the default rather than sending
+ * unredacted text anywhere.
+ */
+export async function getTenantRedactionMode(slug: string): Promise<RedactionMode> {
+  return readCachedSetting(getSettingCaches().redactionMode, slug, DEFAULT_REDACTION_MODE, async () => {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase.from('tenants').select('redaction_mode').eq('slug', slug).maybeSingle()
+
+    return !error && isRedactionMode(data?.redaction_mode) ? data.redaction_mode : null
+  })
+}
+
+/**
+ * Whether the tenant opted in to hearing urgent advice spoken on the monitor
+ * call. Off when the lookup fails, including before migration 018 has run.
+ */
+export async function getTenantWhisperCoaching(slug: string): Promise<boolean> {
+  return readCachedSetting(getSettingCaches().whisperCoaching, slug, false, async () => {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase.from('tenants').select('whisper_coaching').eq('slug', slug).maybeSingle()
+
+    return !error && data ? data.whisper_coaching === true : null
+  })
+}
+
+/** What an owner can change from the tenant page; omitted fields stay as they are. */
+export type TenantSettingsUpdate = {
+  whisperCoaching?: boolean
+  redactionMode?: RedactionMode
+  transcriptRetentionDays?: number
+  purgeAction?: TranscriptPurgeAction
+}
+
+/** Saves owner settings; they take effect on this instance straight away. */
+export async function updateTenantSettings(slug: string, update: TenantSettingsUpdate): Promise<void> {
+  const row: Record<string, unknown> = {}
+  if (update.whisperCoaching !== undefined) row.whisper_coaching = update.whisperCoaching
+  if (update.redactionMode !== undefined) row.redaction_mode = update.redactionMode
+  if (update.transcriptRetentionDays !== undefined) row.transcript_retention_days = update.transcriptRetentionDays
+  if (update.purgeAction !== undefined) row.transcript_purge_action = update.purgeAction
+
+  const supabase = createAdminClient()
+  const { error } = await supabase.from('tenants').update(row).eq('slug', slug)
+
+  if (error) {
+    throw new Error(`Failed to save tenant settings: ${error.message}`)
+  }
+
+  const caches = getSettingCaches()
+  caches.whisperCoaching.delete(slug)
+  caches.redactionMode.delete(slug)
+}
+
+type TenantRetentionRow = {
+  slug: string
+  transcript_retention_days: number | null
+  transcript_purge_action: string | null
+}
+
+function toTenantRetentionPolicy(row: TenantRetentionRow): TenantRetentionPolicy {
+  return {
+    slug: row.slug,
+    transcriptRetentionDays:
+      typeof row.transcript_retention_days === 'number' && row.transcript_retention_days > 0
+        ? row.transcript_retention_days
+        : DEFAULT_TRANSCRIPT_RETENTION_DAYS,
+    purgeAction: isTranscriptPurgeAction(row.transcript_purge_action) ? row.transcript_purge_action : 'delete',
+  }
+}
+
+/** Every tenant's retention policy, for the retention cron job. */
+export async function listTenantRetentionPolicies(): Promise<TenantRetentionPolicy[]> {
+  const supabase = createAdminClient()
+  const { data, error } = await supabase
+    .from('tenants')
+    .select('slug, transcript_retention_days, transcript_purge_action')
+    .order('slug', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load tenant retention settings: ${error.message}`)
+  }
+
+  return ((data ?? []) as TenantRetentionRow[]).map(toTenantRetentionPolicy)
+}
+
+/** One tenant's retention policy, for its settings; defaults when the lookup fails. */
+export async function getTenantRetentionPolicy(slug: string): Promise<TenantRetentionPolicy> {
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('tenants')
+      .select('slug, transcript_retention_days, transcript_purge_action')
+      .eq('slug', slug)
+      .maybeSingle()
+
+    if (!error && data) return toTenantRetentionPolicy(data as TenantRetentionRow)
+  } catch {
+    // Fall through to the defaults.
+  }
+
+  return { slug, transcriptRetentionDays: DEFAULT_TRANSCRIPT_RETENTION_DAYS, purgeAction: 'delete' }
+}
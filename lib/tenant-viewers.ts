@@ -0,0 +1,170 @@
+import { createHash, randomBytes } from 'node:crypto'
+import { BRAND_NAME } from '@/lib/brand'
+import type { ContactNotification } from '@/lib/notifier'
+import { createAdminClient } from '@/lib/supabase/admin'
+import type { TrustedContact } from '@/lib/trusted-contacts'
+
+/**
+ * A caregiver: a trusted contact who accepted an invite to watch the
+ * tenant's calls live. Viewers can read live calls and ring the protected
+ * phone, nothing else.
+ */
+export type TenantViewer = {
+  id: string
+  slug: string
+  contactId: string
+  name: string
+  phoneNumber: string | null
+  invitedAt: number
+  // Null while the invite link has not been opened yet.
+  acceptedAt: number | null
+}
+
+export const VIEWER_INVITE_TTL_MS = 7 * 24 * 60 * 60_000
+export const VIEWER_SESSION_MAX_AGE_SECONDS = 90 * 24 * 60 * 60
+
+const VIEWER_COLUMNS = 'id, slug, contact_id, invited_at, accepted_at, trusted_contacts (name, phone_number)'
+
+type TenantViewerRow = {
+  id: string
+  slug: string
+  contact_id: string
+  invited_at: string
+  accepted_at: string | null
+  trusted_contacts: { name: string; phone_number: string | null } | null
+}
+
+/** Per tenant, so one browser can watch more than one person. */
+export function getViewerCookieName(slug: string): string {
+  return `tenant_viewer_${slug}`
+}
+
+function hashViewerToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function createViewerToken(): string {
+  return randomBytes(32).toString('base64url')
+}
+
+function toTenantViewer(row: TenantViewerRow): TenantViewer {
+  return {
+    id: row.id,
+    slug: row.slug,
+    contactId: row.contact_id,
+    name: row.trusted_contacts?.name ?? 'Caregiver',
+    phoneNumber: row.trusted_contacts?.phone_number ?? null,
+    invitedAt: Date.parse(row.invited_at),
+    acceptedAt: row.accepted_at ? Date.parse(row.accepted_at) : null,
+  }
+}
+
+export function formatViewerInviteMessage(inviteUrl: string): ContactNotification {
+  return {
+    subject: `${BRAND_NAME}: you are invited to watch calls`,
+    text: `${BRAND_NAME}: you have been invited to watch calls live and help if one looks like a scam. Open this link on the device you will use (it works once, for ${VIEWER_INVITE_TTL_MS / (24 * 60 * 60_000)} days): ${inviteUrl}`,
+  }
+}
+
+/**
+ * Start (or restart) an invite for a trusted contact and return the one-time
+ * token for the link. Re-inviting signs the contact out of any browser that
+ * accepted an earlier invite.
+ */
+export async function createViewerInvite(contact: TrustedContact, now = Date.now()): Promise<string> {
+  const supabase = createAdminClient()
+  const token = createViewerToken()
+  const { error } = await supabase.from('tenant_viewers').upsert(
+    {
+      slug: contact.slug,
+      contact_id: contact.id,
+      invite_token_hash: hashViewerToken(token),
+      invite_expires_at: new Date(now + VIEWER_INVITE_TTL_MS).toISOString(),
+      session_token_hash: null,
+      invited_at: new Date(now).toISOString(),
+      accepted_at: null,
+    },
+    { onConflict: 'contact_id' },
+  )
+
+  if (error) {
+    throw new Error(`Failed to create viewer invite: ${error.message}`)
+  }
+
+  return token
+}
+
+/**
+ * Swap a valid invite token for a session token. The invite token stops
+ * working here, so a forwarded link cannot be opened a second time.
+ */
+export async function acceptViewerInvite(slug: string, inviteToken: string, now = Date.now()): Promise<string | null> {
+  const sessionToken = createViewerToken()
+  const supabase = createAdminClient()
+  const { data, error } = await supabase
+    .from('tenant_viewers')
+    .update({
+      invite_token_hash: null,
+      invite_expires_at: null,
+      session_token_hash: hashViewerToken(sessionToken),
+      accepted_at: new Date(now).toISOString(),
+    })
+    .eq('slug', slug)
+    .eq('invite_token_hash', hashViewerToken(inviteToken))
+    .gt('invite_expires_at', new Date(now).toISOString())
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to accept viewer invite: ${error.message}`)
+  }
+
+  return data?.length ? sessionToken : null
+}
+
+export async function getViewerBySession(slug: string, sessionToken: string): Promise<TenantViewer | null> {
+  const supabase = createAdminClient()
+  const { data, error } = await supabase
+    .from('tenant_viewers')
+    .select(VIEWER_COLUMNS)
+    .eq('slug', slug)
+    .eq('session_token_hash', hashViewerToken(sessionToken))
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load viewer: ${error.message}`)
+  }
+
+  return data ? toTenantViewer(data as unknown as TenantViewerRow) : null
+}
+
+export async function listTenantViewers(slug: string): Promise<TenantViewer[]> {
+  const supabase = createAdminClient()
+  const { data, error } = await supabase
+    .from('tenant_viewers')
+    .select(VIEWER_COLUMNS)
+    .eq('slug', slug)
+    .order('invited_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load viewers: ${error.message}`)
+  }
+
+  return ((data ?? []) as unknown as TenantViewerRow[]).map(toTenantViewer)
+}
+
+/** Returns false when the contact was not invited. */
+export async function revokeViewer(slug: string, contactId: string): Promise<boolean> {
+  const supabase = createAdminClient()
+  const { data, error } = await supabase
+    .from('tenant_viewers')
+    .delete()
+    .eq('slug', slug)
+    .eq('contact_id', contactId)
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to revoke viewer: ${error.message}`)
+  }
+
+  return (data?.length ?? 0) > 0
+}
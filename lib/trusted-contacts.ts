@@ -0,0 +1,163 @@
+import { isValidE164, normalizePhone } from '@/lib/phone'
+import { createAdminClient } from '@/lib/supabase/admin'
+
+/** People a tenant wants told when a monitored call turns dangerous. */
+export type TrustedContact = {
+  id: string
+  slug: string
+  name: string
+  phoneNumber: string | null
+  email: string | null
+  createdAt: number
+}
+
+export type TrustedContactInput = {
+  name: string
+  phoneNumber: string | null
+  email: string | null
+}
+
+export const MAX_TRUSTED_CONTACTS = 5
+const MAX_CONTACT_NAME_LENGTH = 80
+const MAX_EMAIL_LENGTH = 254
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const CONTACT_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+type TrustedContactRow = {
+  id: string
+  slug: string
+  name: string
+  phone_number: string | null
+  email: string | null
+  created_at: string
+}
+
+function toTrustedContact(row: TrustedContactRow): TrustedContact {
+  return {
+    id: row.id,
+    slug: row.slug,
+    name: row.name,
+    phoneNumber: row.phone_number,
+    email: row.email,
+    createdAt: Date.parse(row.created_at),
+  }
+}
+
+export function isTrustedContactId(value: unknown): value is string {
+  return typeof value === 'string' && CONTACT_ID_PATTERN.test(value)
+}
+
+/**
+ * Check and normalize a contact from a request body. A contact needs a name
+ * and at least one way to reach them.
+ */
+export function parseTrustedContactInput(
+  body: unknown,
+): { ok: true; contact: TrustedContactInput } | { ok: false; error: string } {
+  const raw = (body ?? {}) as Record<string, unknown>
+  const name = typeof raw.name === 'string' ? raw.name.trim() : ''
+  const rawPhone = typeof raw.phoneNumber === 'string' ? raw.phoneNumber.trim() : ''
+  const rawEmail = typeof raw.email === 'string' ? raw.email.trim().toLowerCase() : ''
+
+  if (!name) {
+    return { ok: false, error: 'Enter a name for this contact.' }
+  }
+
+  if (name.length > MAX_CONTACT_NAME_LENGTH) {
+    return { ok: false, error: `Keep the name under ${MAX_CONTACT_NAME_LENGTH} characters.` }
+  }
+
+  if (!rawPhone && !rawEmail) {
+    return { ok: false, error: 'Enter a phone number, an email address, or both.' }
+  }
+
+  let phoneNumber: string | null = null
+  if (rawPhone) {
+    const normalized = normalizePhone(rawPhone)
+    if (!normalized.ok || !isValidE164(normalized.number)) {
+      return { ok: false, error: normalized.ok ? 'Enter a valid phone number.' : normalized.error }
+    }
+    phoneNumber = normalized.number
+  }
+
+  if (rawEmail && (rawEmail.length > MAX_EMAIL_LENGTH || !EMAIL_PATTERN.test(rawEmail))) {
+    return { ok: false, error: 'Enter a valid email address.' }
+  }
+
+  return { ok: true, contact: { name, phoneNumber, email: rawEmail || null } }
+}
+
+export async function listTrustedContacts(slug: string): Promise<TrustedContact[]> {
+  const supabase = createAdminClient()
+  const { data, error } = await supabase
+    .from('trusted_contacts')
+    .select('id, slug, name, phone_number, email, created_at')
+    .eq('slug', slug)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load trusted contacts: ${error.message}`)
+  }
+
+  return ((data ?? []) as TrustedContactRow[]).map(toTrustedContact)
+}
+
+export async function getTrustedContact(slug: string, contactId: string): Promise<TrustedContact | null> {
+  const supabase = createAdminClient()
+  const { data, error } = await supabase
+    .from('trusted_contacts')
+    .select('id, slug, name, phone_number, email, created_at')
+    .eq('slug', slug)
+    .eq('id', contactId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load trusted contact: ${error.message}`)
+  }
+
+  return data ? toTrustedContact(data as TrustedContactRow) : null
+}
+
+/** Returns null when the tenant already has `MAX_TRUSTED_CONTACTS`. */
+export async function addTrustedContact(slug: string, input: TrustedContactInput): Promise<TrustedContact | null> {
+  const supabase = createAdminClient()
+  const { count, error: countError } = await supabase
+    .from('trusted_contacts')
+    .select('id', { count: 'exact', head: true })
+    .eq('slug', slug)
+
+  if (countError) {
+    throw new Error(`Failed to count trusted contacts: ${countError.message}`)
+  }
+
+  if ((count ?? 0) >= MAX_TRUSTED_CONTACTS) return null
+
+  const { data, error } = await supabase
+    .from('trusted_contacts')
+    .insert({ slug, name: input.name, phone_number: input.phoneNumber, email: input.email })
+    .select('id, slug, name, phone_number, email, created_at')
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to add trusted contact: ${error.message}`)
+  }
+
+  return toTrustedContact(data as TrustedContactRow)
+}
+
+/** Returns false when the tenant has no such contact. */
+export async function removeTrustedContact(slug: string, contactId: string): Promise<boolean> {
+  const supabase = createAdminClient()
+  const { data, error } = await supabase
+    .from('trusted_contacts')
+    .delete()
+    .eq('slug', slug)
+    .eq('id', contactId)
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to remove trusted contact: ${error.message}`)
+  }
+
+  return (data?.length ?? 0) > 0
+}
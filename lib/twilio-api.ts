@@ -9,6 +9,10 @@ type TwilioCallCreateResult = {
   status: string
 }
 
+type TwilioMessageCreateResult = {
+  sid: string
+}
+
 type JsonRecord = Record<string, unknown>
 
 function readTwilioEnv(): TwilioConfig | null {
@@ -45,6 +49,15 @@ function readString(record: JsonRecord | null, key: string): string | null {
   return trimmed || null
 }
 
+export function escapeXml(value: string): string {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&apos;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+}
+
 export function getTwilioConfig(): TwilioConfig | null {
   return readTwilioEnv()
 }
@@ -108,3 +121,152 @@ export async function createOutboundTwilioCall(params: {
     status,
   }
 }
+
+async function updateTwilioCall(callSid: string, body: URLSearchParams): Promise<void> {
+  const config = readTwilioEnv()
+
+  if (!config) {
+    throw new Error('Twilio env vars are missing.')
+  }
+
+  const response = await fetch(
+    `https://api.twilio.com/2010-04-01/Accounts/${encodeURIComponent(config.accountSid)}/Calls/${encodeURIComponent(callSid)}.json`,
+    {
+      method: 'POST',
+      headers: {
+        Authorization: createBasicAuthHeader(config.accountSid, config.authToken),
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      signal: AbortSignal.timeout(15_000),
+      body,
+    },
+  )
+
+  if (!response.ok) {
+    const record = asRecord(await response.json().catch(() => null))
+    const message =
+      readString(record, 'message') ||
+      readString(record, 'error_message') ||
+      `Twilio returned status ${response.status}`
+    throw new Error(message)
+  }
+}
+
+/** Point a call that is already in progress at new TwiML. */
+export async function redirectTwilioCall(params: { callSid: string; twimlUrl: string }): Promise<void> {
+  const body = new URLSearchParams()
+  body.set('Url', params.twimlUrl)
+  body.set('Method', 'POST')
+
+  await updateTwilioCall(params.callSid, body)
+}
+
+/** Replace what a call in progress is doing with inline TwiML (the `<Response>` body). */
+export async function updateTwilioCallTwiml(params: { callSid: string; twiml: string }): Promise<void> {
+  const body = new URLSearchParams()
+  body.set('Twiml', `<?xml version="1.0" encoding="UTF-8"?><Response>${params.twiml}</Response>`)
+
+  await updateTwilioCall(params.callSid, body)
+}
+
+/** Place a call that runs inline TwiML (the `<Response>` body) once answered. */
+export async function createTwilioTwimlCall(params: { to: string; twiml: string }): Promise<TwilioCallCreateResult> {
+  const config = readTwilioEnv()
+
+  if (!config) {
+    throw new Error('Twilio env vars are missing.')
+  }
+
+  const body = new URLSearchParams()
+  body.set('To', params.to)
+  body.set('From', config.phoneNumber)
+  body.set('Twiml', `<?xml version="1.0" encoding="UTF-8"?><Response>${params.twiml}</Response>`)
+
+  const response = await fetch(
+    `https://api.twilio.com/2010-04-01/Accounts/${encodeURIComponent(config.accountSid)}/Calls.json`,
+    {
+      method: 'POST',
+      headers: {
+        Authorization: createBasicAuthHeader(config.accountSid, config.authToken),
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      signal: AbortSignal.timeout(15_000),
+      body,
+    },
+  )
+
+  const payload = await response.json().catch(() => null)
+  const record = asRecord(payload)
+
+  if (!response.ok) {
+    const message =
+      readString(record, 'message') ||
+      readString(record, 'error_message') ||
+      `Twilio returned status ${response.status}`
+    throw new Error(message)
+  }
+
+  const sid = readString(record, 'sid')
+
+  if (!sid) {
+    throw new Error('Twilio call created but no sid was returned.')
+  }
+
+  return {
+    sid,
+    status: readString(record, 'status') ?? 'queued',
+  }
+}
+
+/** Place a call that reads `say` aloud once it is answered, then hangs up. */
+export async function createTwilioSayCall(params: { to: string; say: string }): Promise<TwilioCallCreateResult> {
+  return createTwilioTwimlCall({
+    to: params.to,
+    twiml: `<Pause length="1"/><Say>${escapeXml(params.say)}</Say>`,
+  })
+}
+
+export async function sendTwilioSms(params: { to: string; body: string }): Promise<TwilioMessageCreateResult> {
+  const config = readTwilioEnv()
+
+  if (!config) {
+    throw new Error('Twilio env vars are missing.')
+  }
+
+  const body = new URLSearchParams()
+  body.set('To', params.to)
+  body.set('From', config.phoneNumber)
+  body.set('Body', params.body)
+
+  const response = await fetch(
+    `https://api.twilio.com/2010-04-01/Accounts/${encodeURIComponent(config.accountSid)}/Messages.json`,
+    {
+      method: 'POST',
+      headers: {
+        Authorization: createBasicAuthHeader(config.accountSid, config.authToken),
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      signal: AbortSignal.timeout(15_000),
+      body,
+    },
+  )
+
+  const payload = await response.json().catch(() => null)
+  const record = asRecord(payload)
+
+  if (!response.ok) {
+    const message =
+      readString(record, 'message') ||
+      readString(record, 'error_message') ||
+      `Twilio returned status ${response.status}`
+    throw new Error(message)
+  }
+
+  const sid = readString(record, 'sid')
+
+  if (!sid) {
+    throw new Error('Twilio message created but no sid was returned.')
+  }
+
+  return { sid }
+}
@@ -489,6 +489,41 @@ export function isValidTwilioSignature(params: {
   })
 }
 
+/**
+ * Authenticate a Twilio webhook request. Returns the rejection to send back,
+ * or null when the request may be processed (or validation is switched off).
+ */
+export function verifyTwilioWebhookRequest(params: {
+  requestUrl: string
+  headers: Headers
+  rawBody: string
+  parsedBody: ParsedTwilioWebhookBody
+  authToken: string | null
+}): { status: number; error: string } | null {
+  if (shouldSkipTwilioWebhookValidation()) return null
+
+  if (!params.authToken) {
+    return { status: 500, error: 'Twilio server configuration is missing.' }
+  }
+
+  const signature = params.headers.get('x-twilio-signature')
+
+  if (!signature) {
+    return { status: 401, error: 'Missing Twilio signature.' }
+  }
+
+  const validSignature = isValidTwilioSignature({
+    authToken: params.authToken,
+    signature,
+    urlCandidates: buildTwilioUrlCandidates(params.requestUrl, params.headers),
+    bodyParams: params.parsedBody.bodyParams,
+    rawBody: params.parsedBody.isJson ? params.rawBody : undefined,
+    isJsonBody: params.parsedBody.isJson,
+  })
+
+  return validSignature ? null : { status: 401, error: 'Invalid Twilio signature.' }
+}
+
 export function parseTwilioWebhookEvent(
   bodyParams: TwilioWebhookParams,
   slugFromQuery: string | null,
@@ -0,0 +1,127 @@
+import { createHash, randomInt, timingSafeEqual } from 'node:crypto'
+import { createAdminClient } from '@/lib/supabase/admin'
+
+/**
+ * One-time codes sent to a phone number: to sign in with the saved number,
+ * and to prove a new number belongs to the tenant before it is saved. Each
+ * purpose has its own table; both are service-role only.
+ */
+export type VerificationCodePurpose = 'sign-in' | 'phone'
+
+export type VerificationCodeCheck = 'ok' | 'invalid' | 'expired' | 'too-many-attempts'
+
+export type VerificationCodeResult = {
+  check: VerificationCodeCheck
+  // The number the code was sent to; only meaningful when `check` is `ok`.
+  phoneNumber: string | null
+}
+
+export const VERIFICATION_CODE_LENGTH = 6
+export const VERIFICATION_CODE_TTL_MS = 10 * 60_000
+const MAX_VERIFICATION_CODE_ATTEMPTS = 5
+
+const CODE_TABLES: Record<VerificationCodePurpose, string> = {
+  'sign-in': 'tenant_sign_in_codes',
+  phone: 'tenant_phone_verifications',
+}
+
+/** What the verify endpoints answer for each failed check. */
+export const VERIFICATION_CODE_ERRORS: Record<Exclude<VerificationCodeCheck, 'ok'>, { error: string; status: number }> = {
+  invalid: { error: 'That code is not right. Check it and try again.', status: 400 },
+  expired: { error: 'That code has expired. Send a new one.', status: 400 },
+  'too-many-attempts': { error: 'Too many wrong codes. Send a new one.', status: 429 },
+}
+
+type VerificationCodeRow = {
+  id: number
+  phone_number: string
+  code_hash: string
+  attempts: number
+  expires_at: string
+  consumed_at: string | null
+}
+
+function hashVerificationCode(slug: string, code: string): string {
+  return createHash('sha256').update(`${slug}:${code}`).digest('hex')
+}
+
+/** Reads a code digit by digit, for voice calls. */
+export function spellOutCode(code: string): string {
+  return code.split('').join(', ')
+}
+
+/** Store a fresh code for `phoneNumber` and return it for sending. */
+export async function createVerificationCode(params: {
+  purpose: VerificationCodePurpose
+  slug: string
+  phoneNumber: string
+  now?: number
+}): Promise<string> {
+  const now = params.now ?? Date.now()
+  const code = String(randomInt(0, 10 ** VERIFICATION_CODE_LENGTH)).padStart(VERIFICATION_CODE_LENGTH, '0')
+  const supabase = createAdminClient()
+  const { error } = await supabase.from(CODE_TABLES[params.purpose]).insert({
+    slug: params.slug,
+    phone_number: params.phoneNumber,
+    code_hash: hashVerificationCode(params.slug, code),
+    expires_at: new Date(now + VERIFICATION_CODE_TTL_MS).toISOString(),
+  })
+
+  if (error) {
+    throw new Error(`Failed to create ${params.purpose} code: ${error.message}`)
+  }
+
+  return code
+}
+
+/**
+ * Check a code against the tenant's most recent one for this purpose. Each
+ * wrong guess counts against that code, and a correct one can only be used
+ * once.
+ */
+export async function consumeVerificationCode(params: {
+  purpose: VerificationCodePurpose
+  slug: string
+  code: string
+  now?: number
+}): Promise<VerificationCodeResult> {
+  const now = params.now ?? Date.now()
+  const table = CODE_TABLES[params.purpose]
+  const supabase = createAdminClient()
+  const { data, error } = await supabase
+    .from(table)
+    .select('id, phone_number, code_hash, attempts, expires_at, consumed_at')
+    .eq('slug', params.slug)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load ${params.purpose} code: ${error.message}`)
+  }
+
+  const row = data as VerificationCodeRow | null
+  if (!row || row.consumed_at || Date.parse(row.expires_at) <= now) return { check: 'expired', phoneNumber: null }
+  if (row.attempts >= MAX_VERIFICATION_CODE_ATTEMPTS) return { check: 'too-many-attempts', phoneNumber: null }
+
+  const expected = Buffer.from(row.code_hash)
+  const actual = Buffer.from(hashVerificationCode(params.slug, params.code.trim()))
+  const matches = expected.length === actual.length && timingSafeEqual(expected, actual)
+
+  const { data: updated, error: updateError } = await supabase
+    .from(table)
+    .update(matches ? { consumed_at: new Date(now).toISOString() } : { attempts: row.attempts + 1 })
+    .eq('id', row.id)
+    .is('consumed_at', null)
+    .select('id')
+
+  if (updateError) {
+    throw new Error(`Failed to update ${params.purpose} code: ${updateError.message}`)
+  }
+
+  if (!matches) return { check: 'invalid', phoneNumber: null }
+  // Another request used the same code first.
+  if (!updated?.length) return { check: 'expired', phoneNumber: null }
+
+  return { check: 'ok', phoneNumber: row.phone_number }
+}
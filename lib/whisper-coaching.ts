@@ -0,0 +1,45 @@
+import type { CoachingAdvice } from '@/lib/live-types'
+import { getConfiguredBaseUrl } from '@/lib/public-url'
+import { getTenantWhisperCoaching } from '@/lib/tenant-settings'
+import { escapeXml, getTwilioConfig, updateTwilioCallTwiml } from '@/lib/twilio-api'
+
+const MAX_WHISPER_CHARS = 140
+
+/**
+ * The line to speak: the advice's "what to do", cut to its first sentence
+ * when it is too long to take in while someone else is talking.
+ */
+export function formatWhisper(advice: CoachingAdvice): string | null {
+  const text = advice.whatToDo.trim().replace(/\s+/g, ' ')
+  if (!text) return null
+  if (text.length <= MAX_WHISPER_CHARS) return text
+
+  const firstSentence = text.match(/^.+?[.!?](?=\s|$)/)?.[0]
+  if (firstSentence && firstSentence.length <= MAX_WHISPER_CHARS) return firstSentence
+
+  return `${text.slice(0, MAX_WHISPER_CHARS - 1).trimEnd()}…`
+}
+
+/**
+ * Speak advice into the monitor leg, then hand the call back to the usual
+ * transcription loop. Only for tenants that opted in. The loop's TwiML URL
+ * has to be absolute, so nothing is spoken without a configured base URL.
+ */
+export async function speakAdviceOnCall(params: {
+  callSid: string
+  slug: string
+  advice: CoachingAdvice
+}): Promise<void> {
+  const baseUrl = getConfiguredBaseUrl()
+  const whisper = formatWhisper(params.advice)
+  if (!baseUrl || !whisper || !getTwilioConfig()) return
+  if (!(await getTenantWhisperCoaching(params.slug))) return
+
+  const loopUrl = new URL('/api/twilio/twiml', baseUrl)
+  loopUrl.searchParams.set('slug', params.slug)
+
+  await updateTwilioCallTwiml({
+    callSid: params.callSid,
+    twiml: `<Say>${escapeXml(whisper)}</Say><Redirect method="POST">${escapeXml(loopUrl.toString())}</Redirect>`,
+  })
+}
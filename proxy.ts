@@ -0,0 +1,10 @@
+import type { NextRequest } from 'next/server'
+import { updateSession } from '@/lib/supabase/proxy'
+
+export async function proxy(request: NextRequest) {
+  return updateSession(request)
+}
+
+export const config = {
+  matcher: ['/t/:path*', '/api/call', '/api/cases', '/api/tenant/:path*'],
+}
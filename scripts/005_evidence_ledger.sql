@@ -0,0 +1,8 @@
+-- Cumulative, time-decaying risk evidence per live call.
+-- Entries are written by the advice pipeline; see lib/evidence-ledger.ts.
+
+alter table public.live_calls
+  add column if not exists evidence_ledger jsonb not null default jsonb_build_object(
+    'entries', jsonb_build_array(),
+    'updatedAt', 0
+  );
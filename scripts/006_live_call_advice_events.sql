@@ -0,0 +1,23 @@
+-- Append-only history of every advice update published for a live call.
+-- live_calls.advice only holds the latest value; this table keeps the timeline
+-- for post-call review and stabilizer tuning. Written by lib/live-store.ts.
+
+create table if not exists public.live_call_advice_events (
+  id bigint generated always as identity primary key,
+  call_sid text not null references public.live_calls (call_sid) on delete cascade,
+  source text not null check (source in ('heuristic', 'model')),
+  raw_risk_score smallint,
+  risk_score smallint not null,
+  risk_level text not null check (risk_level in ('low', 'medium', 'high')),
+  confidence real not null,
+  error text,
+  advice jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_live_call_advice_events_call_sid_id
+  on public.live_call_advice_events (call_sid, id);
+
+alter table public.live_call_advice_events enable row level security;
+
+-- No anon policies: timeline reads go through the server API.
@@ -0,0 +1,26 @@
+-- Call-level fields for the per-tenant case history list.
+-- peak_* only ever rise, scam_type keeps the last known classification, and
+-- ended_at is stamped once when the call reaches a terminal status.
+
+alter table public.live_calls
+  add column if not exists peak_risk_score smallint not null default 0,
+  add column if not exists peak_risk_level text not null default 'low'
+    check (peak_risk_level in ('low', 'medium', 'high')),
+  add column if not exists scam_type text not null default 'unknown',
+  add column if not exists ended_at timestamptz;
+
+-- Backfill from the latest advice; earlier peaks were not recorded before this migration.
+update public.live_calls
+set
+  peak_risk_score = greatest(peak_risk_score, coalesce(round((advice ->> 'riskScore')::numeric)::smallint, 0)),
+  peak_risk_level = case
+    when coalesce(round((advice ->> 'riskScore')::numeric)::smallint, 0) >= 70 then 'high'
+    when coalesce(round((advice ->> 'riskScore')::numeric)::smallint, 0) >= 40 then 'medium'
+    else 'low'
+  end,
+  scam_type = coalesce(nullif(advice ->> 'scamType', ''), 'unknown'),
+  ended_at = case when status in ('ended', 'failed') then coalesce(ended_at, updated_at) else ended_at end
+where peak_risk_score = 0;
+
+create index if not exists idx_live_calls_slug_created_at
+  on public.live_calls (slug, created_at desc);
@@ -0,0 +1,4 @@
+-- Structured recap written once when a live call ends; see lib/post-call-summary.ts.
+
+alter table public.live_calls
+  add column if not exists post_call_summary jsonb;
@@ -0,0 +1,17 @@
+-- First time the protected caller gave away each kind of sensitive data on a
+-- call (card number, one-time code, SSN, login, remote access). Only the kind
+-- and the transcript chunk are stored, never the disclosed value itself.
+-- Written by the advice queue; see lib/disclosure.ts.
+
+create table if not exists public.live_call_disclosures (
+  id bigint generated always as identity primary key,
+  call_sid text not null references public.live_calls (call_sid) on delete cascade,
+  kind text not null check (kind in ('remote-access', 'one-time-code', 'card-number', 'account-login', 'ssn')),
+  chunk_id text not null,
+  detected_at timestamptz not null default now(),
+  unique (call_sid, kind)
+);
+
+alter table public.live_call_disclosures enable row level security;
+
+-- No anon policies: disclosures are read through the server only.
@@ -0,0 +1,10 @@
+-- Where each tenant's transcripts are redacted before leaving the call:
+--   storage: before live_transcript_chunks is written
+--   model:   before transcript lines are sent to the LLM provider
+--   both:    the default
+--   off:     never
+-- See lib/redaction.ts.
+
+alter table public.tenants
+  add column if not exists redaction_mode text not null default 'both'
+    check (redaction_mode in ('off', 'storage', 'model', 'both'));
@@ -0,0 +1,107 @@
+-- Per-tenant transcript retention. Calls older than transcript_retention_days
+-- lose their transcript chunks and advice history; the live_calls row with its
+-- post-call summary, peak risk and scam type is kept.
+--   delete:    remove the chunks and advice events
+--   anonymize: keep the rows (who spoke when, the risk timeline) but drop the text
+-- Run by GET /api/cron/retention; see lib/retention.ts.
+
+alter table public.tenants
+  add column if not exists transcript_retention_days integer not null default 30
+    check (transcript_retention_days between 1 and 3650),
+  add column if not exists transcript_purge_action text not null default 'delete'
+    check (transcript_purge_action in ('delete', 'anonymize'));
+
+alter table public.live_calls
+  add column if not exists transcript_purged_at timestamptz;
+
+create index if not exists idx_live_calls_retention
+  on public.live_calls (slug, created_at)
+  where transcript_purged_at is null;
+
+-- One row per purge batch that touched at least one call.
+create table if not exists public.retention_purge_audit (
+  id bigint generated always as identity primary key,
+  slug text not null,
+  action text not null check (action in ('delete', 'anonymize')),
+  cutoff timestamptz not null,
+  call_sids text[] not null,
+  transcript_chunks integer not null,
+  advice_events integer not null,
+  purged_at timestamptz not null default now()
+);
+
+create index if not exists idx_retention_purge_audit_slug_purged_at
+  on public.retention_purge_audit (slug, purged_at desc);
+
+alter table public.retention_purge_audit enable row level security;
+
+-- No anon policies: the audit is written and read with the service role only.
+
+create or replace function public.purge_expired_call_data(
+  p_slug text,
+  p_cutoff timestamptz,
+  p_action text,
+  p_limit integer default 200
+)
+returns table (calls_purged integer, transcript_chunks integer, advice_events integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_call_sids text[];
+  v_chunks integer := 0;
+  v_events integer := 0;
+begin
+  if p_action not in ('delete', 'anonymize') then
+    raise exception 'Unknown purge action: %', p_action;
+  end if;
+
+  select coalesce(array_agg(expired.call_sid), '{}')
+    into v_call_sids
+    from (
+      select call_sid
+        from live_calls
+       where slug = p_slug
+         and created_at < p_cutoff
+         and transcript_purged_at is null
+       order by created_at
+       limit p_limit
+       for update skip locked
+    ) as expired;
+
+  if cardinality(v_call_sids) = 0 then
+    return query select 0, 0, 0;
+    return;
+  end if;
+
+  if p_action = 'delete' then
+    delete from live_transcript_chunks where call_sid = any (v_call_sids);
+    get diagnostics v_chunks = row_count;
+
+    delete from live_call_advice_events where call_sid = any (v_call_sids);
+    get diagnostics v_events = row_count;
+  else
+    update live_transcript_chunks set text = '[removed]' where call_sid = any (v_call_sids);
+    get diagnostics v_chunks = row_count;
+
+    update live_call_advice_events
+       set advice = advice - 'evidence' - 'feedback' - 'whatToSay' - 'whatToDo' - 'nextSteps'
+     where call_sid = any (v_call_sids);
+    get diagnostics v_events = row_count;
+  end if;
+
+  -- Evidence quotes transcript text, so it goes in both modes.
+  update live_calls
+     set advice = jsonb_set(advice, '{evidence}', '[]'::jsonb),
+         transcript_purged_at = now()
+   where call_sid = any (v_call_sids);
+
+  insert into retention_purge_audit (slug, action, cutoff, call_sids, transcript_chunks, advice_events)
+  values (p_slug, p_action, p_cutoff, v_call_sids, v_chunks, v_events);
+
+  return query select cardinality(v_call_sids), v_chunks, v_events;
+end;
+$$;
+
+revoke all on function public.purge_expired_call_data(text, timestamptz, text, integer) from public, anon, authenticated;
@@ -0,0 +1,22 @@
+-- Replace the demo read policies from 004 with per-call access.
+-- POST /api/call issues an HS256 viewer token signed with the project's JWT
+-- secret (lib/call-access-token.ts). Its `call_sid` claim is the only call
+-- the holder can read, both through Realtime and the REST API. Plain anon
+-- key requests carry no such claim and see nothing.
+
+drop policy if exists live_calls_demo_read on public.live_calls;
+drop policy if exists live_transcript_chunks_demo_read on public.live_transcript_chunks;
+
+drop policy if exists live_calls_viewer_read on public.live_calls;
+create policy live_calls_viewer_read
+  on public.live_calls
+  for select
+  to anon, authenticated
+  using (call_sid = (auth.jwt() ->> 'call_sid'));
+
+drop policy if exists live_transcript_chunks_viewer_read on public.live_transcript_chunks;
+create policy live_transcript_chunks_viewer_read
+  on public.live_transcript_chunks
+  for select
+  to anon, authenticated
+  using (call_sid = (auth.jwt() ->> 'call_sid'));
@@ -0,0 +1,26 @@
+-- Tenant ownership and passwordless sign-in.
+-- A tenant is owned by one Supabase Auth user, created the first time
+-- someone proves they hold the saved number by entering a code sent to it.
+-- Codes are stored hashed and are written and read with the service role
+-- only. See lib/tenant-auth.ts.
+
+alter table public.tenants
+  add column if not exists owner_user_id uuid unique references auth.users (id) on delete set null;
+
+create table if not exists public.tenant_sign_in_codes (
+  id bigint generated always as identity primary key,
+  slug text not null references public.tenants (slug) on delete cascade,
+  phone_number text not null,
+  code_hash text not null,
+  attempts int not null default 0,
+  expires_at timestamptz not null,
+  consumed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_tenant_sign_in_codes_slug_created_at
+  on public.tenant_sign_in_codes (slug, created_at desc);
+
+alter table public.tenant_sign_in_codes enable row level security;
+
+-- No anon policies: codes never leave the server.
@@ -0,0 +1,27 @@
+-- Phone numbers are only saved once the tenant proves they receive calls or
+-- texts on them: PUT /api/tenant/phone sends a code to the new number and
+-- POST /api/tenant/phone/verify saves it. /api/call refuses to dial a
+-- number without phone_verified_at. Numbers saved before this migration
+-- have to be confirmed again (signing in with a code to them counts).
+-- See lib/verification-codes.ts.
+
+alter table public.tenants
+  add column if not exists phone_verified_at timestamptz;
+
+create table if not exists public.tenant_phone_verifications (
+  id bigint generated always as identity primary key,
+  slug text not null references public.tenants (slug) on delete cascade,
+  phone_number text not null,
+  code_hash text not null,
+  attempts int not null default 0,
+  expires_at timestamptz not null,
+  consumed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_tenant_phone_verifications_slug_created_at
+  on public.tenant_phone_verifications (slug, created_at desc);
+
+alter table public.tenant_phone_verifications enable row level security;
+
+-- No anon policies: codes never leave the server.
@@ -0,0 +1,40 @@
+-- Trusted contacts: family or friends a tenant wants told when a monitored
+-- call turns dangerous. Alerts go out when advice reaches high risk or the
+-- caller gives something away, and each contact hears about each reason at
+-- most once per call and channel. Service role only. See
+-- lib/trusted-contacts.ts and lib/contact-alerts.ts.
+
+create table if not exists public.trusted_contacts (
+  id uuid primary key default gen_random_uuid(),
+  slug text not null references public.tenants (slug) on delete cascade,
+  name text not null,
+  phone_number text,
+  email text,
+  created_at timestamptz not null default now(),
+  constraint trusted_contacts_reachable check (phone_number is not null or email is not null)
+);
+
+create index if not exists idx_trusted_contacts_slug_created_at
+  on public.trusted_contacts (slug, created_at);
+
+-- One row per delivered (or attempted) alert. The unique key is the de-dup:
+-- a sender inserts its row before sending and skips the send on conflict.
+create table if not exists public.trusted_contact_alerts (
+  id bigint generated always as identity primary key,
+  slug text not null references public.tenants (slug) on delete cascade,
+  call_sid text not null,
+  contact_id uuid not null references public.trusted_contacts (id) on delete cascade,
+  notifier text not null,
+  reason text not null check (reason in ('high-risk', 'disclosure')),
+  error text,
+  created_at timestamptz not null default now(),
+  unique (call_sid, contact_id, notifier, reason)
+);
+
+create index if not exists idx_trusted_contact_alerts_slug_created_at
+  on public.trusted_contact_alerts (slug, created_at desc);
+
+alter table public.trusted_contacts enable row level security;
+alter table public.trusted_contact_alerts enable row level security;
+
+-- No anon policies: contact details are read and written by server routes only.
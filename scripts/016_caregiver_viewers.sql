@@ -0,0 +1,25 @@
+-- Caregivers: trusted contacts the owner has invited to watch calls live.
+-- The invite link carries a one-time token. Opening it swaps the token for a
+-- session token kept in an httpOnly cookie, so a forwarded link stops
+-- working once it has been used. Viewers get read-only access to live calls
+-- and can ring the protected phone; they cannot start calls or change
+-- settings. Removing the contact or revoking the invite removes the row.
+-- Service role only. See lib/tenant-viewers.ts.
+
+create table if not exists public.tenant_viewers (
+  id uuid primary key default gen_random_uuid(),
+  slug text not null references public.tenants (slug) on delete cascade,
+  contact_id uuid not null unique references public.trusted_contacts (id) on delete cascade,
+  invite_token_hash text unique,
+  invite_expires_at timestamptz,
+  session_token_hash text unique,
+  invited_at timestamptz not null default now(),
+  accepted_at timestamptz
+);
+
+create index if not exists idx_tenant_viewers_slug
+  on public.tenant_viewers (slug);
+
+alter table public.tenant_viewers enable row level security;
+
+-- No anon policies: viewers are resolved from their cookie on the server.
@@ -0,0 +1,13 @@
+-- Conference escalation: a trusted contact dialed into a live call so they
+-- can speak. The monitor leg is moved into a Twilio <Conference> and the
+-- contact's leg joins it; see app/api/call/escalate and
+-- app/api/twilio/escalation. One contact at a time per call.
+
+alter table public.live_calls
+  add column if not exists escalation_status text
+    check (escalation_status in ('dialing', 'joined', 'ended', 'failed')),
+  add column if not exists escalation_contact_id uuid
+    references public.trusted_contacts (id) on delete set null,
+  add column if not exists escalation_call_sid text,
+  add column if not exists escalation_error text,
+  add column if not exists escalated_at timestamptz;
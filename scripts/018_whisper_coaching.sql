@@ -0,0 +1,5 @@
+-- Opt-in: speak urgent advice into the monitor call leg, for people who hold
+-- the phone to their ear and cannot watch the screen. See lib/whisper-coaching.ts.
+
+alter table public.tenants
+  add column if not exists whisper_coaching boolean not null default false;
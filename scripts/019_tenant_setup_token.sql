@@ -0,0 +1,8 @@
+-- Setup access for a new, unowned tenant. /start keeps a random token in an
+-- httpOnly cookie and stores only its sha256 hash here; the slug cookie alone
+-- no longer lets a browser save the first number. Cleared once the tenant has
+-- an owner. Tenants created before this have no token: they are set up from
+-- a fresh /start. See lib/tenant-auth.ts.
+
+alter table public.tenants
+  add column if not exists setup_token_hash text;
@@ -0,0 +1,297 @@
+import { readFile, readdir, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { createEvidenceLedger, getDecayedEvidenceTotal, recordEvidence } from '@/lib/evidence-ledger'
+import {
+  generateHeuristicAdvice,
+  generateModelAdvice,
+  stabilizeAdvice,
+  withHeuristicSignals,
+} from '@/lib/live-coach'
+import { CoachingAdvice, RiskLevel, TranscriptChunk, TranscriptSpeaker, getRiskLevel } from '@/lib/live-types'
+import { LlmProvider, createFakeLlmProvider, getLlmProvider, getLlmProviderConfigError } from '@/lib/llm-provider'
+import { ScamType, toScamType } from '@/lib/scam-types'
+
+type CorpusTurn = {
+  atMs: number
+  speaker: TranscriptSpeaker
+  text: string
+}
+
+type CorpusCase = {
+  id: string
+  label: 'scam' | 'benign'
+  scamType: ScamType
+  expectedLevel: RiskLevel
+  turns: CorpusTurn[]
+}
+
+type PipelineId = 'heuristic' | 'model'
+
+type CaseResult = {
+  id: string
+  label: CorpusCase['label']
+  expectedLevel: RiskLevel
+  peakLevel: RiskLevel
+  peakScore: number
+  finalScore: number
+  expectedScamType: ScamType
+  predictedScamType: ScamType
+  timeToHighMs: number | null
+  meanAbsDelta: number
+  maxJump: number
+  modelErrors: number
+  scores: number[]
+}
+
+const RISK_LEVELS: RiskLevel[] = ['low', 'medium', 'high']
+const corpusDir = process.env.EVAL_CORPUS_DIR || path.join(process.cwd(), 'scripts/eval-corpus')
+const reportPath = process.env.EVAL_REPORT_PATH || path.join(process.cwd(), 'scripts/eval-report.json')
+const providerMode = process.env.EVAL_PROVIDER || 'fake'
+const evidenceHalfLifeMs = Number.parseInt(process.env.RISK_EVIDENCE_HALF_LIFE_MS || '', 10) || 180_000
+
+function invariant(condition: unknown, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(message)
+  }
+}
+
+function round(value: number | null, digits = 3): number | null {
+  if (value === null || !Number.isFinite(value)) return null
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator === 0 ? null : round(numerator / denominator)
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+function parseCase(raw: unknown, fileName: string): CorpusCase {
+  invariant(raw && typeof raw === 'object', `${fileName}: expected an object`)
+  const data = raw as Record<string, unknown>
+
+  invariant(typeof data.id === 'string' && data.id, `${fileName}: missing id`)
+  invariant(data.label === 'scam' || data.label === 'benign', `${fileName}: label must be scam or benign`)
+  invariant(
+    typeof data.expectedLevel === 'string' && (RISK_LEVELS as string[]).includes(data.expectedLevel),
+    `${fileName}: expectedLevel must be low, medium or high`,
+  )
+  invariant(Array.isArray(data.turns) && data.turns.length > 0, `${fileName}: turns must be a non-empty array`)
+
+  const turns = data.turns.map((turn, index): CorpusTurn => {
+    const entry = turn as Record<string, unknown>
+    invariant(typeof entry.atMs === 'number', `${fileName}: turns[${index}].atMs must be a number`)
+    invariant(
+      entry.speaker === 'caller' || entry.speaker === 'other' || entry.speaker === 'unknown',
+      `${fileName}: turns[${index}].speaker must be caller, other or unknown`,
+    )
+    invariant(typeof entry.text === 'string' && entry.text.trim(), `${fileName}: turns[${index}].text is empty`)
+
+    return { atMs: entry.atMs, speaker: entry.speaker, text: entry.text }
+  })
+
+  return {
+    id: data.id,
+    label: data.label,
+    scamType: toScamType(data.scamType),
+    expectedLevel: data.expectedLevel as RiskLevel,
+    turns,
+  }
+}
+
+async function loadCorpus(): Promise<CorpusCase[]> {
+  const fileNames = (await readdir(corpusDir)).filter((name) => name.endsWith('.json')).sort()
+  invariant(fileNames.length > 0, `No corpus files found in ${corpusDir}`)
+
+  const cases = await Promise.all(
+    fileNames.map(async (fileName) => parseCase(JSON.parse(await readFile(path.join(corpusDir, fileName), 'utf8')), fileName)),
+  )
+
+  const ids = new Set<string>()
+  for (const item of cases) {
+    invariant(!ids.has(item.id), `Duplicate corpus id "${item.id}"`)
+    ids.add(item.id)
+  }
+
+  return cases
+}
+
+function resolveProvider(): LlmProvider {
+  if (providerMode === 'fake') {
+    return createFakeLlmProvider()
+  }
+
+  const provider = getLlmProvider()
+  invariant(
+    provider,
+    getLlmProviderConfigError() ?? 'EVAL_PROVIDER=env requires LLM_PROVIDER or GROQ_API_KEY to be configured',
+  )
+  return provider
+}
+
+/**
+ * Replays one call turn by turn the way the webhook does: heuristic advice and
+ * the evidence ledger on every final chunk, then model advice merged with the
+ * heuristic signals and stabilized against the last published advice.
+ */
+async function runCase(item: CorpusCase, pipeline: PipelineId, provider: LlmProvider): Promise<CaseResult> {
+  const transcript: TranscriptChunk[] = []
+  const startedAt = item.turns[0].atMs
+  let ledger = createEvidenceLedger()
+  let previous: CoachingAdvice | undefined
+  let timeToHighMs: number | null = null
+  let modelErrors = 0
+  const scores: number[] = []
+
+  for (const [index, turn] of item.turns.entries()) {
+    transcript.push({
+      id: String(index + 1),
+      speaker: turn.speaker,
+      text: turn.text,
+      timestamp: turn.atMs,
+      isFinal: true,
+    })
+
+    const rawHeuristicAdvice = generateHeuristicAdvice({ transcript, previousAdvice: previous })
+    ledger = recordEvidence(ledger, rawHeuristicAdvice.evidence, { now: turn.atMs, halfLifeMs: evidenceHalfLifeMs })
+    const evidenceTotal = getDecayedEvidenceTotal(ledger, turn.atMs, evidenceHalfLifeMs)
+    let advice = stabilizeAdvice({ nextAdvice: rawHeuristicAdvice, previousAdvice: previous, evidenceTotal })
+
+    if (pipeline === 'model') {
+      const baseline = previous ?? advice
+
+      try {
+        const modelAdvice = await generateModelAdvice({ transcript, previousAdvice: baseline, provider })
+        if (modelAdvice) {
+          advice = stabilizeAdvice({
+            nextAdvice: withHeuristicSignals(modelAdvice, advice),
+            previousAdvice: baseline,
+            evidenceTotal,
+          })
+        }
+      } catch {
+        modelErrors += 1
+      }
+    }
+
+    scores.push(advice.riskScore)
+    if (timeToHighMs === null && advice.riskLevel === 'high') {
+      timeToHighMs = turn.atMs - startedAt
+    }
+    previous = advice
+  }
+
+  const deltas = scores.slice(1).map((score, index) => Math.abs(score - scores[index]))
+  const peakScore = Math.max(...scores)
+
+  return {
+    id: item.id,
+    label: item.label,
+    expectedLevel: item.expectedLevel,
+    peakLevel: getRiskLevel(peakScore),
+    peakScore,
+    finalScore: scores[scores.length - 1],
+    expectedScamType: item.scamType,
+    predictedScamType: previous?.scamType ?? 'unknown',
+    timeToHighMs,
+    meanAbsDelta: round(deltas.length > 0 ? deltas.reduce((sum, delta) => sum + delta, 0) / deltas.length : 0) ?? 0,
+    maxJump: deltas.length > 0 ? Math.max(...deltas) : 0,
+    modelErrors,
+    scores,
+  }
+}
+
+function summarize(results: CaseResult[]) {
+  const bands = Object.fromEntries(
+    RISK_LEVELS.map((level) => {
+      const predicted = results.filter((result) => result.peakLevel === level)
+      const actual = results.filter((result) => result.expectedLevel === level)
+      const truePositives = predicted.filter((result) => result.expectedLevel === level).length
+
+      return [
+        level,
+        {
+          support: actual.length,
+          predicted: predicted.length,
+          precision: ratio(truePositives, predicted.length),
+          recall: ratio(truePositives, actual.length),
+        },
+      ]
+    }),
+  )
+
+  const scams = results.filter((result) => result.label === 'scam')
+  const benign = results.filter((result) => result.label === 'benign')
+  const expectedHigh = results.filter((result) => result.expectedLevel === 'high')
+  const highTimes = expectedHigh.flatMap((result) => (result.timeToHighMs === null ? [] : [result.timeToHighMs]))
+  const typedScams = scams.filter((result) => result.expectedScamType !== 'unknown')
+
+  return {
+    cases: results.length,
+    bands,
+    timeToHighRisk: {
+      reached: highTimes.length,
+      expected: expectedHigh.length,
+      medianMs: median(highTimes),
+      maxMs: highTimes.length > 0 ? Math.max(...highTimes) : null,
+    },
+    falseAlarmRate: ratio(benign.filter((result) => result.peakLevel === 'high').length, benign.length),
+    benignMediumRate: ratio(benign.filter((result) => result.peakLevel !== 'low').length, benign.length),
+    scamTypeAccuracy: ratio(
+      typedScams.filter((result) => result.predictedScamType === result.expectedScamType).length,
+      typedScams.length,
+    ),
+    volatility: {
+      meanAbsDelta: round(
+        results.length > 0 ? results.reduce((sum, result) => sum + result.meanAbsDelta, 0) / results.length : 0,
+      ),
+      maxJump: results.length > 0 ? Math.max(...results.map((result) => result.maxJump)) : 0,
+    },
+    modelErrors: results.reduce((sum, result) => sum + result.modelErrors, 0),
+  }
+}
+
+async function main() {
+  const corpus = await loadCorpus()
+  const provider = resolveProvider()
+  const pipelines: PipelineId[] = ['heuristic', 'model']
+  const report: Record<string, unknown> = {
+    corpus: corpus.map((item) => item.id),
+    provider: { id: provider.id, model: provider.model },
+    evidenceHalfLifeMs,
+  }
+
+  for (const pipeline of pipelines) {
+    const results: CaseResult[] = []
+    for (const item of corpus) {
+      results.push(await runCase(item, pipeline, provider))
+    }
+
+    report[pipeline] = {
+      summary: summarize(results),
+      cases: results,
+    }
+  }
+
+  await writeFile(reportPath, `${JSON.stringify(report, null, 2)}\n`)
+
+  console.log(`Evaluated ${corpus.length} calls with provider ${provider.id} (${provider.model}).`)
+  for (const pipeline of pipelines) {
+    const { summary } = report[pipeline] as { summary: ReturnType<typeof summarize> }
+    console.log(
+      `${pipeline}: high recall ${summary.bands.high.recall ?? 'n/a'}, false alarms ${summary.falseAlarmRate ?? 'n/a'}, max jump ${summary.volatility.maxJump}`,
+    )
+  }
+  console.log(`Report written to ${path.relative(process.cwd(), reportPath)}`)
+}
+
+main().catch((error) => {
+  console.error(`Coaching eval failed: ${error instanceof Error ? error.message : String(error)}`)
+  process.exit(1)
+})
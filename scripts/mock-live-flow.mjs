@@ -6,6 +6,7 @@ import { setTimeout as sleep } from 'node:timers/promises'
 const baseUrl = process.env.BASE_URL || 'http://127.0.0.1:3000'
 const twilioAccountSid = process.env.TWILIO_ACCOUNT_SID || 'AC_TEST_ACCOUNT'
 const twilioAuthToken = process.env.TWILIO_AUTH_TOKEN || ''
+const supabaseJwtSecret = process.env.SUPABASE_JWT_SECRET || ''
 
 function invariant(condition, message) {
   if (!condition) {
@@ -35,6 +36,22 @@ function computeTwilioSignature(url, params = {}) {
   return createHmac('sha1', twilioAuthToken).update(payload).digest('base64')
 }
 
+// Same shape as lib/call-access-token.ts. The mock call never goes through
+// POST /api/call, so the script signs its own viewer token.
+function signViewerToken(callId, slug) {
+  const encode = (value) => Buffer.from(JSON.stringify(value)).toString('base64url')
+  const issuedAt = Math.floor(Date.now() / 1000)
+  const payload = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode({
+    role: 'anon',
+    sub: `call-viewer:${callId}`,
+    call_sid: callId,
+    slug,
+    iat: issuedAt,
+    exp: issuedAt + 600,
+  })}`
+  return `${payload}.${createHmac('sha256', supabaseJwtSecret).update(payload).digest('base64url')}`
+}
+
 function withBodySha(url, body) {
   const parsed = new URL(url)
   const bodySha = createHash('sha256').update(body).digest('hex')
@@ -113,10 +130,16 @@ async function main() {
 
   console.log(`Provisioned tenant slug: ${slug}`)
 
+  // Only the browser that created the tenant may set its first number. This
+  // only sends a confirmation code; webhooks do not need the number saved.
+  const tenantCookie = startResponse.headers.getSetCookie().find((cookie) => cookie.startsWith('tenant_slug='))
+  invariant(tenantCookie, '/start did not set the tenant cookie')
+
   const phoneSaveResponse = await fetch(`${baseUrl}/api/tenant/phone`, {
     method: 'PUT',
     headers: {
       'Content-Type': 'application/json',
+      Cookie: tenantCookie.split(';')[0],
     },
     body: JSON.stringify({
       slug,
@@ -128,6 +151,7 @@ async function main() {
   invariant(phoneSaveResponse.ok && phoneSavePayload.ok, `Phone setup failed: ${JSON.stringify(phoneSavePayload)}`)
 
   const callId = `CA${Date.now()}`
+  const viewerHeaders = { Authorization: `Bearer ${signViewerToken(callId, slug)}` }
 
   await postWebhook(slug, {
     AccountSid: twilioAccountSid,
@@ -191,6 +215,7 @@ async function main() {
       `${baseUrl}/api/call/live?slug=${encodeURIComponent(slug)}&callId=${encodeURIComponent(callId)}`,
       {
         cache: 'no-store',
+        headers: viewerHeaders,
       },
     )
 
@@ -221,6 +246,7 @@ async function main() {
     `${baseUrl}/api/call/live?slug=${encodeURIComponent(slug)}&callId=${encodeURIComponent(callId)}`,
     {
       cache: 'no-store',
+      headers: viewerHeaders,
     },
   )
   invariant(endedResponse.ok, `Live endpoint failed after end status: ${endedResponse.status}`)
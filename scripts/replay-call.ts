@@ -0,0 +1,271 @@
+import { readFile, readdir } from 'node:fs/promises'
+import path from 'node:path'
+import { AdviceQueueConfig, AdviceStore, createAdviceQueue } from '@/lib/advice-queue'
+import { generateModelAdvice } from '@/lib/live-coach'
+import { isTerminalStatus, normalizeSessionStatus } from '@/lib/live-types'
+import { LlmProvider, ModelAdviceError, createFakeLlmProvider } from '@/lib/llm-provider'
+import { createInMemoryLiveCallRepository } from '@/lib/memory-live-call-repository'
+import { generatePostCallSummary } from '@/lib/post-call-summary'
+import { RedactionMode, redactText, redactsAtStorage } from '@/lib/redaction'
+import { TwilioWebhookParams, parseTwilioWebhookEvent } from '@/lib/twilio-webhook'
+
+type ReplayModelStep = {
+  status?: number
+  retryAfterMs?: number
+  advice?: Record<string, unknown>
+}
+
+type ReplayFixture = {
+  id: string
+  description?: string
+  slug?: string
+  startedAt?: number
+  settleMs?: number
+  /** Tenant redaction setting to replay with; defaults to `off`. */
+  redactionMode?: RedactionMode
+  config?: Partial<AdviceQueueConfig>
+  model?: {
+    latencyMs?: number
+    responses?: ReplayModelStep[]
+  }
+  events: Array<{
+    atMs: number
+    params: TwilioWebhookParams
+  }>
+}
+
+type ModelCallLog = {
+  startedAtMs: number
+  finishedAtMs: number
+  status: number
+}
+
+type VirtualClock = {
+  now: () => number
+  sleep: (ms: number) => Promise<void>
+  advanceTo: (target: number) => Promise<void>
+}
+
+const DEFAULT_STARTED_AT = 1_700_000_000_000
+const DEFAULT_SETTLE_MS = 30_000
+const DEFAULT_CONFIG: AdviceQueueConfig = {
+  hasModel: true,
+  modelMinIntervalMs: 2_800,
+  nonFinalAdviceMinIntervalMs: 1_200,
+  evidenceHalfLifeMs: 180_000,
+  transcriptLimit: 40,
+  summaryTranscriptLimit: 500,
+}
+const fixtureDir = path.join(process.cwd(), 'scripts/replay-fixtures')
+
+function invariant(condition: unknown, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(message)
+  }
+}
+
+// setImmediate runs after the microtask queue drains, so every promise chain
+// that does not wait on the virtual clock has settled by the time this resolves.
+function flushPromises(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve))
+}
+
+function createVirtualClock(startedAt: number): VirtualClock {
+  let current = startedAt
+  let sequence = 0
+  const timers: Array<{ at: number; sequence: number; resolve: () => void }> = []
+
+  return {
+    now: () => current,
+    sleep(ms) {
+      return new Promise((resolve) => {
+        timers.push({ at: current + Math.max(0, ms), sequence: sequence++, resolve })
+      })
+    },
+    async advanceTo(target) {
+      await flushPromises()
+
+      for (;;) {
+        timers.sort((a, b) => a.at - b.at || a.sequence - b.sequence)
+        const next = timers[0]
+        if (!next || next.at > target) break
+
+        timers.shift()
+        current = Math.max(current, next.at)
+        next.resolve()
+        await flushPromises()
+      }
+
+      current = Math.max(current, target)
+      await flushPromises()
+    },
+  }
+}
+
+function createReplayProvider(
+  fixture: ReplayFixture,
+  clock: VirtualClock,
+  elapsed: () => number,
+  log: (entry: ModelCallLog) => void,
+): LlmProvider {
+  const fallback = createFakeLlmProvider({ model: 'replay' })
+  const responses = fixture.model?.responses ?? []
+  const latencyMs = fixture.model?.latencyMs ?? 0
+  let index = 0
+
+  return {
+    ...fallback,
+    async complete(request) {
+      const step = responses[Math.min(index, responses.length - 1)] ?? {}
+      index += 1
+      const startedAtMs = elapsed()
+
+      await clock.sleep(latencyMs)
+      log({ startedAtMs, finishedAtMs: elapsed(), status: step.status ?? 200 })
+
+      if (step.status) {
+        throw new ModelAdviceError(`Replay model failed with status ${step.status}`, {
+          statusCode: step.status,
+          retryAfterMs: step.retryAfterMs ?? null,
+        })
+      }
+
+      return step.advice ? JSON.stringify(step.advice) : fallback.complete(request)
+    },
+  }
+}
+
+async function replay(fixture: ReplayFixture) {
+  const startedAt = fixture.startedAt ?? DEFAULT_STARTED_AT
+  const slug = fixture.slug ?? 'replay'
+  const redactionMode = fixture.redactionMode ?? 'off'
+  const clock = createVirtualClock(startedAt)
+  const repository = createInMemoryLiveCallRepository({ now: clock.now })
+  const snapshots: object[] = []
+  const callSids = new Set<string>()
+  const modelCalls: ModelCallLog[] = []
+
+  const elapsed = () => clock.now() - startedAt
+
+  const store: AdviceStore = {
+    ...repository,
+    async setLiveCallAdvice(callSid, advice, options) {
+      await repository.setLiveCallAdvice(callSid, advice, options)
+
+      snapshots.push({
+        atMs: elapsed(),
+        riskScore: advice.riskScore,
+        riskLevel: advice.riskLevel,
+        scamType: advice.scamType,
+        scriptStage: advice.scriptStage,
+        confidence: advice.confidence,
+        firedRuleIds: advice.firedRuleIds,
+        disclosures: advice.disclosures,
+        lastError: options?.lastError ?? null,
+      })
+    },
+  }
+
+  const provider = createReplayProvider(fixture, clock, elapsed, (entry) => modelCalls.push(entry))
+  const queue = createAdviceQueue({
+    clock,
+    store,
+    model: (params) => generateModelAdvice({ ...params, provider }),
+    summarize: (params) => generatePostCallSummary({ ...params, provider }),
+    getRedactionMode: async () => redactionMode,
+    config: { ...DEFAULT_CONFIG, ...fixture.config },
+  })
+
+  // Mirrors the ingest half of POST /api/twilio/webhook against the in-memory repository.
+  async function applyEvent(params: TwilioWebhookParams) {
+    const event = parseTwilioWebhookEvent({ Timestamp: String(clock.now()), ...params }, slug)
+    if (!event.callSid) return
+    callSids.add(event.callSid)
+
+    await repository.upsertLiveCallSession({
+      callSid: event.callSid,
+      slug,
+      status: event.status ?? undefined,
+    })
+
+    if (event.status) {
+      const status = normalizeSessionStatus(event.status)
+      await repository.setLiveCallStatus(event.callSid, status, status === 'failed' ? `Call status changed to ${event.status}.` : null)
+    }
+
+    if (event.transcript) {
+      await repository.appendTranscriptChunk({
+        callSid: event.callSid,
+        sourceEventId: event.transcript.sourceEventId,
+        speaker: event.transcript.speaker,
+        text: redactsAtStorage(redactionMode) ? redactText(event.transcript.text) : event.transcript.text,
+        isFinal: event.transcript.isFinal,
+        timestamp: event.transcript.timestamp,
+      })
+
+      if (event.transcript.isFinal || isTerminalStatus(normalizeSessionStatus(event.status ?? ''))) {
+        queue.trigger(event.callSid, true)
+      }
+    } else if (event.status && isTerminalStatus(normalizeSessionStatus(event.status))) {
+      queue.trigger(event.callSid, true)
+    }
+  }
+
+  const events = [...fixture.events].sort((a, b) => a.atMs - b.atMs)
+  for (const event of events) {
+    await clock.advanceTo(startedAt + event.atMs)
+    await applyEvent(event.params)
+  }
+
+  await clock.advanceTo(clock.now() + (fixture.settleMs ?? DEFAULT_SETTLE_MS))
+
+  const summaries: Record<string, object | null> = {}
+  for (const callSid of callSids) {
+    summaries[callSid] = (await repository.getLiveCallSummary(callSid))?.postCallSummary ?? null
+  }
+
+  return {
+    fixture: fixture.id,
+    description: fixture.description ?? null,
+    modelCalls,
+    snapshots,
+    summaries,
+  }
+}
+
+async function loadFixtures(paths: string[]): Promise<ReplayFixture[]> {
+  const fixturePaths =
+    paths.length > 0
+      ? paths
+      : (await readdir(fixtureDir))
+          .filter((name) => name.endsWith('.json'))
+          .sort()
+          .map((name) => path.join(fixtureDir, name))
+
+  invariant(fixturePaths.length > 0, `No replay fixtures found in ${fixtureDir}`)
+
+  return Promise.all(
+    fixturePaths.map(async (fixturePath) => {
+      const fixture = JSON.parse(await readFile(fixturePath, 'utf8')) as ReplayFixture
+      invariant(typeof fixture.id === 'string' && fixture.id, `${fixturePath}: missing id`)
+      invariant(Array.isArray(fixture.events) && fixture.events.length > 0, `${fixturePath}: events must be a non-empty array`)
+      return fixture
+    }),
+  )
+}
+
+async function main() {
+  const fixtures = await loadFixtures(process.argv.slice(2))
+  const results = []
+
+  for (const fixture of fixtures) {
+    results.push(await replay(fixture))
+  }
+
+  process.stdout.write(`${JSON.stringify(results.length === 1 ? results[0] : results, null, 2)}\n`)
+}
+
+main().catch((error) => {
+  console.error(`Call replay failed: ${error instanceof Error ? error.message : String(error)}`)
+  process.exit(1)
+})